@@ -1,13 +1,29 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useRef, useMemo } from 'react';
 import { Content } from "@google/genai";
 import UrlInputSection from './components/UrlInputSection';
 import TeachingSection from './components/TeachingSection';
 import ChatSection from './components/ChatSection';
 import LoadingSpinner from './components/LoadingSpinner';
 import ErrorMessage from './components/ErrorMessage';
-import { ChatMessage, TeachingSectionContent, GroundingSource } from './types';
-import { getTeachingSections, getFollowUpResponse, MissingPdfError } from './services/geminiService';
+import LessonLibrary from './components/LessonLibrary';
+import FlashcardReview from './components/FlashcardReview';
+import QuestionBankRunner from './components/QuestionBankRunner';
+import LessonEditor from './components/LessonEditor';
+import AddSourcesPanel from './components/AddSourcesPanel';
+import LessonUpdateReview from './components/LessonUpdateReview';
+import { ChatMessage, TeachingSectionContent, GroundingSource, LearningContext, LessonSummary, SavedLesson, ProviderId, SectionQuiz, ChatAnswerMode, ImageAttachment, RevisionAction, SectionRevision } from './types';
+import { getModelProvider, getStoredProviderId, MissingPdfError, LessonFormatError, ModelRequestError, RequestCancelledError, RequestErrorKind, DEFAULT_PROVIDER_ID, TeachingContext } from './services/modelProvider';
+import { listLessons, getLesson, saveLesson, deleteLesson, renameLesson, duplicateLesson, createLessonId } from './services/lessonStore';
 import { UploadIcon } from './components/IconComponents';
+import { assembleFollowUpContext } from './services/contextBudget';
+import { getRequestSettings } from './services/requestRunner';
+import { loadPdfDocument, hasExtractedText } from './services/pdfText';
+import { buildRetrievalIndex, searchPassages } from './services/retrieval';
+import { mergeRevisionSources } from './services/citations';
+import { applyRevision, rewritesSection, pushRevision, revertSectionChats } from './services/lessonRevision';
+import { withLessonIds, sectionKey, pairKey, PairPosition } from './services/lessonEditor';
+import { LESSON_CHAT_KEY, pairFromChatAnswer, addPairToLesson } from './services/lessonChat';
+import { integrateSources, appendSources, AddedSources, LessonUpdate } from './services/sourceIntegration';
 
 // Helper to convert File to Base64
 const fileToBase64 = (file: File): Promise<string> => {
@@ -19,19 +35,101 @@ const fileToBase64 = (file: File): Promise<string> => {
   });
 };
 
+// Encoded PDFs are cached per File so retries and resubmissions don't re-read large files.
+const base64Cache = new WeakMap<File, Promise<string>>();
+const cachedFileToBase64 = (file: File): Promise<string> => {
+  let encoded = base64Cache.get(file);
+  if (!encoded) {
+    encoded = fileToBase64(file);
+    base64Cache.set(file, encoded);
+    encoded.catch(() => base64Cache.delete(file));
+  }
+  return encoded;
+};
+
+// The request for a lesson's inputs. `context.pdfDocuments` must already hold the extracted text:
+// PDFs with a text layer are sent as pages, the rest as files.
+const buildTeachingContext = async (context: LearningContext): Promise<TeachingContext> => {
+  const pdfs = await Promise.all(context.pdfFiles.map(async (file, index) => {
+    const document = context.pdfDocuments?.[index];
+    return hasExtractedText(document)
+      ? { mimeType: file.type, name: file.name, pages: document.pages }
+      : { base64: await cachedFileToBase64(file), mimeType: file.type, name: file.name };
+  }));
+  return {
+    urls: context.urls,
+    pdfs,
+    pastedTexts: context.pastedTexts,
+    images: (context.images ?? []).map(({ base64, mimeType, name, description }) => ({ base64, mimeType, name, description })),
+    searchQuery: context.searchQuery,
+    focusTopic: context.focusTopic,
+    examQuestion: context.examQuestion,
+    promptProfile: context.promptProfile,
+    model: context.model,
+  };
+};
+
+// Helper to pick a readable default title for a newly generated lesson.
+const deriveLessonTitle = (context: LearningContext, sections: TeachingSectionContent[]): string => {
+  const candidates = [
+    context.examQuestion,
+    context.focusTopic,
+    context.searchQuery,
+    sections[0]?.section_title,
+    context.pdfFiles[0]?.name,
+    context.urls[0],
+  ];
+  const title = candidates.find(c => c && c.trim());
+  return title ? title.trim().substring(0, 120) : 'Untitled lesson';
+};
+
+type LessonMeta = Pick<SavedLesson, 'id' | 'title' | 'createdAt' | 'model' | 'inputContext'>;
+
 const App: React.FC = () => {
   const [teachingSteps, setTeachingSteps] = useState<TeachingSectionContent[]>([]);
   const [initialSources, setInitialSources] = useState<GroundingSource[]>([]);
   const [currentStepIndex, setCurrentStepIndex] = useState<number>(0);
   const [chatHistories, setChatHistories] = useState<Record<string, ChatMessage[]>>({});
+  const [quizzes, setQuizzes] = useState<Record<string, SectionQuiz>>({});
+  const [quizLoadingSection, setQuizLoadingSection] = useState<number | null>(null);
+  const [revisions, setRevisions] = useState<Record<string, SectionRevision[]>>({});
+  // The id of the section or pair being revised.
+  const [revisingTarget, setRevisingTarget] = useState<string | null>(null);
+  const [isEditing, setIsEditing] = useState<boolean>(false);
+  const [isAddingSources, setIsAddingSources] = useState<boolean>(false);
+  const [isIntegrating, setIsIntegrating] = useState<boolean>(false);
+  // An update from added sources, waiting for the user to review it.
+  const [pendingUpdate, setPendingUpdate] = useState<(LessonUpdate & { inputContext: LearningContext }) | null>(null);
+  const integrationAbortRef = useRef<AbortController | null>(null);
   const [isLoadingContent, setIsLoadingContent] = useState<boolean>(false);
+  const [isStreamingContent, setIsStreamingContent] = useState<boolean>(false);
+  const generationAbortRef = useRef<AbortController | null>(null);
   const [isChatLoading, setIsChatLoading] = useState<boolean>(false);
   const [activeChatKey, setActiveChatKey] = useState<string | null>(null);
   const [error, setError] = useState<string>('');
+  const [errorKind, setErrorKind] = useState<RequestErrorKind | undefined>(undefined);
+  // The context of a lesson request that failed with a transient error, offered for one-click retry.
+  const [retryableContext, setRetryableContext] = useState<LearningContext | null>(null);
+  const chatAbortRef = useRef<AbortController | null>(null);
+  // Counts how often another lesson was opened or started. A reply still arriving for an
+  // earlier lesson must not be written into the one now open.
+  const lessonSessionRef = useRef<number>(0);
+  const revisionAbortRef = useRef<AbortController | null>(null);
+  const quizAbortRef = useRef<AbortController | null>(null);
+  // Kept when the lesson JSON could not be repaired, so the user can see what the model actually returned.
+  const [rejectedResponse, setRejectedResponse] = useState<{ raw: string; issues: string[] } | null>(null);
   // Fix: Update default model to gemini-2.5-flash as per guidelines.
   const [selectedModel, setSelectedModel] = useState<string>('gemini-2.5-pro');
+  const [selectedProvider, setSelectedProvider] = useState<ProviderId>(getStoredProviderId);
 
-  const [lastLearningContext, setLastLearningContext] = useState<any>(null);
+  const [lastLearningContext, setLastLearningContext] = useState<LearningContext | null>(null);
+  const [lessonMeta, setLessonMeta] = useState<LessonMeta | null>(null);
+  const [savedLessons, setSavedLessons] = useState<LessonSummary[]>([]);
+  // Set when a lesson is restored from the library so reopening it doesn't count as an edit.
+  const skipNextAutoSaveRef = useRef<boolean>(false);
+  // The auto-save waiting to be written, so it can be written at once before another lesson
+  // is opened or started, or the page is closed.
+  const pendingSaveRef = useRef<{ timeoutId: number; lesson: SavedLesson } | null>(null);
   const [requestedPdfs, setRequestedPdfs] = useState<string[]>([]);
   
   // New states for flexible supplemental content submission
@@ -41,61 +139,209 @@ const App: React.FC = () => {
   const [currentPastedText, setCurrentPastedText] = useState<string>('');
   
   useEffect(() => {
-    if (!process.env.API_KEY) {
-      setError("Gemini API Key (API_KEY environment variable) is not configured. The application will not function correctly.");
+    const configurationError = getModelProvider(getStoredProviderId()).getConfigurationError();
+    if (configurationError) {
+      setError(`${configurationError} The application will not function correctly.`);
+    }
+  }, []);
+
+  const refreshLessons = useCallback(async () => {
+    try {
+      setSavedLessons(await listLessons());
+    } catch (err) {
+      console.error("Failed to load saved lessons:", err);
     }
   }, []);
 
-  const handleStartLearning = useCallback(async (context: { urls: string[]; pdfFiles: File[]; pastedTexts?: string[]; searchQuery: string; focusTopic: string; model: string; }) => {
-    if (!process.env.API_KEY) {
-      setError("Gemini API Key is missing. Please configure the API_KEY environment variable.");
+  useEffect(() => {
+    refreshLessons();
+  }, [refreshLessons]);
+
+  const writeLesson = useCallback((lesson: SavedLesson) => {
+    saveLesson(lesson)
+      .then(refreshLessons)
+      .catch(err => console.error("Failed to save lesson:", err));
+  }, [refreshLessons]);
+
+  const flushPendingSave = useCallback(() => {
+    const pending = pendingSaveRef.current;
+    if (!pending) return;
+    pendingSaveRef.current = null;
+    window.clearTimeout(pending.timeoutId);
+    writeLesson(pending.lesson);
+  }, [writeLesson]);
+
+  const discardPendingSave = () => {
+    if (pendingSaveRef.current) window.clearTimeout(pendingSaveRef.current.timeoutId);
+    pendingSaveRef.current = null;
+  };
+
+  // Auto-save the open lesson whenever its content, chats or position change.
+  useEffect(() => {
+    if (!lessonMeta || teachingSteps.length === 0) return;
+    if (skipNextAutoSaveRef.current) {
+      skipNextAutoSaveRef.current = false;
+      return;
+    }
+    const lesson: SavedLesson = {
+      ...lessonMeta,
+      updatedAt: Date.now(),
+      teachingSteps,
+      initialSources,
+      chatHistories,
+      currentStepIndex,
+      quizzes,
+      revisions,
+    };
+    const timeoutId = window.setTimeout(() => {
+      pendingSaveRef.current = null;
+      writeLesson(lesson);
+    }, 500);
+    pendingSaveRef.current = { timeoutId, lesson };
+    // A newer snapshot replaces this one; switching lessons flushes it before this runs.
+    return () => {
+      if (pendingSaveRef.current?.timeoutId === timeoutId) discardPendingSave();
+    };
+  }, [lessonMeta, teachingSteps, initialSources, chatHistories, currentStepIndex, quizzes, revisions, writeLesson]);
+
+  useEffect(() => {
+    window.addEventListener('pagehide', flushPendingSave);
+    window.addEventListener('beforeunload', flushPendingSave);
+    return () => {
+      window.removeEventListener('pagehide', flushPendingSave);
+      window.removeEventListener('beforeunload', flushPendingSave);
+    };
+  }, [flushPendingSave]);
+
+  const handleStartLearning = useCallback(async (context: LearningContext) => {
+    const provider = getModelProvider(context.provider);
+    const configurationError = provider.getConfigurationError();
+    if (configurationError) {
+      setError(configurationError);
       return;
     }
+    flushPendingSave();
+    leaveLesson();
     setIsLoadingContent(true);
     setError('');
+    setErrorKind(undefined);
+    setRetryableContext(null);
+    setRejectedResponse(null);
     setTeachingSteps([]);
     setInitialSources([]);
     setChatHistories({});
+    setQuizzes({});
+    setRevisions({});
+    setIsEditing(false);
+    setIsAddingSources(false);
+    setPendingUpdate(null);
     setCurrentStepIndex(0);
     setSelectedModel(context.model);
+    setSelectedProvider(provider.id);
     setRequestedPdfs([]);
     setLastLearningContext(context);
+    setLessonMeta(null);
+    // Created before the PDFs are read, so Cancel also works while they are prepared.
+    const controller = new AbortController();
+    generationAbortRef.current = controller;
+    const session = lessonSessionRef.current;
+    const throwIfCancelled = () => {
+      if (controller.signal.aborted) throw new RequestCancelledError();
+    };
     
     try {
-      let pdfPayloads: { base64: string; mimeType: string; }[] = [];
-      if (context.pdfFiles.length > 0) {
-        pdfPayloads = await Promise.all(context.pdfFiles.map(async (file) => ({
-          base64: await fileToBase64(file),
-          mimeType: file.type,
-        })));
+      // PDF text is extracted locally so answers can cite pages; PDFs without a text layer
+      // (e.g. scans) are sent as files instead.
+      const pdfDocuments = await Promise.all(context.pdfFiles.map((file, index) =>
+        loadPdfDocument(file, context.pdfPageRanges?.[index], context.pdfDocuments?.[index] ?? undefined)));
+      throwIfCancelled();
+      context = { ...context, pdfDocuments };
+      setLastLearningContext(context);
+      const teachingContext = await buildTeachingContext(context);
+      throwIfCancelled();
+
+      let result: { sections: TeachingSectionContent[]; sources: GroundingSource[] };
+      if (context.streamResponse) {
+        setIsStreamingContent(true);
+        result = await provider.streamTeachingSections(
+          teachingContext,
+          ({ sections, partialSection }) => {
+            if (isCurrentSession(session)) setTeachingSteps(partialSection ? [...sections, partialSection] : sections);
+          },
+          controller.signal,
+        );
+      } else {
+        result = await provider.getTeachingSections(teachingContext, controller.signal);
       }
-      
-      const { sections, sources } = await getTeachingSections({ 
-        urls: context.urls, 
-        pdfs: pdfPayloads, 
-        pastedTexts: context.pastedTexts,
-        searchQuery: context.searchQuery, 
-        focusTopic: context.focusTopic,
-        model: context.model,
-      });
+      if (!isCurrentSession(session)) return;
+      const sections = withLessonIds(result.sections);
+      const { sources } = result;
+
       setTeachingSteps(sections);
       setInitialSources(sources);
       setLastLearningContext(null);
+      if (sections.length === 0) {
+        return;
+      }
+      setLessonMeta({
+        id: createLessonId(),
+        title: deriveLessonTitle(context, sections),
+        createdAt: Date.now(),
+        model: context.model,
+        inputContext: context,
+      });
     } catch (err) {
       console.error(err);
-      if (err instanceof MissingPdfError) {
+      if (!isCurrentSession(session)) return;
+      if (err instanceof RequestCancelledError) {
+        setTeachingSteps([]);
+        setLastLearningContext(null);
+      } else if (err instanceof MissingPdfError) {
         setError(err.message);
         setRequestedPdfs(err.urls);
         setTeachingSteps([]);
       } else {
+        if (err instanceof LessonFormatError) {
+          setRejectedResponse({ raw: err.rawResponse, issues: err.issues });
+        }
+        if (err instanceof ModelRequestError) {
+          setErrorKind(err.kind);
+          if (err.retryable) {
+            setRetryableContext(context);
+          }
+        }
         setError(err instanceof Error ? err.message : "An unknown error occurred while fetching teaching content.");
         setTeachingSteps([]);
         setLastLearningContext(null);
       }
     } finally {
-      setIsLoadingContent(false);
+      if (generationAbortRef.current === controller) {
+        generationAbortRef.current = null;
+        setIsStreamingContent(false);
+        setIsLoadingContent(false);
+      }
     }
-  }, []);
+  }, [flushPendingSave]);
+
+  const handleCancelGeneration = () => {
+    generationAbortRef.current?.abort();
+  };
+
+  const handleCancelChat = () => {
+    chatAbortRef.current?.abort();
+  };
+
+  const isCurrentSession = (session: number) => lessonSessionRef.current === session;
+
+  // Stops every request for the lesson being left; late updates from them are then dropped.
+  const leaveLesson = () => {
+    lessonSessionRef.current++;
+    generationAbortRef.current?.abort();
+    chatAbortRef.current?.abort();
+    revisionAbortRef.current?.abort();
+    integrationAbortRef.current?.abort();
+    quizAbortRef.current?.abort();
+  };
 
   const handleNextStep = () => {
     if (currentStepIndex < teachingSteps.length - 1) {
@@ -109,89 +355,384 @@ const App: React.FC = () => {
     }
   };
 
-  const handleSendFollowUpMessage = useCallback(async (
-    sectionIndex: number, 
-    qaIndex: number, 
+  // Built once per lesson from its uploaded PDFs and pasted texts, for answering from documents.
+  const retrievalIndex = useMemo(
+    () => (lessonMeta?.inputContext ? buildRetrievalIndex(lessonMeta.inputContext) : null),
+    [lessonMeta?.inputContext]
+  );
+
+  // Sends a message in a question's thread, or in the lesson-wide chat when `position` is null.
+  const sendChatMessage = useCallback(async (
+    position: PairPosition | null,
     message: string, 
-    useGoogleSearch: boolean
+    answerMode: ChatAnswerMode,
+    images: ImageAttachment[] = []
   ) => {
-    if (!process.env.API_KEY) {
-      setError("Gemini API Key is missing.");
+    const provider = getModelProvider(selectedProvider);
+    const configurationError = provider.getConfigurationError();
+    if (configurationError) {
+      setError(configurationError);
       return;
     }
 
-    const chatKey = `${sectionIndex}-${qaIndex}`;
-    const currentHistory = chatHistories[chatKey] || [];
-    const currentTeachingSection = teachingSteps[sectionIndex];
-    const currentQA = currentTeachingSection?.qa_pairs[qaIndex];
+    const currentQA = position && teachingSteps[position.sectionIndex]?.qa_pairs[position.qaIndex];
 
-    if (!currentTeachingSection || !currentQA) {
+    if (position ? !currentQA : teachingSteps.length === 0) {
         setError("Cannot send message, the teaching context is missing.");
         return;
     }
+    const chatKey = position && currentQA ? pairKey(currentQA, position.sectionIndex, position.qaIndex) : LESSON_CHAT_KEY;
+    const currentHistory = chatHistories[chatKey] || [];
 
     setIsChatLoading(true);
     setActiveChatKey(chatKey);
     setError('');
+    setErrorKind(undefined);
+    const controller = new AbortController();
+    chatAbortRef.current = controller;
+    const session = lessonSessionRef.current;
+    const setThread = (messages: ChatMessage[]) => {
+      if (isCurrentSession(session)) {
+        setChatHistories(prev => ({ ...prev, [chatKey]: messages }));
+      }
+    };
 
     const newUserMessage: ChatMessage = { 
       id: Date.now().toString(), 
       role: 'user', 
-      parts: [{ text: message }] 
+      parts: [
+        { text: message },
+        ...images.map(image => ({ inlineData: { data: image.base64, mimeType: image.mimeType } })),
+      ]
     };
 
     const updatedHistory = [...currentHistory, newUserMessage];
-    setChatHistories(prev => ({ ...prev, [chatKey]: updatedHistory }));
+    setThread(updatedHistory);
 
     const apiHistory: Content[] = updatedHistory.map(msg => ({role: msg.role, parts: msg.parts}));
     
     try {
-        const fullSectionContent = currentTeachingSection.qa_pairs.map(qa => `Q: ${qa.question}\nA: ${qa.answer}`).join('\n\n');
+        const inputContext = lessonMeta?.inputContext;
+        const useGoogleSearch = answerMode === 'web';
+        const useDocuments = answerMode === 'documents' && !!retrievalIndex;
+        // PDFs with extracted text contribute page excerpts; the others are attached as files.
+        const pdfDocuments = (inputContext?.pdfDocuments ?? []).filter(hasExtractedText);
+        const filesWithoutText = (inputContext?.pdfFiles ?? []).filter((_, index) => !hasExtractedText(inputContext?.pdfDocuments?.[index]));
+        const pdfs = provider.capabilities.pdfInput && !useDocuments
+          ? await Promise.all(filesWithoutText.map(async file => ({
+              base64: await cachedFileToBase64(file),
+              mimeType: file.type,
+              name: file.name,
+            })))
+          : [];
+        // Short follow-ups ("and in children?") may only match once the lesson question is added.
+        const directMatches = useDocuments ? searchPassages(retrievalIndex, message) : [];
+        const passages = !useDocuments
+          ? undefined
+          : directMatches.length > 0 || !currentQA ? directMatches : searchPassages(retrievalIndex, `${message} ${currentQA.question}`);
+        const scope = position ? { ...position } : { lessonSources: initialSources };
+        const { context: followUpContext, summary: contextSummary, passageSources } = await assembleFollowUpContext(
+            passages
+              ? { teachingSteps, ...scope, userMessage: message, passages, promptProfile: inputContext?.promptProfile }
+              : { teachingSteps, ...scope, userMessage: message, pastedTexts: inputContext?.pastedTexts, pdfDocuments, pdfs, promptProfile: inputContext?.promptProfile },
+            getRequestSettings().followUpContextTokens,
+            parts => provider.countTokens(parts, selectedModel, controller.signal),
+        );
 
-        const botResponse = await getFollowUpResponse(
+        const botMessageId = (Date.now() + 1).toString();
+        const botResponse = await provider.streamFollowUpResponse(
             message,
-            { 
-                originalQuestion: currentQA.question, 
-                originalAnswer: currentQA.answer,
-                fullSectionContent: fullSectionContent
-            },
+            followUpContext,
             useGoogleSearch,
             apiHistory,
             selectedModel,
+            (partialText) => {
+                const partialMessage: ChatMessage = { id: botMessageId, role: 'model', parts: [{ text: partialText }] };
+                setThread([...updatedHistory, partialMessage]);
+            },
+            controller.signal,
         );
 
+        if (botResponse.cancelled && !botResponse.text) {
+            // Nothing arrived before the stop, so drop the unanswered question as well.
+            setThread(currentHistory);
+            return;
+        }
+
         const newBotMessage: ChatMessage = { 
-            id: (Date.now() + 1).toString(), 
+            id: botMessageId, 
             role: 'model', 
             parts: [{ text: botResponse.text }],
-            sources: botResponse.sources,
+            sources: passageSources ?? botResponse.sources,
             relatedLinks: botResponse.relatedLinks,
+            ...(botResponse.citations ? { citations: botResponse.citations } : {}),
+            contextSummary,
         };
 
-        setChatHistories(prev => ({
-            ...prev,
-            [chatKey]: [...updatedHistory, newBotMessage]
-        }));
+        setThread([...updatedHistory, newBotMessage]);
 
     } catch (err) {
+      if (err instanceof RequestCancelledError) {
+        // Drop the unanswered question so the thread stays a clean question/answer sequence.
+        setThread(currentHistory);
+        return;
+      }
+      if (!isCurrentSession(session)) return;
       console.error(err);
       const errorMessage = err instanceof Error ? err.message : "An unknown error occurred in chat.";
       setError(`Chat Error: ${errorMessage}`);
+      if (err instanceof ModelRequestError) {
+        setErrorKind(err.kind);
+      }
       const errorBotMessage: ChatMessage = {
         id: (Date.now() + 1).toString(),
         role: 'model',
         parts: [{ text: `Sorry, I encountered an error: ${errorMessage}` }]
       };
-       setChatHistories(prev => ({
-            ...prev,
-            [chatKey]: [...updatedHistory, errorBotMessage]
-        }));
+       setThread([...updatedHistory, errorBotMessage]);
+    } finally {
+      // A chat started since, e.g. in another lesson, keeps its own controller and loading state.
+      if (chatAbortRef.current === controller) {
+        chatAbortRef.current = null;
+        setIsChatLoading(false);
+        setActiveChatKey(null);
+      }
+    }
+  }, [chatHistories, teachingSteps, initialSources, selectedModel, selectedProvider, lessonMeta, retrievalIndex]);
+
+  const handleSendFollowUpMessage = useCallback((sectionIndex: number, qaIndex: number, message: string, answerMode: ChatAnswerMode, images?: ImageAttachment[]) =>
+    sendChatMessage({ sectionIndex, qaIndex }, message, answerMode, images), [sendChatMessage]);
+
+  const handleSendLessonMessage = useCallback((message: string, answerMode: ChatAnswerMode, images?: ImageAttachment[]) =>
+    sendChatMessage(null, message, answerMode, images), [sendChatMessage]);
+
+  const handleGenerateQuiz = useCallback(async (sectionIndex: number) => {
+    const provider = getModelProvider(selectedProvider);
+    const configurationError = provider.getConfigurationError();
+    const section = teachingSteps[sectionIndex];
+    if (configurationError || !section) {
+      setError(configurationError ?? "Cannot create a quiz, the teaching section is missing.");
+      return;
+    }
+    const controller = new AbortController();
+    quizAbortRef.current = controller;
+    const session = lessonSessionRef.current;
+    setQuizLoadingSection(sectionIndex);
+    setError('');
+    setErrorKind(undefined);
+    try {
+      const questions = await provider.generateSectionQuiz(section, selectedModel, controller.signal);
+      if (!isCurrentSession(session)) return;
+      setQuizzes(prev => ({
+        ...prev,
+        [sectionKey(section, sectionIndex)]: { questions, answers: questions.map(() => null), generatedAt: Date.now() },
+      }));
+    } catch (err) {
+      if (err instanceof RequestCancelledError || !isCurrentSession(session)) return;
+      console.error(err);
+      setError(`Quiz Error: ${err instanceof Error ? err.message : "The quiz could not be generated."}`);
+      if (err instanceof LessonFormatError) {
+        setRejectedResponse({ raw: err.rawResponse, issues: err.issues });
+      }
+      if (err instanceof ModelRequestError) {
+        setErrorKind(err.kind);
+      }
+    } finally {
+      if (quizAbortRef.current === controller) {
+        quizAbortRef.current = null;
+        setQuizLoadingSection(null);
+      }
+    }
+  }, [teachingSteps, selectedModel, selectedProvider]);
+
+  // Rewrites or extends one section or pair from the lesson's original sources, keeping the
+  // section as it was so the change can be reverted.
+  const handleReviseLesson = useCallback(async (sectionIndex: number, action: RevisionAction, qaIndex?: number) => {
+    const provider = getModelProvider(selectedProvider);
+    const configurationError = provider.getConfigurationError();
+    const section = teachingSteps[sectionIndex];
+    const inputContext = lessonMeta?.inputContext;
+    if (configurationError || !section || !inputContext) {
+      setError(configurationError ?? "Cannot revise this section, the lesson's inputs are missing.");
+      return;
+    }
+    const controller = new AbortController();
+    revisionAbortRef.current = controller;
+    const session = lessonSessionRef.current;
+    const sectionId = sectionKey(section, sectionIndex);
+    const qa = qaIndex === undefined ? undefined : section.qa_pairs[qaIndex];
+    setRevisingTarget(qa ? pairKey(qa, sectionIndex, qaIndex!) : sectionId);
+    setError('');
+    setErrorKind(undefined);
+    try {
+      const teachingContext = await buildTeachingContext(inputContext);
+      const result = await provider.getTeachingSections(
+        { ...teachingContext, model: selectedModel, revision: { action, lesson: teachingSteps, sectionIndex, qaIndex } },
+        controller.signal,
+      );
+      if (!isCurrentSession(session)) return;
+      const merged = mergeRevisionSources(initialSources, result.sources, result.sections);
+      const revisedSection = applyRevision(section, merged.sections, action, qaIndex);
+      const rewrite = rewritesSection(action, qaIndex);
+      setRevisions(prev => pushRevision(prev, sectionId, {
+        action,
+        qaIndex,
+        revisedAt: Date.now(),
+        previousSection: section,
+        ...(rewrite ? { previousQuiz: quizzes[sectionId] } : {}),
+      }));
+      setInitialSources(merged.sources);
+      setTeachingSteps(prev => prev.map(step => (step === section ? revisedSection : step)));
+      if (rewrite) {
+        setQuizzes(prev => {
+          const { [sectionId]: _replaced, ...rest } = prev;
+          return rest;
+        });
+      }
+    } catch (err) {
+      if (err instanceof RequestCancelledError || !isCurrentSession(session)) return;
+      console.error(err);
+      setError(`Revision Error: ${err instanceof Error ? err.message : "The section could not be revised."}`);
+      if (err instanceof LessonFormatError) {
+        setRejectedResponse({ raw: err.rawResponse, issues: err.issues });
+      }
+      if (err instanceof ModelRequestError) {
+        setErrorKind(err.kind);
+      }
+    } finally {
+      if (revisionAbortRef.current === controller) {
+        revisionAbortRef.current = null;
+        setRevisingTarget(null);
+      }
+    }
+  }, [teachingSteps, initialSources, quizzes, lessonMeta, selectedModel, selectedProvider]);
+
+  const handleCancelRevision = () => {
+    revisionAbortRef.current?.abort();
+  };
+
+  const handleRevertRevision = (sectionIndex: number) => {
+    const sectionId = sectionKey(teachingSteps[sectionIndex], sectionIndex);
+    const sectionRevisions = revisions[sectionId] ?? [];
+    const revision = sectionRevisions[sectionRevisions.length - 1];
+    if (!revision) return;
+    setTeachingSteps(prev => prev.map((step, index) => (index === sectionIndex ? revision.previousSection : step)));
+    setChatHistories(prev => revertSectionChats(prev, revision));
+    if (rewritesSection(revision.action, revision.qaIndex)) {
+      setQuizzes(prev => {
+        const { [sectionId]: _current, ...rest } = prev;
+        return revision.previousQuiz ? { ...rest, [sectionId]: revision.previousQuiz } : rest;
+      });
+    }
+    setRevisions(prev => ({ ...prev, [sectionId]: sectionRevisions.slice(0, -1) }));
+  };
+
+  const handleAnswerQuiz = (sectionIndex: number, questionIndex: number, optionIndex: number) => {
+    const sectionId = sectionKey(teachingSteps[sectionIndex], sectionIndex);
+    setQuizzes(prev => {
+      const quiz = prev[sectionId];
+      if (!quiz || quiz.answers[questionIndex] !== null) return prev;
+      const answers = quiz.answers.map((answer, index) => (index === questionIndex ? optionIndex : answer));
+      const completedAt = answers.every(answer => answer !== null) ? Date.now() : undefined;
+      return { ...prev, [sectionId]: { ...quiz, answers, completedAt } };
+    });
+  };
+
+  const handleRetakeQuiz = (sectionIndex: number) => {
+    const sectionId = sectionKey(teachingSteps[sectionIndex], sectionIndex);
+    setQuizzes(prev => {
+      const quiz = prev[sectionId];
+      if (!quiz) return prev;
+      return { ...prev, [sectionId]: { ...quiz, answers: quiz.questions.map(() => null), completedAt: undefined } };
+    });
+  };
+
+  // Sends only the new sources, with the current lesson, and holds the result for review.
+  const handleAddSources = useCallback(async (added: Omit<AddedSources, 'pdfDocuments'>) => {
+    const provider = getModelProvider(selectedProvider);
+    const configurationError = provider.getConfigurationError();
+    const inputContext = lessonMeta?.inputContext;
+    if (configurationError || !inputContext) {
+      setError(configurationError ?? "Cannot add sources, the lesson's inputs are missing.");
+      return;
+    }
+    const controller = new AbortController();
+    integrationAbortRef.current = controller;
+    const session = lessonSessionRef.current;
+    setIsIntegrating(true);
+    setError('');
+    setErrorKind(undefined);
+    try {
+      const pdfDocuments = await Promise.all(added.pdfFiles.map(file => loadPdfDocument(file)));
+      const teachingContext = await buildTeachingContext({
+        ...added,
+        pdfDocuments,
+        images: [],
+        focusTopic: inputContext.focusTopic,
+        promptProfile: inputContext.promptProfile,
+        model: selectedModel,
+      });
+      const result = await provider.getTeachingSections(
+        { ...teachingContext, integration: { lesson: teachingSteps } },
+        controller.signal,
+      );
+      if (!isCurrentSession(session)) return;
+      const update = integrateSources(teachingSteps, initialSources, result, {
+        pdfs: inputContext.pdfFiles.length,
+        pastedTexts: inputContext.pastedTexts?.length ?? 0,
+      });
+      setPendingUpdate({ ...update, inputContext: appendSources(inputContext, { ...added, pdfDocuments }) });
+    } catch (err) {
+      if (err instanceof RequestCancelledError || !isCurrentSession(session)) return;
+      console.error(err);
+      setError(`Update Error: ${err instanceof Error ? err.message : "The new sources could not be added."}`);
+      if (err instanceof LessonFormatError) {
+        setRejectedResponse({ raw: err.rawResponse, issues: err.issues });
+      }
+      if (err instanceof ModelRequestError) {
+        setErrorKind(err.kind);
+      }
     } finally {
-      setIsChatLoading(false);
-      setActiveChatKey(null);
+      if (integrationAbortRef.current === controller) {
+        integrationAbortRef.current = null;
+        setIsIntegrating(false);
+      }
     }
-  }, [chatHistories, teachingSteps, selectedModel]);
+  }, [teachingSteps, initialSources, lessonMeta, selectedModel, selectedProvider]);
+
+  // Revisions of updated sections are dropped, as for edits.
+  const handleApplyUpdate = () => {
+    if (!pendingUpdate) return;
+    const changed = new Set(pendingUpdate.changes.map(change => change.sectionId));
+    setRevisions(prev => Object.fromEntries(Object.entries(prev).filter(([id]) => !changed.has(id))));
+    setTeachingSteps(pendingUpdate.sections);
+    setInitialSources(pendingUpdate.sources);
+    setLessonMeta(prev => (prev ? { ...prev, inputContext: pendingUpdate.inputContext } : prev));
+    setPendingUpdate(null);
+    setIsAddingSources(false);
+  };
+
+  // Edits replace the lesson as a whole. Revisions of an edited section are dropped, since
+  // reverting one would discard the edit; the editor's own undo history covers it instead.
+  const handleLessonEdit = (sections: TeachingSectionContent[]) => {
+    const previous = new Map(teachingSteps.map((step, index) => [sectionKey(step, index), step]));
+    setRevisions(prev => Object.fromEntries(Object.entries(prev).filter(([id]) =>
+      sections.some((step, index) => sectionKey(step, index) === id && previous.get(id) === step))));
+    setTeachingSteps(sections);
+    setCurrentStepIndex(prev => Math.min(prev, Math.max(sections.length - 1, 0)));
+  };
   
+  // A lesson chat answer becomes a new question, saved like an edit; its sources join the lesson's.
+  const handleAddChatAnswer = (messageId: string, question: string, sectionIndex: number | null) => {
+    const message = chatHistories[LESSON_CHAT_KEY]?.find(candidate => candidate.id === messageId);
+    if (!message) return;
+    const { pair, sources } = pairFromChatAnswer(message, question, initialSources);
+    const sections = addPairToLesson(teachingSteps, pair, sectionIndex);
+    handleLessonEdit(sections);
+    setInitialSources(sources);
+    setCurrentStepIndex(sectionIndex ?? sections.length - 1);
+  };
+
   const handlePdfSubmission = useCallback(() => {
     if (!lastLearningContext) {
       setError("Cannot re-submit, original context was lost.");
@@ -245,7 +786,95 @@ const App: React.FC = () => {
     setCurrentPastedText('');
   };
 
-  const clearError = () => setError('');
+  const handleOpenLesson = useCallback(async (id: string) => {
+    if (lessonMeta?.id === id) return;
+    flushPendingSave();
+    try {
+      const lesson = await getLesson(id);
+      if (!lesson) {
+        setError("That lesson could not be found. It may have been deleted.");
+        refreshLessons();
+        return;
+      }
+      leaveLesson();
+      setError('');
+      setRequestedPdfs([]);
+      setLastLearningContext(null);
+      skipNextAutoSaveRef.current = true;
+      setTeachingSteps(lesson.teachingSteps);
+      setInitialSources(lesson.initialSources);
+      setChatHistories(lesson.chatHistories);
+      setQuizzes(lesson.quizzes ?? {});
+      setRevisions(lesson.revisions ?? {});
+      setIsEditing(false);
+      setIsAddingSources(false);
+      setPendingUpdate(null);
+      setCurrentStepIndex(Math.min(lesson.currentStepIndex, Math.max(lesson.teachingSteps.length - 1, 0)));
+      setSelectedModel(lesson.model);
+      setSelectedProvider(lesson.inputContext.provider ?? DEFAULT_PROVIDER_ID);
+      setLessonMeta({
+        id: lesson.id,
+        title: lesson.title,
+        createdAt: lesson.createdAt,
+        model: lesson.model,
+        inputContext: lesson.inputContext,
+      });
+    } catch (err) {
+      console.error(err);
+      setError("Failed to open the saved lesson.");
+    }
+  }, [lessonMeta, refreshLessons, flushPendingSave]);
+
+  const handleRenameLesson = useCallback(async (id: string, title: string) => {
+    try {
+      await renameLesson(id, title);
+      setLessonMeta(prev => (prev && prev.id === id ? { ...prev, title } : prev));
+      refreshLessons();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to rename the lesson.");
+    }
+  }, [refreshLessons]);
+
+  const handleDuplicateLesson = useCallback(async (id: string) => {
+    try {
+      await duplicateLesson(id);
+      refreshLessons();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to duplicate the lesson.");
+    }
+  }, [refreshLessons]);
+
+  const handleDeleteLesson = useCallback(async (id: string) => {
+    // A pending save of the deleted lesson would bring it back.
+    if (lessonMeta?.id === id) discardPendingSave();
+    try {
+      await deleteLesson(id);
+      if (lessonMeta?.id === id) {
+        leaveLesson();
+        setLessonMeta(null);
+        setTeachingSteps([]);
+        setInitialSources([]);
+        setChatHistories({});
+        setQuizzes({});
+        setRevisions({});
+        setIsEditing(false);
+        setIsAddingSources(false);
+        setPendingUpdate(null);
+        setCurrentStepIndex(0);
+      }
+      refreshLessons();
+    } catch (err) {
+      console.error(err);
+      setError("Failed to delete the lesson.");
+    }
+  }, [lessonMeta, refreshLessons]);
+
+  const clearError = () => {
+    setError('');
+    setErrorKind(undefined);
+    setRetryableContext(null);
+    setRejectedResponse(null);
+  };
   
   const hasSupplementalContent = Object.keys(supplementalContent).length > 0 || supplementalBulkPdfs.length > 0;
 
@@ -253,10 +882,50 @@ const App: React.FC = () => {
     <div className="min-h-screen bg-slate-900 text-slate-100 p-4 md:p-8 flex flex-col gap-8 max-w-7xl mx-auto">
       <UrlInputSection 
         onStartLearning={handleStartLearning} 
+        onCancel={handleCancelGeneration}
         isLoading={isLoadingContent} 
       />
 
-      {error && <ErrorMessage message={error} onClear={clearError}/>}
+      <LessonLibrary
+        lessons={savedLessons}
+        activeLessonId={lessonMeta?.id ?? null}
+        onOpenLesson={handleOpenLesson}
+        onRenameLesson={handleRenameLesson}
+        onDuplicateLesson={handleDuplicateLesson}
+        onDeleteLesson={handleDeleteLesson}
+        disabled={isLoadingContent}
+      />
+
+      <FlashcardReview lessons={savedLessons} />
+
+      <QuestionBankRunner onLessonsSaved={refreshLessons} />
+
+      {error && (
+        <ErrorMessage
+          message={error}
+          kind={errorKind}
+          onClear={clearError}
+          onRetry={retryableContext && !isLoadingContent ? () => handleStartLearning(retryableContext) : undefined}
+        />
+      )}
+
+      {rejectedResponse && (
+        <details className="p-4 bg-slate-800 rounded-xl ring-1 ring-red-700/50 text-sm">
+          <summary className="cursor-pointer text-slate-300 font-medium">Inspect the AI's raw response</summary>
+          {rejectedResponse.issues.length > 0 && (
+            <ul className="mt-3 list-disc list-inside text-red-300 space-y-1">
+              {rejectedResponse.issues.map((issue, index) => <li key={index}>{issue}</li>)}
+            </ul>
+          )}
+          <pre className="mt-3 p-3 max-h-80 overflow-auto bg-slate-900 rounded-md text-xs text-slate-400 whitespace-pre-wrap break-all">{rejectedResponse.raw || '(empty response)'}</pre>
+          <button
+            onClick={() => navigator.clipboard?.writeText(rejectedResponse.raw)}
+            className="mt-2 px-3 py-1.5 text-xs font-medium rounded-md text-slate-200 bg-slate-600 hover:bg-slate-500 transition-colors"
+          >
+            Copy raw response
+          </button>
+        </details>
+      )}
       
       {requestedPdfs.length > 0 && !isLoadingContent && (
         <div className="p-6 bg-slate-800 rounded-xl shadow-2xl space-y-4 ring-1 ring-amber-500/50">
@@ -334,9 +1003,49 @@ const App: React.FC = () => {
         </div>
       )}
 
-      {isLoadingContent && <LoadingSpinner message="Analyzing content and generating teaching material..." />}
+      {isLoadingContent && teachingSteps.length === 0 && <LoadingSpinner message="Analyzing content and generating teaching material..." />}
 
-      {teachingSteps.length > 0 && !isLoadingContent && (
+      {isStreamingContent && (
+        <div className="flex items-center justify-between gap-4 p-4 bg-slate-800 rounded-xl ring-1 ring-sky-700/50" aria-live="polite">
+          <span className="text-sm text-slate-300">
+            {teachingSteps.length === 0
+              ? 'Waiting for the first section...'
+              : `Writing section ${teachingSteps.length}... Sections already received can be read now.`}
+          </span>
+          <button
+            onClick={handleCancelGeneration}
+            className="flex-shrink-0 px-4 py-2 text-sm font-medium rounded-md text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-slate-800 focus:ring-red-500 transition-colors"
+          >
+            Stop and keep received sections
+          </button>
+        </div>
+      )}
+
+      {isAddingSources && lessonMeta && !pendingUpdate && (
+        <AddSourcesPanel
+            onSubmit={handleAddSources}
+            onClose={() => setIsAddingSources(false)}
+            onCancel={() => integrationAbortRef.current?.abort()}
+            isLoading={isIntegrating}
+            capabilities={getModelProvider(selectedProvider).capabilities}
+        />
+      )}
+      {pendingUpdate && (
+        <LessonUpdateReview
+            changes={pendingUpdate.changes}
+            addedSourceCount={pendingUpdate.sources.length - initialSources.length}
+            onAccept={handleApplyUpdate}
+            onDiscard={() => setPendingUpdate(null)}
+        />
+      )}
+      {isEditing && lessonMeta && teachingSteps.length > 0 && !isLoadingContent && (
+        <LessonEditor
+            sections={teachingSteps}
+            onChange={handleLessonEdit}
+            onClose={() => setIsEditing(false)}
+        />
+      )}
+      {!isEditing && teachingSteps.length > 0 && (!isLoadingContent || isStreamingContent) && (
         <TeachingSection
             teachingSteps={teachingSteps}
             currentStepIndex={currentStepIndex}
@@ -344,14 +1053,37 @@ const App: React.FC = () => {
             onPreviousStep={handlePreviousStep}
             chatHistories={chatHistories}
             onSendMessage={handleSendFollowUpMessage}
+            onCancelMessage={handleCancelChat}
+            quizzes={quizzes}
+            quizLoadingSection={quizLoadingSection}
+            onGenerateQuiz={handleGenerateQuiz}
+            onAnswerQuiz={handleAnswerQuiz}
+            onRetakeQuiz={handleRetakeQuiz}
             isChatLoading={isChatLoading}
             activeChatKey={activeChatKey}
             initialSources={initialSources}
+            lessonTitle={lessonMeta?.title}
+            isGenerating={isStreamingContent}
+            canSearchWeb={getModelProvider(selectedProvider).capabilities.webSearch}
+            canSearchDocuments={!!retrievalIndex && retrievalIndex.passages.length > 0}
+            canAttachImages={getModelProvider(selectedProvider).capabilities.imageInput}
+            pdfFiles={(lessonMeta?.inputContext ?? lastLearningContext)?.pdfFiles}
+            pdfDocuments={(lessonMeta?.inputContext ?? lastLearningContext)?.pdfDocuments}
+            examQuestion={(lessonMeta?.inputContext ?? lastLearningContext)?.examQuestion}
+            revisions={revisions}
+            revisingTarget={revisingTarget}
+            onRevise={lessonMeta && !isAddingSources ? handleReviseLesson : undefined}
+            onRevertRevision={handleRevertRevision}
+            onCancelRevision={handleCancelRevision}
+            onEdit={lessonMeta && !revisingTarget && !isChatLoading && !isAddingSources ? () => setIsEditing(true) : undefined}
+            onAddSources={lessonMeta && !revisingTarget && !isAddingSources ? () => setIsAddingSources(true) : undefined}
+            onSendLessonMessage={lessonMeta ? handleSendLessonMessage : undefined}
+            onAddChatAnswer={!revisingTarget && !isAddingSources ? handleAddChatAnswer : undefined}
         />
       )}
       {!isLoadingContent && teachingSteps.length === 0 && requestedPdfs.length === 0 && !error && (
          <div className="text-center py-10 text-slate-500">
-            <p>Enter a URL, upload a PDF, or perform a Google Search, then click "Start Learning" to begin.</p>
+            <p>Enter a URL, upload a PDF, paste text, or perform a Google Search, then click "Start Learning" to begin.</p>
          </div>
       )}
        <footer className="text-center text-xs text-slate-600 mt-auto py-4">
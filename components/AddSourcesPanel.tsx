@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { AddedSources, hasAddedSources } from '../services/sourceIntegration';
+import { ProviderCapabilities } from '../services/modelProvider';
+
+interface AddSourcesPanelProps {
+  onSubmit: (sources: Omit<AddedSources, 'pdfDocuments'>) => void;
+  onClose: () => void;
+  onCancel: () => void;
+  isLoading: boolean;
+  capabilities: ProviderCapabilities;
+}
+
+const inputClassName = 'w-full p-2 bg-slate-700 border border-slate-600 rounded-md text-sm focus:ring-2 focus:ring-sky-500 outline-none disabled:opacity-50';
+
+const AddSourcesPanel: React.FC<AddSourcesPanelProps> = ({ onSubmit, onClose, onCancel, isLoading, capabilities }) => {
+  const [urls, setUrls] = useState<string>('');
+  const [pdfFiles, setPdfFiles] = useState<File[]>([]);
+  const [pastedText, setPastedText] = useState<string>('');
+  const [searchQuery, setSearchQuery] = useState<string>('');
+
+  const sources = {
+    urls: urls.split('\n').map(url => url.trim()).filter(Boolean),
+    pdfFiles,
+    pastedTexts: pastedText.trim() ? [pastedText] : [],
+    searchQuery: searchQuery.trim(),
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (hasAddedSources(sources)) onSubmit(sources);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-slate-800 rounded-xl shadow-xl ring-1 ring-slate-700/50 p-6 space-y-4">
+      <div>
+        <h2 className="text-xl font-semibold text-sky-400">Add sources to this lesson</h2>
+        <p className="text-xs text-slate-400 mt-1">
+          The model works the new material into the existing sections, adds sections for new topics and flags anything that contradicts the lesson. You can review the changes before they are applied.
+        </p>
+      </div>
+      {capabilities.urlContext && (
+        <label className="block">
+          <span className="block text-sm text-slate-300 mb-1">URLs (one per line)</span>
+          <textarea value={urls} onChange={(e) => setUrls(e.target.value)} rows={2} disabled={isLoading} className={inputClassName} placeholder="https://..." />
+        </label>
+      )}
+      {capabilities.pdfInput && (
+        <label className="block">
+          <span className="block text-sm text-slate-300 mb-1">PDFs</span>
+          <input
+            type="file"
+            accept=".pdf"
+            multiple
+            disabled={isLoading}
+            onChange={(e) => setPdfFiles(Array.from(e.target.files ?? []))}
+            className="block w-full text-sm text-slate-400 file:mr-3 file:py-1.5 file:px-3 file:rounded-md file:border-0 file:bg-slate-600 file:text-slate-200 hover:file:bg-slate-500"
+          />
+        </label>
+      )}
+      <label className="block">
+        <span className="block text-sm text-slate-300 mb-1">Pasted text</span>
+        <textarea value={pastedText} onChange={(e) => setPastedText(e.target.value)} rows={4} disabled={isLoading} className={inputClassName} placeholder="Paste an article, report or guideline excerpt here..." />
+      </label>
+      {capabilities.webSearch && (
+        <label className="block">
+          <span className="block text-sm text-slate-300 mb-1">Google Search</span>
+          <input type="text" value={searchQuery} onChange={(e) => setSearchQuery(e.target.value)} disabled={isLoading} className={inputClassName} placeholder="e.g. 2024 update to the guideline" />
+        </label>
+      )}
+      <div className="flex flex-wrap gap-2">
+        {isLoading ? (
+          <>
+            <span className="inline-flex items-center gap-2 text-sm text-sky-300" aria-live="polite">
+              <svg className="animate-spin h-4 w-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+              </svg>
+              Updating the lesson...
+            </span>
+            <button type="button" onClick={onCancel} className="px-3 py-1.5 text-sm font-medium rounded-md text-slate-200 bg-slate-600 hover:bg-slate-500 transition-colors">
+              Cancel
+            </button>
+          </>
+        ) : (
+          <>
+            <button
+              type="submit"
+              disabled={!hasAddedSources(sources)}
+              className="px-4 py-2 text-sm font-medium rounded-md text-white bg-sky-600 hover:bg-sky-700 disabled:bg-slate-600 disabled:cursor-not-allowed transition-colors"
+            >
+              Add to lesson
+            </button>
+            <button type="button" onClick={onClose} className="px-4 py-2 text-sm font-medium rounded-md text-slate-200 bg-slate-600 hover:bg-slate-500 transition-colors">
+              Close
+            </button>
+          </>
+        )}
+      </div>
+    </form>
+  );
+};
+
+export default AddSourcesPanel;
@@ -1,18 +1,35 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { marked } from 'marked';
-import { ChatMessage } from '../types';
-import { SendIcon, LinkIcon, MicrophoneIcon } from './IconComponents';
+import { ChatMessage, ChatAnswerMode, GroundingSource, ImageAttachment } from '../types';
+import { SendIcon, LinkIcon, MicrophoneIcon, StopIcon } from './IconComponents';
 import LoadingSpinner from './LoadingSpinner';
+import ImageAttachmentPicker from './ImageAttachmentPicker';
+import { insertAtOffsets, findUngroundedSentences, isDocumentSource, pageOfSource } from '../services/citations';
+import { isNarrationSupported, narrate, answerSentences, getNarrationSettings } from '../services/narration';
+import { escapeHtml } from '../services/html';
 
 const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
 const isSpeechRecognitionSupported = !!SpeechRecognition;
 
 interface ChatSectionProps {
   chatHistory: ChatMessage[];
-  onSendMessage: (message: string, useGoogleSearch: boolean) => void;
+  onSendMessage: (message: string, answerMode: ChatAnswerMode, images: ImageAttachment[]) => void;
   isChatLoading: boolean;
+  onCancel?: () => void;
+  canSearchWeb?: boolean;
+  // True when the lesson has uploaded documents with text to retrieve passages from.
+  canSearchDocuments?: boolean;
+  canAttachImages?: boolean;
+  // Opens an uploaded document cited by an answer, e.g. at the cited PDF page.
+  onOpenSource?: (source: GroundingSource) => void;
+  title?: string;
+  placeholder?: string;
+  // Extra controls shown under each finished answer.
+  renderAnswerActions?: (message: ChatMessage) => React.ReactNode;
 }
 
+// Answers from the user's documents, and messages saved before citations came from grounding
+// supports, have model-typed [n] markers. Document markers open the document instead of a URL.
 const formatCitations = (text: string, sources: ChatMessage['sources']): string => {
     if (!sources || sources.length === 0) {
         return text;
@@ -22,18 +39,80 @@ const formatCitations = (text: string, sources: ChatMessage['sources']): string
         const number = parseInt(numberStr, 10);
         if (number > 0 && number <= sources.length) {
             const source = sources[number - 1];
-            return `<sup class="font-medium text-sky-400"><a href="${source.uri}" target="_blank" rel="noopener noreferrer" title="${source.title || source.uri}" class="no-underline hover:underline">[${number}]</a></sup>`;
+            if (isDocumentSource(source)) {
+                if (pageOfSource(source) === undefined) {
+                    return `<sup class="font-medium text-sky-400" title="${escapeHtml(source.title)}">[${number}]</sup>`;
+                }
+                return `<sup class="font-medium text-sky-400"><button type="button" data-source-index="${number - 1}" title="${escapeHtml(source.title)}" class="hover:underline">[${number}]</button></sup>`;
+            }
+            return `<sup class="font-medium text-sky-400"><a href="${escapeHtml(source.uri)}" target="_blank" rel="noopener noreferrer" title="${escapeHtml(source.title || source.uri)}" class="no-underline hover:underline">[${number}]</a></sup>`;
         }
         return match; // Return original match if source not found
     });
 };
 
-const ChatSection: React.FC<ChatSectionProps> = ({ chatHistory, onSendMessage, isChatLoading }) => {
+const UNGROUNDED_BADGE = `<span class="ml-1 inline-block px-1 rounded bg-amber-900/60 text-amber-300 text-[10px] font-semibold align-middle cursor-help" title="No search result supports this sentence">unsourced</span>`;
+
+// A superscript per supporting source, with a hover card quoting the supported span.
+const formatCitationMarker = (snippet: string, sourceIndices: number[], sources: NonNullable<ChatMessage['sources']>): string => {
+  const quote = escapeHtml(snippet.replace(/[*_`#]/g, '').replace(/\s+/g, ' ').trim());
+  return sourceIndices.map(index => {
+    const source = sources[index];
+    if (!source) return '';
+    return `<span class="relative group inline-block"><sup class="font-medium text-sky-400"><a href="${escapeHtml(source.uri)}" target="_blank" rel="noopener noreferrer" class="no-underline hover:underline">[${index + 1}]</a></sup>` +
+      `<span class="pointer-events-none absolute left-0 top-full z-20 mt-1 hidden w-64 rounded-md bg-slate-900 p-2 text-xs font-normal leading-snug text-slate-200 shadow-lg ring-1 ring-slate-600 group-hover:block">&ldquo;${quote}&rdquo;<span class="mt-1 block text-sky-400">${escapeHtml(source.title || source.uri)}</span></span></span>`;
+  }).join('');
+};
+
+const formatAnswer = (message: ChatMessage): string => {
+  const text = message.parts.map(p => p.text).join('') || '';
+  if (!message.citations) {
+    return formatCitations(text, message.sources);
+  }
+  const citations = message.citations;
+  return insertAtOffsets(text, [
+    ...citations.map(citation => ({
+      index: citation.endIndex,
+      text: formatCitationMarker(text.slice(citation.startIndex, citation.endIndex), citation.sourceIndices, message.sources ?? []),
+    })),
+    ...findUngroundedSentences(text, citations).map(sentence => ({ index: sentence.endIndex, text: UNGROUNDED_BADGE })),
+  ]);
+};
+
+const ANSWER_MODE_LABELS: Record<ChatAnswerMode, string> = {
+  lesson: 'Lesson',
+  documents: 'My documents',
+  web: 'Web',
+};
+
+const ChatSection: React.FC<ChatSectionProps> = ({ chatHistory, onSendMessage, isChatLoading, onCancel, canSearchWeb = true, canSearchDocuments = false, canAttachImages = false, onOpenSource, title = 'Ask a follow-up question', placeholder = 'Type your question...', renderAnswerActions }) => {
   const [inputMessage, setInputMessage] = useState<string>('');
-  const [useGoogleSearch, setUseGoogleSearch] = useState<boolean>(false);
+  const [pendingImages, setPendingImages] = useState<ImageAttachment[]>([]);
+  const [answerMode, setAnswerMode] = useState<ChatAnswerMode>('lesson');
+  const availableModes = (['lesson', 'documents', 'web'] as const).filter(mode =>
+    mode === 'lesson' || (mode === 'documents' ? canSearchDocuments : canSearchWeb));
+  const activeMode = availableModes.includes(answerMode) ? answerMode : 'lesson';
   const [isListening, setIsListening] = useState<boolean>(false);
   const recognitionRef = useRef<any | null>(null);
   const chatContainerRef = useRef<HTMLDivElement>(null);
+  const [readingId, setReadingId] = useState<string | null>(null);
+  const stopReadingRef = useRef<(() => void) | null>(null);
+
+  useEffect(() => () => stopReadingRef.current?.(), []);
+
+  const handleToggleReading = (message: ChatMessage) => {
+    stopReadingRef.current?.();
+    stopReadingRef.current = null;
+    if (readingId === message.id) {
+      setReadingId(null);
+      return;
+    }
+    stopReadingRef.current = narrate(answerSentences(message.parts.map(p => p.text).join('')), 0, getNarrationSettings(), () => {}, () => {
+      stopReadingRef.current = null;
+      setReadingId(null);
+    });
+    setReadingId(message.id);
+  };
 
   useEffect(() => {
     if (chatContainerRef.current) {
@@ -79,16 +158,17 @@ const ChatSection: React.FC<ChatSectionProps> = ({ chatHistory, onSendMessage, i
   const handleSendMessage = (e: React.FormEvent) => {
     e.preventDefault();
     if (inputMessage.trim() && !isChatLoading) {
-      onSendMessage(inputMessage.trim(), useGoogleSearch);
+      onSendMessage(inputMessage.trim(), activeMode, canAttachImages ? pendingImages : []);
       setInputMessage('');
+      setPendingImages([]);
     }
   };
 
   return (
     <div className="p-4 bg-slate-800/50 rounded-xl shadow-inner mt-4 border border-slate-700/50">
-      <h3 className="text-base font-semibold text-sky-400 mb-2">Ask a follow-up question</h3>
+      <h3 className="text-base font-semibold text-sky-400 mb-2">{title}</h3>
       <div ref={chatContainerRef} className="max-h-64 space-y-3 overflow-y-auto pr-2 mb-3 scrollbar-thin scrollbar-thumb-slate-700 scrollbar-track-slate-800">
-        {chatHistory.map((msg) => (
+        {chatHistory.map((msg, index) => (
           <div key={msg.id} className={`flex flex-col ${msg.role === 'user' ? 'items-end' : 'items-start'}`}>
             <div
               className={`max-w-[90%] p-2.5 rounded-lg shadow ${
@@ -98,11 +178,30 @@ const ChatSection: React.FC<ChatSectionProps> = ({ chatHistory, onSendMessage, i
               }`}
             >
               {msg.role === 'user' ? (
-                <p className="text-sm whitespace-pre-wrap">{msg.parts.map(p => p.text).join('')}</p>
+                <>
+                  <p className="text-sm whitespace-pre-wrap">{msg.parts.map(p => p.text).join('')}</p>
+                  {msg.parts.some(p => p.inlineData) && (
+                    <div className="mt-2 flex flex-wrap gap-1">
+                      {msg.parts.filter(p => p.inlineData?.data).map((p, index) => (
+                        <img
+                          key={index}
+                          src={`data:${p.inlineData!.mimeType};base64,${p.inlineData!.data}`}
+                          alt={`Attached image ${index + 1}`}
+                          className="w-16 h-16 object-contain bg-black rounded"
+                        />
+                      ))}
+                    </div>
+                  )}
+                </>
               ) : (
                 <div
                   className="prose prose-sm prose-invert max-w-none prose-p:my-2 prose-headings:my-2"
-                  dangerouslySetInnerHTML={{ __html: marked.parse(formatCitations(msg.parts.map(p => p.text).join('') || '', msg.sources), { breaks: true, gfm: true }) }}
+                  onClick={(e) => {
+                    const marker = (e.target as HTMLElement).closest<HTMLElement>('[data-source-index]');
+                    const source = marker && msg.sources?.[Number(marker.dataset.sourceIndex)];
+                    if (source) onOpenSource?.(source);
+                  }}
+                  dangerouslySetInnerHTML={{ __html: marked.parse(formatAnswer(msg), { breaks: true, gfm: true }) }}
                 />
               )}
             </div>
@@ -113,10 +212,18 @@ const ChatSection: React.FC<ChatSectionProps> = ({ chatHistory, onSendMessage, i
                       {msg.sources.map((source, index) => (
                           <li key={index} className="flex items-start text-xs">
                               <span className="text-sky-400 font-semibold w-6 flex-shrink-0">[{index + 1}]</span>
-                              <a href={source.uri} target="_blank" rel="noopener noreferrer" className="text-sky-400 hover:underline break-all flex items-start">
-                                  <LinkIcon className="w-3.5 h-3.5 mr-1.5 mt-0.5 flex-shrink-0" />
-                                  <span>{source.title || source.uri}</span>
-                              </a>
+                              {!isDocumentSource(source) ? (
+                                <a href={source.uri} target="_blank" rel="noopener noreferrer" className="text-sky-400 hover:underline break-all flex items-start">
+                                    <LinkIcon className="w-3.5 h-3.5 mr-1.5 mt-0.5 flex-shrink-0" />
+                                    <span>{source.title || source.uri}</span>
+                                </a>
+                              ) : pageOfSource(source) !== undefined ? (
+                                <button type="button" onClick={() => onOpenSource?.(source)} className="text-left text-sky-400 hover:underline break-all">
+                                  {source.title}
+                                </button>
+                              ) : (
+                                <span className="text-slate-300 break-all">{source.title}</span>
+                              )}
                           </li>
                       ))}
                   </ul>
@@ -137,9 +244,32 @@ const ChatSection: React.FC<ChatSectionProps> = ({ chatHistory, onSendMessage, i
                       </ul>
                   </div>
                 )}
+            {msg.role === 'model' && msg.contextSummary && (
+              <details className="mt-1 max-w-[90%] text-xs text-slate-500">
+                <summary className="cursor-pointer hover:text-slate-300">
+                  Context: {msg.contextSummary.isEstimate ? '~' : ''}{msg.contextSummary.usedTokens.toLocaleString()} of {msg.contextSummary.budgetTokens.toLocaleString()} tokens
+                </summary>
+                <ul className="mt-1 space-y-0.5 pl-2">
+                  {msg.contextSummary.items.map((item, index) => (
+                    <li key={index} className={item.included ? 'text-slate-400' : 'text-slate-500 line-through'}>
+                      {item.label} ({item.tokens.toLocaleString()} tokens{item.included ? '' : ', did not fit'})
+                    </li>
+                  ))}
+                  {msg.contextSummary.omittedExcerpts > 0 && (
+                    <li>{msg.contextSummary.omittedExcerpts} more relevant passage{msg.contextSummary.omittedExcerpts === 1 ? '' : 's'} did not fit the budget.</li>
+                  )}
+                </ul>
+              </details>
+            )}
+            {msg.role === 'model' && isNarrationSupported && !(isChatLoading && index === chatHistory.length - 1) && (
+              <button type="button" onClick={() => handleToggleReading(msg)} className="mt-1 text-xs text-slate-400 hover:text-sky-300 hover:underline">
+                {readingId === msg.id ? 'Stop reading' : 'Read aloud'}
+              </button>
+            )}
+            {msg.role === 'model' && renderAnswerActions && !(isChatLoading && index === chatHistory.length - 1) && renderAnswerActions(msg)}
           </div>
         ))}
-        {isChatLoading && (
+        {isChatLoading && chatHistory[chatHistory.length - 1]?.role !== 'model' && (
           <div className="flex justify-start">
               <div className="max-w-[90%] p-3 rounded-lg shadow bg-slate-700 text-slate-200">
                 <LoadingSpinner message="Thinking..." />
@@ -153,7 +283,7 @@ const ChatSection: React.FC<ChatSectionProps> = ({ chatHistory, onSendMessage, i
             type="text"
             value={inputMessage}
             onChange={(e) => setInputMessage(e.target.value)}
-            placeholder={isListening ? "Listening..." : "Type your question..."}
+            placeholder={isListening ? "Listening..." : placeholder}
             disabled={isChatLoading}
             className="flex-grow p-2.5 bg-slate-700 border border-slate-600 rounded-md focus:ring-2 focus:ring-sky-500 focus:border-sky-500 outline-none transition-colors disabled:bg-slate-600 text-sm"
           />
@@ -169,32 +299,49 @@ const ChatSection: React.FC<ChatSectionProps> = ({ chatHistory, onSendMessage, i
                 <MicrophoneIcon className="w-5 h-5" />
               </button>
           )}
-          <button
-            type="submit"
-            disabled={isChatLoading || !inputMessage.trim()}
-            className="p-2.5 bg-sky-600 text-white rounded-md hover:bg-sky-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-slate-800 focus:ring-sky-500 disabled:bg-slate-500 disabled:cursor-not-allowed transition-colors"
-            aria-label="Send message"
-          >
-            <SendIcon className="w-5 h-5" />
-          </button>
+          {isChatLoading && onCancel ? (
+            <button
+              type="button"
+              onClick={onCancel}
+              className="p-2.5 bg-red-600 text-white rounded-md hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-slate-800 focus:ring-red-500 transition-colors"
+              aria-label="Stop the answer"
+            >
+              <StopIcon className="w-5 h-5" />
+            </button>
+          ) : (
+            <button
+              type="submit"
+              disabled={isChatLoading || !inputMessage.trim()}
+              className="p-2.5 bg-sky-600 text-white rounded-md hover:bg-sky-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-slate-800 focus:ring-sky-500 disabled:bg-slate-500 disabled:cursor-not-allowed transition-colors"
+              aria-label="Send message"
+            >
+              <SendIcon className="w-5 h-5" />
+            </button>
+          )}
         </div>
+        {canAttachImages && (
+          <ImageAttachmentPicker attachments={pendingImages} onChange={setPendingImages} disabled={isChatLoading} compact />
+        )}
+        {availableModes.length > 1 && (
         <div className="flex items-center justify-end">
-            <label htmlFor="google-search-toggle" className="flex items-center cursor-pointer">
-                <span className="mr-2 text-xs text-slate-400">Search web for answer</span>
-                <div className="relative">
-                    <input 
-                        type="checkbox" 
-                        id="google-search-toggle" 
-                        className="sr-only" 
-                        checked={useGoogleSearch}
-                        onChange={() => setUseGoogleSearch(!useGoogleSearch)}
+            <span className="mr-2 text-xs text-slate-400">Answer from</span>
+            <div className="inline-flex rounded-md bg-slate-700 p-0.5" role="radiogroup" aria-label="Answer from">
+                {availableModes.map(mode => (
+                    <button
+                        key={mode}
+                        type="button"
+                        role="radio"
+                        aria-checked={activeMode === mode}
+                        onClick={() => setAnswerMode(mode)}
                         disabled={isChatLoading}
-                    />
-                    <div className={`block w-10 h-6 rounded-full transition-colors ${useGoogleSearch ? 'bg-sky-500' : 'bg-slate-600'}`}></div>
-                    <div className={`dot absolute left-1 top-1 bg-white w-4 h-4 rounded-full transition-transform ${useGoogleSearch ? 'translate-x-4' : ''}`}></div>
-                </div>
-            </label>
+                        className={`px-2.5 py-1 text-xs rounded transition-colors disabled:cursor-not-allowed ${activeMode === mode ? 'bg-sky-500 text-white' : 'text-slate-300 hover:text-white'}`}
+                    >
+                        {ANSWER_MODE_LABELS[mode]}
+                    </button>
+                ))}
+            </div>
         </div>
+        )}
       </form>
     </div>
   );
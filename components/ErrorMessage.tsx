@@ -1,18 +1,59 @@
 
 import React from 'react';
+import { RequestErrorKind } from '../services/modelProvider';
 
 interface ErrorMessageProps {
   message: string;
+  kind?: RequestErrorKind;
   onClear?: () => void;
+  onRetry?: () => void;
 }
 
-const ErrorMessage: React.FC<ErrorMessageProps> = ({ message, onClear }) => {
+const ERROR_GUIDANCE: Partial<Record<RequestErrorKind, { title: string; guidance: string }>> = {
+  quota: {
+    title: 'Rate limit reached',
+    guidance: 'The model is receiving too many requests or your quota is used up. Wait a minute and retry, switch to a Flash model, or check your usage limits in Google AI Studio.',
+  },
+  auth: {
+    title: 'API key rejected',
+    guidance: 'Check that the API key is correct, has not been revoked, and is allowed to use the selected model.',
+  },
+  network: {
+    title: 'Network problem',
+    guidance: 'Check your internet connection (or that your local model server is running) and try again.',
+  },
+  timeout: {
+    title: 'Request timed out',
+    guidance: 'The model took too long to answer. Try a faster model, fewer sources, or increase the timeout under "Request settings".',
+  },
+  safety: {
+    title: 'Blocked by safety filters',
+    guidance: 'Rephrase the request or use different source material. Retrying the same content will give the same result.',
+  },
+  server: {
+    title: 'Model service unavailable',
+    guidance: 'The model service is overloaded or failed temporarily. Retrying in a moment usually works.',
+  },
+};
+
+const ErrorMessage: React.FC<ErrorMessageProps> = ({ message, kind, onClear, onRetry }) => {
   if (!message) return null;
 
+  const details = kind ? ERROR_GUIDANCE[kind] : undefined;
+
   return (
-    <div className="bg-red-900 border border-red-700 text-red-100 px-4 py-3 rounded-md relative my-4" role="alert">
-      <strong className="font-bold">Error: </strong>
+    <div className="bg-red-900 border border-red-700 text-red-100 px-4 py-3 pr-14 rounded-md relative my-4" role="alert">
+      <strong className="font-bold">{details ? `${details.title}: ` : 'Error: '}</strong>
       <span className="block sm:inline">{message}</span>
+      {details && <p className="mt-1 text-sm text-red-200">{details.guidance}</p>}
+      {onRetry && (
+        <button
+          onClick={onRetry}
+          className="mt-2 px-3 py-1.5 text-xs font-medium rounded-md text-white bg-red-700 hover:bg-red-600 transition-colors"
+        >
+          Retry
+        </button>
+      )}
       {onClear && (
         <button
           onClick={onClear}
@@ -0,0 +1,226 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { marked } from 'marked';
+import { LessonSummary, Flashcard, FlashcardState, ReviewGrade, SavedLesson } from '../types';
+import { getAllLessons, listFlashcardStates, saveFlashcardState } from '../services/lessonStore';
+import { buildFlashcards, buildReviewQueue, scheduleReview, describeNextInterval, REVIEW_GRADES } from '../services/spacedRepetition';
+import { CardStackIcon } from './IconComponents';
+
+interface FlashcardReviewProps {
+  // The library listing; the deck is rebuilt whenever lessons are saved, renamed or deleted.
+  lessons: LessonSummary[];
+}
+
+const GRADE_STYLES: Record<ReviewGrade, { label: string; className: string }> = {
+  again: { label: 'Again', className: 'bg-red-700 hover:bg-red-600' },
+  hard: { label: 'Hard', className: 'bg-amber-700 hover:bg-amber-600' },
+  good: { label: 'Good', className: 'bg-green-700 hover:bg-green-600' },
+  easy: { label: 'Easy', className: 'bg-sky-700 hover:bg-sky-600' },
+};
+
+const ALL_LESSONS = 'all';
+
+const FlashcardReview: React.FC<FlashcardReviewProps> = ({ lessons }) => {
+  const [isExpanded, setIsExpanded] = useState<boolean>(false);
+  const [savedLessons, setSavedLessons] = useState<SavedLesson[]>([]);
+  const [states, setStates] = useState<FlashcardState[]>([]);
+  const [scope, setScope] = useState<string>(ALL_LESSONS);
+  // The running session: cards left to show, with forgotten cards re-queued at the end.
+  const [sessionQueue, setSessionQueue] = useState<Flashcard[] | null>(null);
+  const [isAnswerShown, setIsAnswerShown] = useState<boolean>(false);
+  const [sessionCounts, setSessionCounts] = useState<Record<ReviewGrade, number>>({ again: 0, hard: 0, good: 0, easy: 0 });
+  const [loadError, setLoadError] = useState<string>('');
+
+  const loadDeck = useCallback(async () => {
+    try {
+      const [allLessons, allStates] = await Promise.all([getAllLessons(), listFlashcardStates()]);
+      setSavedLessons(allLessons);
+      setStates(allStates);
+      setLoadError('');
+    } catch (err) {
+      console.error("Failed to load flashcards:", err);
+      setLoadError("Flashcards could not be loaded from browser storage.");
+    }
+  }, []);
+
+  useEffect(() => {
+    loadDeck();
+  }, [lessons, loadDeck]);
+
+  const queue = useMemo(() => {
+    const scopedLessons = scope === ALL_LESSONS ? savedLessons : savedLessons.filter(lesson => lesson.id === scope);
+    return buildReviewQueue(buildFlashcards(scopedLessons, states), states);
+  }, [savedLessons, states, scope]);
+
+  const startSession = () => {
+    setSessionQueue([...queue.due, ...queue.fresh]);
+    setSessionCounts({ again: 0, hard: 0, good: 0, easy: 0 });
+    setIsAnswerShown(false);
+  };
+
+  const currentCard = sessionQueue?.[0];
+
+  const handleGrade = useCallback(async (grade: ReviewGrade) => {
+    if (!currentCard) return;
+    const nextState = scheduleReview(currentCard.id, currentCard.lessonId, currentCard.state, grade);
+    setStates(prev => [...prev.filter(state => state.id !== nextState.id), nextState]);
+    setSessionCounts(prev => ({ ...prev, [grade]: prev[grade] + 1 }));
+    setSessionQueue(prev => {
+      if (!prev) return prev;
+      const remaining = prev.slice(1);
+      return grade === 'again' ? [...remaining, { ...currentCard, state: nextState }] : remaining;
+    });
+    setIsAnswerShown(false);
+    try {
+      await saveFlashcardState(nextState);
+    } catch (err) {
+      console.error("Failed to save flashcard review:", err);
+    }
+  }, [currentCard]);
+
+  // Space reveals the answer, 1-4 grade it.
+  useEffect(() => {
+    if (!currentCard || !isExpanded) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT') return;
+      if (!isAnswerShown && e.key === ' ') {
+        e.preventDefault();
+        setIsAnswerShown(true);
+      } else if (isAnswerShown && ['1', '2', '3', '4'].includes(e.key)) {
+        handleGrade(REVIEW_GRADES[parseInt(e.key, 10) - 1]);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [currentCard, isExpanded, isAnswerShown, handleGrade]);
+
+  const dueCount = queue.due.length + queue.fresh.length;
+  const reviewedCount = REVIEW_GRADES.reduce((sum, grade) => sum + sessionCounts[grade], 0);
+
+  return (
+    <div className="p-6 bg-slate-800 rounded-xl shadow-2xl ring-1 ring-slate-700/50">
+      <button
+        type="button"
+        onClick={() => setIsExpanded(prev => !prev)}
+        className="w-full flex items-center justify-between text-left focus:outline-none"
+        aria-expanded={isExpanded}
+      >
+        <span className="flex items-center text-xl font-semibold text-sky-400">
+          <CardStackIcon className="w-6 h-6 mr-3" />
+          Flashcard Review
+          <span className="ml-3 text-sm font-normal text-slate-400">({dueCount} due today)</span>
+        </span>
+        <span className="text-sm text-slate-400">{isExpanded ? 'Hide' : 'Show'}</span>
+      </button>
+
+      {isExpanded && (
+        <div className="mt-4 space-y-4">
+          {loadError && <p className="text-sm text-red-400">{loadError}</p>}
+
+          {!sessionQueue && (
+            <>
+              <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+                <select
+                  value={scope}
+                  onChange={(e) => setScope(e.target.value)}
+                  aria-label="Lessons to review"
+                  className="flex-grow p-2 bg-slate-700 border border-slate-600 rounded-md text-sm focus:ring-2 focus:ring-sky-500 outline-none"
+                >
+                  <option value={ALL_LESSONS}>All saved lessons</option>
+                  {savedLessons.map(lesson => (
+                    <option key={lesson.id} value={lesson.id}>{lesson.title}</option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={startSession}
+                  disabled={dueCount === 0}
+                  className="px-4 py-2 text-sm font-medium rounded-md text-white bg-sky-600 hover:bg-sky-700 disabled:bg-slate-600 disabled:cursor-not-allowed transition-colors"
+                >
+                  Start review
+                </button>
+              </div>
+              <p className="text-sm text-slate-400">
+                {queue.due.length} review{queue.due.length === 1 ? '' : 's'} due · {queue.fresh.length} new card{queue.fresh.length === 1 ? '' : 's'} today
+                {queue.totalNew > queue.fresh.length && ` (${queue.totalNew - queue.fresh.length} more new cards wait for later days)`}
+              </p>
+              {savedLessons.length === 0 && (
+                <p className="text-sm text-slate-500">Every question and answer in your saved lessons becomes a flashcard, scheduled so you review it just before you would forget it.</p>
+              )}
+            </>
+          )}
+
+          {sessionQueue && currentCard && (
+            <div className="space-y-4">
+              <div className="flex items-center justify-between text-xs text-slate-400">
+                <span className="truncate" title={`${currentCard.lessonTitle} — ${currentCard.sectionTitle}`}>
+                  {currentCard.lessonTitle} · {currentCard.sectionTitle}
+                </span>
+                <span className="flex-shrink-0 ml-4">{sessionQueue.length} left</span>
+              </div>
+              <div className="p-5 bg-slate-900/60 rounded-lg border border-slate-700">
+                <h3 className="text-xl font-semibold text-teal-400">{currentCard.question}</h3>
+                {isAnswerShown && (
+                  <div
+                    className="mt-4 pt-4 border-t border-slate-700 prose prose-invert max-w-none prose-p:text-slate-300"
+                    dangerouslySetInnerHTML={{ __html: marked.parse(currentCard.answer || '', { breaks: true, gfm: true }) as string }}
+                  />
+                )}
+              </div>
+              {isAnswerShown ? (
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                  {REVIEW_GRADES.map((grade, index) => (
+                    <button
+                      key={grade}
+                      type="button"
+                      onClick={() => handleGrade(grade)}
+                      className={`px-3 py-2 text-sm font-medium rounded-md text-white transition-colors ${GRADE_STYLES[grade].className}`}
+                      title={`Keyboard: ${index + 1}`}
+                    >
+                      {GRADE_STYLES[grade].label}
+                      <span className="block text-xs font-normal opacity-80">{describeNextInterval(currentCard, grade)}</span>
+                    </button>
+                  ))}
+                </div>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => setIsAnswerShown(true)}
+                  className="w-full px-4 py-2 text-sm font-medium rounded-md text-white bg-sky-600 hover:bg-sky-700 transition-colors"
+                  title="Keyboard: Space"
+                >
+                  Show answer
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => setSessionQueue(null)}
+                className="text-sm text-slate-400 hover:text-slate-200 transition-colors"
+              >
+                End session
+              </button>
+            </div>
+          )}
+
+          {sessionQueue && !currentCard && (
+            <div className="text-center space-y-3">
+              <p className="text-slate-200 font-medium">All done for today.</p>
+              <p className="text-sm text-slate-400">
+                {reviewedCount} answer{reviewedCount === 1 ? '' : 's'}: {REVIEW_GRADES.map(grade => `${sessionCounts[grade]} ${GRADE_STYLES[grade].label.toLowerCase()}`).join(', ')}
+              </p>
+              <button
+                type="button"
+                onClick={() => setSessionQueue(null)}
+                className="px-4 py-2 text-sm font-medium rounded-md text-slate-200 bg-slate-600 hover:bg-slate-500 transition-colors"
+              >
+                Back to deck
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FlashcardReview;
@@ -0,0 +1,151 @@
+import React, { useState, useRef } from 'react';
+import { ImageAttachment } from '../types';
+import { loadImageFile, dicomToAttachment, attachmentDataUrl, DicomImage, WindowSetting, CT_WINDOW_PRESETS, IMAGE_FILE_ACCEPT, MedicalImageError } from '../services/medicalImages';
+import { UploadIcon } from './IconComponents';
+
+interface ImageAttachmentPickerProps {
+  attachments: ImageAttachment[];
+  onChange: (attachments: ImageAttachment[]) => void;
+  disabled?: boolean;
+  // A one-line button and small thumbnails, for the chat input.
+  compact?: boolean;
+}
+
+const ImageAttachmentPicker: React.FC<ImageAttachmentPickerProps> = ({ attachments, onChange, disabled = false, compact = false }) => {
+  const [error, setError] = useState<string>('');
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  // Parsed DICOM pixel data by attachment id, so the window can be changed after upload.
+  const dicomImages = useRef(new Map<string, DicomImage>());
+  const inputId = useRef(`image-upload-${Math.random().toString(36).slice(2, 8)}`).current;
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = e.target.files ? Array.from(e.target.files as ArrayLike<File>) : [];
+    e.target.value = '';
+    if (files.length === 0) return;
+    setError('');
+    setIsLoading(true);
+    const added: ImageAttachment[] = [];
+    const problems: string[] = [];
+    for (const file of files) {
+      try {
+        const loaded = await loadImageFile(file);
+        if (loaded.dicom) {
+          dicomImages.current.set(loaded.attachment.id, loaded.dicom);
+          if (loaded.dicom.hasBurnedInAnnotation) {
+            problems.push(`${file.name} is marked as having text burned into the image, which may identify the patient. Check the preview before sending.`);
+          }
+        }
+        added.push(loaded.attachment);
+      } catch (err) {
+        console.error("Failed to load image:", err);
+        problems.push(err instanceof MedicalImageError ? err.message : `${file.name} could not be read.`);
+      }
+    }
+    setIsLoading(false);
+    setError(problems.join(' '));
+    if (added.length > 0) onChange([...attachments, ...added]);
+  };
+
+  const handleRemove = (id: string) => {
+    dicomImages.current.delete(id);
+    onChange(attachments.filter(attachment => attachment.id !== id));
+  };
+
+  const handleWindowChange = (id: string, windowSetting: WindowSetting) => {
+    const dicom = dicomImages.current.get(id);
+    if (!dicom || !(windowSetting.width > 0)) return;
+    onChange(attachments.map(attachment => (attachment.id === id ? dicomToAttachment(id, dicom, windowSetting) : attachment)));
+  };
+
+  return (
+    <div className={compact ? 'space-y-1' : 'space-y-2'}>
+      <label
+        htmlFor={inputId}
+        className={compact
+          ? `inline-flex items-center text-xs text-slate-400 ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer hover:text-sky-400'}`
+          : `flex items-center justify-center w-full p-3 bg-slate-700 border-2 border-dashed border-slate-600 rounded-md transition-colors ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer hover:bg-slate-600 hover:border-sky-500'}`}
+      >
+        <UploadIcon className={compact ? 'w-4 h-4 mr-1' : 'w-6 h-6 text-slate-400 mr-3'} />
+        <span className={compact ? '' : 'text-slate-300'}>
+          {isLoading ? 'Reading images...' : compact ? 'Attach image or DICOM' : 'Click to add PNG, JPEG or DICOM images'}
+        </span>
+      </label>
+      <input type="file" id={inputId} accept={IMAGE_FILE_ACCEPT} multiple onChange={handleFiles} disabled={disabled || isLoading} className="hidden" />
+      {error && <p className="text-xs text-amber-400">{error}</p>}
+      {attachments.length > 0 && (
+        <div className={compact ? 'flex flex-wrap gap-2' : 'space-y-2'}>
+          {attachments.map(attachment => {
+            const dicom = dicomImages.current.get(attachment.id);
+            return (
+              <div key={attachment.id} className={`flex items-start gap-2 bg-slate-700/50 rounded ${compact ? 'p-1' : 'p-2'}`}>
+                <img
+                  src={attachmentDataUrl(attachment)}
+                  alt={attachment.description || attachment.name}
+                  className={`${compact ? 'w-12 h-12' : 'w-20 h-20'} object-contain bg-black rounded flex-shrink-0`}
+                />
+                {!compact && (
+                  <div className="flex-grow min-w-0 text-xs text-slate-300 space-y-1">
+                    <p className="truncate" title={attachment.name}>{attachment.name}</p>
+                    {attachment.description && <p className="text-slate-400">{attachment.description}</p>}
+                    {dicom && !dicom.isColor && attachment.window && (
+                      <div className="flex flex-wrap items-center gap-2">
+                        <select
+                          value=""
+                          onChange={(e) => {
+                            const preset = CT_WINDOW_PRESETS.find(p => p.label === e.target.value);
+                            handleWindowChange(attachment.id, preset ? preset.window : dicom.defaultWindow);
+                          }}
+                          disabled={disabled}
+                          aria-label="Window preset"
+                          className="p-1 bg-slate-800 border border-slate-600 rounded"
+                        >
+                          <option value="" disabled>Window preset</option>
+                          <option value="default">From file</option>
+                          {CT_WINDOW_PRESETS.map(preset => (
+                            <option key={preset.label} value={preset.label}>{preset.label} ({preset.window.center}/{preset.window.width})</option>
+                          ))}
+                        </select>
+                        <label className="flex items-center gap-1">
+                          L
+                          <input
+                            type="number"
+                            value={Math.round(attachment.window.center)}
+                            onChange={(e) => handleWindowChange(attachment.id, { center: Number(e.target.value), width: attachment.window!.width })}
+                            disabled={disabled}
+                            className="w-20 p-1 bg-slate-800 border border-slate-600 rounded"
+                          />
+                        </label>
+                        <label className="flex items-center gap-1">
+                          W
+                          <input
+                            type="number"
+                            min={1}
+                            value={Math.round(attachment.window.width)}
+                            onChange={(e) => handleWindowChange(attachment.id, { center: attachment.window!.center, width: Number(e.target.value) })}
+                            disabled={disabled}
+                            className="w-20 p-1 bg-slate-800 border border-slate-600 rounded"
+                          />
+                        </label>
+                      </div>
+                    )}
+                  </div>
+                )}
+                <button
+                  type="button"
+                  onClick={() => handleRemove(attachment.id)}
+                  disabled={disabled}
+                  className="p-1 text-slate-400 hover:text-red-400 transition-colors flex-shrink-0"
+                  aria-label={`Remove ${attachment.name}`}
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" /></svg>
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImageAttachmentPicker;
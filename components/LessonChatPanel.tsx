@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { ChatMessage, ChatAnswerMode, GroundingSource, ImageAttachment } from '../types';
+import ChatSection from './ChatSection';
+import { questionForAnswer } from '../services/lessonChat';
+
+interface LessonChatPanelProps {
+  chatHistory: ChatMessage[];
+  onSendMessage: (message: string, answerMode: ChatAnswerMode, images: ImageAttachment[]) => void;
+  isChatLoading: boolean;
+  onCancel?: () => void;
+  canSearchWeb?: boolean;
+  canSearchDocuments?: boolean;
+  canAttachImages?: boolean;
+  onOpenSource?: (source: GroundingSource) => void;
+  sectionTitles: string[];
+  currentSectionIndex: number;
+  // Adds an answer to the lesson as a new question, to a new section when `sectionIndex` is
+  // null; omitted while the lesson cannot be changed.
+  onAddAnswer?: (messageId: string, question: string, sectionIndex: number | null) => void;
+}
+
+interface AnswerDraft {
+  messageId: string;
+  question: string;
+  // A section index, or 'new'.
+  target: string;
+}
+
+const inputClassName = 'w-full p-2 bg-slate-700 border border-slate-600 rounded-md text-sm focus:ring-2 focus:ring-sky-500 outline-none';
+
+const LessonChatPanel: React.FC<LessonChatPanelProps> = ({ chatHistory, sectionTitles, currentSectionIndex, onAddAnswer, ...chatProps }) => {
+  const [draft, setDraft] = useState<AnswerDraft | null>(null);
+  const [addedIds, setAddedIds] = useState<Set<string>>(new Set());
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft || !draft.question.trim() || !onAddAnswer) return;
+    onAddAnswer(draft.messageId, draft.question.trim(), draft.target === 'new' ? null : Number(draft.target));
+    setAddedIds(prev => new Set(prev).add(draft.messageId));
+    setDraft(null);
+  };
+
+  const renderAnswerActions = (message: ChatMessage) => {
+    // Error replies have no context summary and are not worth keeping.
+    if (!onAddAnswer || !message.contextSummary) return null;
+    if (addedIds.has(message.id)) {
+      return <p className="mt-1 text-xs text-green-400">Added to the lesson</p>;
+    }
+    if (draft?.messageId !== message.id) {
+      return (
+        <button
+          type="button"
+          onClick={() => setDraft({ messageId: message.id, question: questionForAnswer(chatHistory, message.id), target: String(currentSectionIndex) })}
+          className="mt-1 text-xs text-sky-400 hover:text-sky-300 hover:underline"
+        >
+          Add to lesson
+        </button>
+      );
+    }
+    return (
+      <form onSubmit={handleAdd} className="mt-2 max-w-[90%] w-full p-2 space-y-2 rounded-lg border border-slate-600/50 bg-slate-700/50">
+        <label className="block">
+          <span className="block text-xs text-slate-400 mb-1">Question</span>
+          <input type="text" value={draft.question} onChange={(e) => setDraft({ ...draft, question: e.target.value })} className={inputClassName} />
+        </label>
+        <label className="block">
+          <span className="block text-xs text-slate-400 mb-1">Add to</span>
+          <select value={draft.target} onChange={(e) => setDraft({ ...draft, target: e.target.value })} className={inputClassName}>
+            {sectionTitles.map((title, index) => (
+              <option key={index} value={index}>{index + 1}. {title}</option>
+            ))}
+            <option value="new">A new section</option>
+          </select>
+        </label>
+        <div className="flex gap-2">
+          <button type="submit" disabled={!draft.question.trim()} className="px-3 py-1.5 text-xs font-medium rounded-md text-white bg-sky-600 hover:bg-sky-700 disabled:bg-slate-600 disabled:cursor-not-allowed transition-colors">
+            Add question
+          </button>
+          <button type="button" onClick={() => setDraft(null)} className="px-3 py-1.5 text-xs font-medium rounded-md text-slate-200 bg-slate-600 hover:bg-slate-500 transition-colors">
+            Cancel
+          </button>
+        </div>
+      </form>
+    );
+  };
+
+  return (
+    <div className="mt-8 pt-6 border-t border-slate-700">
+      <p className="text-sm text-slate-400">
+        Ask about the lesson as a whole, e.g. to compare findings from different sections. Answers can be added to the lesson as new questions.
+      </p>
+      <ChatSection
+        {...chatProps}
+        chatHistory={chatHistory}
+        title="Lesson chat"
+        placeholder="e.g. Compare the MRI features in section 2 with the CT signs in section 5"
+        renderAnswerActions={renderAnswerActions}
+      />
+    </div>
+  );
+};
+
+export default LessonChatPanel;
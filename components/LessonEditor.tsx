@@ -0,0 +1,252 @@
+import React, { useState, useRef } from 'react';
+import { marked } from 'marked';
+import { TeachingSectionContent } from '../types';
+import {
+  sectionKey, pairKey, renameSection, updatePair, insertSection, deleteSection, insertPair, deletePair,
+  mergeSectionWithNext, splitSection, mergePairWithNext, splitPair, moveSection, movePair,
+  EditHistory, EMPTY_HISTORY, recordEdit, undoEdit, redoEdit, PairPosition,
+} from '../services/lessonEditor';
+
+interface LessonEditorProps {
+  sections: TeachingSectionContent[];
+  // Called with the whole lesson after every change, which is saved like any other.
+  onChange: (sections: TeachingSectionContent[]) => void;
+  onClose: () => void;
+}
+
+type DragItem = { kind: 'section'; sectionIndex: number } | { kind: 'pair'; position: PairPosition };
+
+const inputClassName = 'w-full p-2 bg-slate-700 border border-slate-600 rounded-md text-sm focus:ring-2 focus:ring-sky-500 outline-none';
+const toolClassName = 'px-2 py-1 text-xs rounded-md text-slate-300 bg-slate-700 hover:bg-slate-600 disabled:opacity-40 disabled:cursor-not-allowed transition-colors';
+
+const LessonEditor: React.FC<LessonEditorProps> = ({ sections, onChange, onClose }) => {
+  const [history, setHistory] = useState<EditHistory>(EMPTY_HISTORY);
+  const [expandedPairs, setExpandedPairs] = useState<Set<string>>(new Set());
+  const [dragItem, setDragItem] = useState<DragItem | null>(null);
+  // Consecutive keystrokes in one field are a single undo step.
+  const lastTextFieldRef = useRef<string | null>(null);
+  // Caret positions in the answer fields, by pair id, for "Split at cursor".
+  const caretsRef = useRef<Record<string, number>>({});
+
+  const applyEdit = (next: TeachingSectionContent[], textField?: string) => {
+    if (next === sections) return;
+    if (!textField || textField !== lastTextFieldRef.current) {
+      setHistory(prev => recordEdit(prev, sections));
+    }
+    lastTextFieldRef.current = textField ?? null;
+    onChange(next);
+  };
+
+  const handleUndo = () => {
+    const result = undoEdit(history, sections);
+    if (!result) return;
+    setHistory(result.history);
+    lastTextFieldRef.current = null;
+    onChange(result.sections);
+  };
+
+  const handleRedo = () => {
+    const result = redoEdit(history, sections);
+    if (!result) return;
+    setHistory(result.history);
+    lastTextFieldRef.current = null;
+    onChange(result.sections);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (!(e.ctrlKey || e.metaKey)) return;
+    const key = e.key.toLowerCase();
+    if (key === 'z' || key === 'y') {
+      e.preventDefault();
+      if (key === 'y' || e.shiftKey) handleRedo(); else handleUndo();
+    }
+  };
+
+  const togglePair = (id: string) => {
+    setExpandedPairs(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const handleDrop = (e: React.DragEvent, target: DragItem) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (!dragItem) return;
+    if (dragItem.kind === 'section') {
+      applyEdit(moveSection(sections, dragItem.sectionIndex, target.kind === 'section' ? target.sectionIndex : target.position.sectionIndex));
+    } else {
+      // Dropping a pair on a section header appends it to that section.
+      const to = target.kind === 'pair'
+        ? target.position
+        : { sectionIndex: target.sectionIndex, qaIndex: sections[target.sectionIndex].qa_pairs.length - (dragItem.position.sectionIndex === target.sectionIndex ? 1 : 0) };
+      applyEdit(movePair(sections, dragItem.position, to));
+    }
+    setDragItem(null);
+  };
+
+  const allowDrop = (e: React.DragEvent) => {
+    if (dragItem) e.preventDefault();
+  };
+
+  const renderPair = (sectionIndex: number, qaIndex: number) => {
+    const section = sections[sectionIndex];
+    const qa = section.qa_pairs[qaIndex];
+    const id = pairKey(qa, sectionIndex, qaIndex);
+    const isExpanded = expandedPairs.has(id);
+    const position = { sectionIndex, qaIndex };
+    const isLastPair = qaIndex === section.qa_pairs.length - 1;
+
+    return (
+      <li
+        key={id}
+        onDragOver={allowDrop}
+        onDrop={(e) => handleDrop(e, { kind: 'pair', position })}
+        className={`border border-slate-700 rounded-md bg-slate-900/40 ${dragItem?.kind === 'pair' ? 'border-dashed' : ''}`}
+      >
+        <div className="flex items-center gap-2 p-2">
+          <span
+            draggable
+            onDragStart={(e) => { e.stopPropagation(); e.dataTransfer.setData('text/plain', qa.question); setDragItem({ kind: 'pair', position }); }}
+            onDragEnd={() => setDragItem(null)}
+            className="cursor-grab select-none text-slate-500 px-1"
+            title="Drag to reorder or move to another section"
+            aria-hidden="true"
+          >
+            ⋮⋮
+          </span>
+          <button type="button" onClick={() => togglePair(id)} aria-expanded={isExpanded} className="flex-grow text-left text-sm text-teal-300 hover:text-teal-200 truncate">
+            {qa.question.trim() || <span className="italic text-slate-500">Untitled question</span>}
+          </button>
+          <button type="button" onClick={() => applyEdit(movePair(sections, position, { sectionIndex, qaIndex: qaIndex - 1 }))} disabled={qaIndex === 0} className={toolClassName} aria-label="Move question up">↑</button>
+          <button type="button" onClick={() => applyEdit(movePair(sections, position, { sectionIndex, qaIndex: qaIndex + 1 }))} disabled={isLastPair} className={toolClassName} aria-label="Move question down">↓</button>
+          <button type="button" onClick={() => applyEdit(deletePair(sections, sectionIndex, qaIndex))} disabled={section.qa_pairs.length <= 1} className={`${toolClassName} text-red-300`} title="Delete this question">
+            Delete
+          </button>
+        </div>
+        {isExpanded && (
+          <div className="p-3 pt-0 space-y-3">
+            <label className="block">
+              <span className="block text-xs text-slate-400 mb-1">Question</span>
+              <input
+                type="text"
+                value={qa.question}
+                onChange={(e) => applyEdit(updatePair(sections, sectionIndex, qaIndex, { question: e.target.value }), `${id}:question`)}
+                className={inputClassName}
+              />
+            </label>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <label className="block">
+                <span className="block text-xs text-slate-400 mb-1">Answer (Markdown)</span>
+                <textarea
+                  value={qa.answer}
+                  onChange={(e) => applyEdit(updatePair(sections, sectionIndex, qaIndex, { answer: e.target.value }), `${id}:answer`)}
+                  onSelect={(e) => { caretsRef.current[id] = e.currentTarget.selectionStart; }}
+                  rows={12}
+                  className={`${inputClassName} font-mono`}
+                />
+              </label>
+              <div>
+                <span className="block text-xs text-slate-400 mb-1">Preview</span>
+                <div
+                  className="prose prose-invert prose-sm max-w-none p-2 rounded-md border border-slate-700 bg-slate-800 overflow-y-auto max-h-72 prose-p:text-slate-300"
+                  dangerouslySetInnerHTML={{ __html: marked.parse(qa.answer || '', { breaks: true, gfm: true }) as string }}
+                />
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <button type="button" onClick={() => applyEdit(splitPair(sections, sectionIndex, qaIndex, caretsRef.current[id] ?? 0))} className={toolClassName} title="Move the rest of the answer after the cursor into a new question">
+                Split answer at cursor
+              </button>
+              <button type="button" onClick={() => applyEdit(mergePairWithNext(sections, sectionIndex, qaIndex))} disabled={isLastPair} className={toolClassName} title="Append the next question and its answer to this answer">
+                Merge with next question
+              </button>
+              <button type="button" onClick={() => applyEdit(splitSection(sections, sectionIndex, qaIndex))} disabled={qaIndex === 0} className={toolClassName} title="Start a new section from this question">
+                New section from here
+              </button>
+              <button type="button" onClick={() => applyEdit(insertPair(sections, sectionIndex, qaIndex + 1))} className={toolClassName}>
+                Add question below
+              </button>
+            </div>
+          </div>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div className="bg-slate-800 rounded-xl shadow-2xl ring-1 ring-slate-700/50 p-6 md:p-8" onKeyDown={handleKeyDown}>
+      <div className="flex flex-wrap justify-between items-center gap-3 mb-6 pb-4 border-b-2 border-sky-800/50">
+        <div>
+          <h2 className="text-2xl font-bold text-sky-400">Edit Lesson</h2>
+          <p className="text-xs text-slate-400 mt-1">Changes are saved as you type. Drag sections and questions to reorder them.</p>
+        </div>
+        <div className="flex gap-2">
+          <button type="button" onClick={handleUndo} disabled={history.past.length === 0} className={`${toolClassName} text-sm px-3 py-2`} title="Undo (Ctrl+Z)">
+            Undo
+          </button>
+          <button type="button" onClick={handleRedo} disabled={history.future.length === 0} className={`${toolClassName} text-sm px-3 py-2`} title="Redo (Ctrl+Shift+Z)">
+            Redo
+          </button>
+          <button type="button" onClick={onClose} className="px-4 py-2 text-sm font-medium rounded-md text-white bg-sky-600 hover:bg-sky-700 transition-colors">
+            Done
+          </button>
+        </div>
+      </div>
+
+      <ol className="space-y-6">
+        {sections.map((section, sectionIndex) => (
+          <li
+            key={sectionKey(section, sectionIndex)}
+            onDragOver={allowDrop}
+            onDrop={(e) => handleDrop(e, { kind: 'section', sectionIndex })}
+            className="p-4 rounded-lg border border-slate-700 bg-slate-800"
+          >
+            <div className="flex flex-wrap items-center gap-2 mb-3">
+              <span
+                draggable
+                onDragStart={(e) => { e.dataTransfer.setData('text/plain', section.section_title); setDragItem({ kind: 'section', sectionIndex }); }}
+                onDragEnd={() => setDragItem(null)}
+                className="cursor-grab select-none text-slate-500 px-1"
+                title="Drag to reorder sections"
+                aria-hidden="true"
+              >
+                ⋮⋮
+              </span>
+              <span className="text-sm text-slate-500">{sectionIndex + 1}.</span>
+              <input
+                type="text"
+                value={section.section_title}
+                onChange={(e) => applyEdit(renameSection(sections, sectionIndex, e.target.value), `${sectionKey(section, sectionIndex)}:title`)}
+                aria-label={`Section ${sectionIndex + 1} title`}
+                className={`${inputClassName} flex-grow w-auto font-semibold text-base`}
+              />
+              <button type="button" onClick={() => applyEdit(moveSection(sections, sectionIndex, sectionIndex - 1))} disabled={sectionIndex === 0} className={toolClassName} aria-label="Move section up">↑</button>
+              <button type="button" onClick={() => applyEdit(moveSection(sections, sectionIndex, sectionIndex + 1))} disabled={sectionIndex === sections.length - 1} className={toolClassName} aria-label="Move section down">↓</button>
+              <button type="button" onClick={() => applyEdit(mergeSectionWithNext(sections, sectionIndex))} disabled={sectionIndex === sections.length - 1} className={toolClassName} title="Move the next section's questions into this one">
+                Merge with next
+              </button>
+              <button type="button" onClick={() => applyEdit(deleteSection(sections, sectionIndex))} disabled={sections.length <= 1} className={`${toolClassName} text-red-300`}>
+                Delete section
+              </button>
+            </div>
+            <ul className="space-y-2">
+              {section.qa_pairs.map((_, qaIndex) => renderPair(sectionIndex, qaIndex))}
+            </ul>
+            <div className="flex flex-wrap gap-2 mt-3">
+              <button type="button" onClick={() => applyEdit(insertPair(sections, sectionIndex, section.qa_pairs.length))} className={toolClassName}>
+                + Question
+              </button>
+              <button type="button" onClick={() => applyEdit(insertSection(sections, sectionIndex + 1))} className={toolClassName}>
+                + Section below
+              </button>
+            </div>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default LessonEditor;
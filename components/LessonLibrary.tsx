@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { LessonSummary } from '../types';
+import { BookOpenIcon, PencilIcon, DuplicateIcon, TrashIcon } from './IconComponents';
+
+interface LessonLibraryProps {
+  lessons: LessonSummary[];
+  activeLessonId: string | null;
+  onOpenLesson: (id: string) => void;
+  onRenameLesson: (id: string, title: string) => void;
+  onDuplicateLesson: (id: string) => void;
+  onDeleteLesson: (id: string) => void;
+  disabled?: boolean;
+}
+
+const formatDate = (timestamp: number): string =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const LessonLibrary: React.FC<LessonLibraryProps> = ({
+  lessons,
+  activeLessonId,
+  onOpenLesson,
+  onRenameLesson,
+  onDuplicateLesson,
+  onDeleteLesson,
+  disabled = false,
+}) => {
+  const [isExpanded, setIsExpanded] = useState<boolean>(false);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState<string>('');
+
+  const startRename = (lesson: LessonSummary) => {
+    setRenamingId(lesson.id);
+    setRenameValue(lesson.title);
+  };
+
+  const submitRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (renamingId && renameValue.trim()) {
+      onRenameLesson(renamingId, renameValue.trim());
+    }
+    setRenamingId(null);
+    setRenameValue('');
+  };
+
+  const handleDelete = (lesson: LessonSummary) => {
+    if (window.confirm(`Delete "${lesson.title}"? This cannot be undone.`)) {
+      onDeleteLesson(lesson.id);
+    }
+  };
+
+  return (
+    <div className="p-6 bg-slate-800 rounded-xl shadow-2xl ring-1 ring-slate-700/50">
+      <button
+        type="button"
+        onClick={() => setIsExpanded(prev => !prev)}
+        className="w-full flex items-center justify-between text-left focus:outline-none"
+        aria-expanded={isExpanded}
+      >
+        <span className="flex items-center text-xl font-semibold text-sky-400">
+          <BookOpenIcon className="w-6 h-6 mr-3" />
+          Lesson Library
+          <span className="ml-3 text-sm font-normal text-slate-400">({lessons.length} saved)</span>
+        </span>
+        <span className="text-sm text-slate-400">{isExpanded ? 'Hide' : 'Show'}</span>
+      </button>
+
+      {isExpanded && (
+        <div className="mt-4">
+          {lessons.length === 0 ? (
+            <p className="text-sm text-slate-500">Generated lessons are saved here automatically so you can come back to them later.</p>
+          ) : (
+            <ul className="space-y-2 max-h-80 overflow-y-auto pr-2">
+              {lessons.map(lesson => (
+                <li
+                  key={lesson.id}
+                  className={`p-3 rounded-lg border flex items-center justify-between gap-4 ${
+                    lesson.id === activeLessonId ? 'bg-sky-900/30 border-sky-700' : 'bg-slate-700/50 border-slate-600/50'
+                  }`}
+                >
+                  {renamingId === lesson.id ? (
+                    <form onSubmit={submitRename} className="flex-grow flex gap-2">
+                      <input
+                        type="text"
+                        value={renameValue}
+                        onChange={(e) => setRenameValue(e.target.value)}
+                        autoFocus
+                        className="flex-grow p-2 bg-slate-900 border border-slate-600 rounded-md text-sm focus:ring-2 focus:ring-sky-500 outline-none"
+                      />
+                      <button type="submit" className="px-3 py-1.5 text-xs font-medium rounded-md text-white bg-sky-600 hover:bg-sky-700">Save</button>
+                      <button type="button" onClick={() => setRenamingId(null)} className="px-3 py-1.5 text-xs font-medium rounded-md text-slate-200 bg-slate-600 hover:bg-slate-500">Cancel</button>
+                    </form>
+                  ) : (
+                    <>
+                      <button
+                        type="button"
+                        onClick={() => onOpenLesson(lesson.id)}
+                        disabled={disabled}
+                        className="flex-grow min-w-0 text-left disabled:cursor-not-allowed"
+                      >
+                        <span className="block text-slate-200 font-medium truncate" title={lesson.title}>{lesson.title}</span>
+                        <span className="block text-xs text-slate-400">
+                          {lesson.sectionCount} sections · {lesson.model} · updated {formatDate(lesson.updatedAt)}
+                        </span>
+                      </button>
+                      <div className="flex items-center gap-1 flex-shrink-0">
+                        <button type="button" onClick={() => startRename(lesson)} className="p-2 text-slate-400 hover:text-sky-400 transition-colors" aria-label={`Rename ${lesson.title}`} title="Rename">
+                          <PencilIcon className="w-4 h-4" />
+                        </button>
+                        <button type="button" onClick={() => onDuplicateLesson(lesson.id)} className="p-2 text-slate-400 hover:text-sky-400 transition-colors" aria-label={`Duplicate ${lesson.title}`} title="Duplicate">
+                          <DuplicateIcon className="w-4 h-4" />
+                        </button>
+                        <button type="button" onClick={() => handleDelete(lesson)} disabled={disabled} className="p-2 text-slate-400 hover:text-red-400 transition-colors disabled:opacity-50" aria-label={`Delete ${lesson.title}`} title="Delete">
+                          <TrashIcon className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LessonLibrary;
@@ -0,0 +1,70 @@
+import React from 'react';
+import { SectionChange, PairChange, diffWords, describeChange, CONFLICT_MARKER } from '../services/sourceIntegration';
+
+interface LessonUpdateReviewProps {
+  changes: SectionChange[];
+  // How many sources the update adds to the lesson's source list.
+  addedSourceCount: number;
+  onAccept: () => void;
+  onDiscard: () => void;
+}
+
+const DIFF_STYLES = {
+  same: 'text-slate-300',
+  added: 'bg-green-900/60 text-green-200',
+  removed: 'bg-red-900/50 text-red-300 line-through',
+};
+
+const renderPairChange = (pair: PairChange) => (
+  <li key={pair.id} className="p-3 rounded-md border border-slate-700 bg-slate-900/40">
+    <div className="flex flex-wrap items-center gap-2 mb-2">
+      <span className={`text-xs font-semibold uppercase tracking-wide ${pair.before === undefined ? 'text-green-400' : 'text-sky-400'}`}>
+        {pair.before === undefined ? 'New question' : 'Updated answer'}
+      </span>
+      {pair.after.includes(CONFLICT_MARKER) && !pair.before?.includes(CONFLICT_MARKER) && (
+        <span className="text-xs font-semibold uppercase tracking-wide text-amber-400">Conflict flagged</span>
+      )}
+    </div>
+    <p className="text-sm font-semibold text-teal-300 mb-2">{pair.question}</p>
+    <p className="text-sm whitespace-pre-wrap break-words font-mono leading-relaxed">
+      {pair.before === undefined
+        ? <span className={DIFF_STYLES.added}>{pair.after}</span>
+        : diffWords(pair.before, pair.after).map((part, index) => (
+            <span key={index} className={DIFF_STYLES[part.change]}>{part.text}</span>
+          ))}
+    </p>
+  </li>
+);
+
+const LessonUpdateReview: React.FC<LessonUpdateReviewProps> = ({ changes, addedSourceCount, onAccept, onDiscard }) => (
+  <div className="bg-slate-800 rounded-xl shadow-xl ring-1 ring-slate-700/50 p-6 space-y-6">
+    <div className="flex flex-wrap justify-between items-start gap-3">
+      <div>
+        <h2 className="text-xl font-semibold text-sky-400">Review the update</h2>
+        <p className="text-xs text-slate-400 mt-1">
+          {changes.length} section{changes.length === 1 ? '' : 's'} changed{addedSourceCount > 0 ? `, ${addedSourceCount} source${addedSourceCount === 1 ? '' : 's'} added` : ''}. Follow-up chats stay with their questions.
+        </p>
+      </div>
+      <div className="flex gap-2">
+        <button type="button" onClick={onAccept} className="px-4 py-2 text-sm font-medium rounded-md text-white bg-sky-600 hover:bg-sky-700 transition-colors">
+          Apply changes
+        </button>
+        <button type="button" onClick={onDiscard} className="px-4 py-2 text-sm font-medium rounded-md text-slate-200 bg-slate-600 hover:bg-slate-500 transition-colors">
+          Discard
+        </button>
+      </div>
+    </div>
+    {changes.map(change => (
+      <section key={change.sectionId}>
+        <h3 className="text-lg font-semibold text-slate-200">
+          {change.title}
+          {change.isNew && <span className="ml-2 text-xs font-semibold uppercase tracking-wide text-green-400">New section</span>}
+        </h3>
+        <p className="text-xs text-slate-400 mb-2">{describeChange(change)}</p>
+        <ul className="space-y-2">{change.pairs.map(renderPairChange)}</ul>
+      </section>
+    ))}
+  </div>
+);
+
+export default LessonUpdateReview;
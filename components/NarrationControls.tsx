@@ -0,0 +1,158 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { TeachingSectionContent } from '../types';
+import {
+  NarrationItem, NarrationSettings, buildNarrationScript, nextQuestionIndex, narrate,
+  getNarrationSettings, saveNarrationSettings, formatPronunciations, parsePronunciations, DEFAULT_PRONUNCIATIONS,
+} from '../services/narration';
+
+interface NarrationControlsProps {
+  sections: TeachingSectionContent[];
+  // Reading starts at this section. If it changes to another section than the one being
+  // read, e.g. because the user moved on, reading stops.
+  startSectionIndex: number;
+  // Called with each item as it is read, and with null when reading stops.
+  onItemChange: (item: NarrationItem | null) => void;
+}
+
+const buttonClassName = 'px-3 py-1.5 text-sm font-medium rounded-md text-slate-200 bg-slate-700 hover:bg-slate-600 disabled:opacity-40 disabled:cursor-not-allowed transition-colors';
+const inputClassName = 'w-full p-2 bg-slate-700 border border-slate-600 rounded-md text-sm focus:ring-2 focus:ring-sky-500 outline-none';
+
+const NarrationControls: React.FC<NarrationControlsProps> = ({ sections, startSectionIndex, onItemChange }) => {
+  const [settings, setSettings] = useState<NarrationSettings>(getNarrationSettings);
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const [dictionaryText, setDictionaryText] = useState(() => formatPronunciations(settings.pronunciations));
+  const stopRef = useRef<(() => void) | null>(null);
+  const scriptRef = useRef<NarrationItem[]>([]);
+  const indexRef = useRef(0);
+  // Reading outlives the render that started it, so it reports through the latest callback.
+  const onItemChangeRef = useRef(onItemChange);
+  onItemChangeRef.current = onItemChange;
+
+  useEffect(() => {
+    const loadVoices = () => setVoices(window.speechSynthesis.getVoices());
+    loadVoices();
+    window.speechSynthesis.addEventListener('voiceschanged', loadVoices);
+    return () => {
+      window.speechSynthesis.removeEventListener('voiceschanged', loadVoices);
+      stopRef.current?.();
+    };
+  }, []);
+
+  const readFrom = (index: number, readSettings: NarrationSettings = settings) => {
+    stopRef.current?.();
+    const script = scriptRef.current;
+    stopRef.current = narrate(script.map(item => item.text), index, readSettings, (itemIndex) => {
+      indexRef.current = itemIndex;
+      onItemChangeRef.current(script[itemIndex]);
+    }, () => {
+      stopRef.current = null;
+      setIsPlaying(false);
+      setIsPaused(false);
+      onItemChangeRef.current(null);
+    });
+    setIsPlaying(true);
+    setIsPaused(false);
+  };
+
+  const handlePlay = () => {
+    scriptRef.current = buildNarrationScript(sections, startSectionIndex);
+    if (scriptRef.current.length > 0) readFrom(0);
+  };
+
+  const handleStop = () => {
+    stopRef.current?.();
+    stopRef.current = null;
+    setIsPlaying(false);
+    setIsPaused(false);
+    onItemChangeRef.current(null);
+  };
+
+  const handlePauseResume = () => {
+    if (isPaused) window.speechSynthesis.resume(); else window.speechSynthesis.pause();
+    setIsPaused(!isPaused);
+  };
+
+  const handleSkip = () => {
+    const next = nextQuestionIndex(scriptRef.current, indexRef.current);
+    if (next === -1) handleStop(); else readFrom(next);
+  };
+
+  useEffect(() => {
+    const item = scriptRef.current[indexRef.current];
+    if (stopRef.current && item && item.sectionIndex !== startSectionIndex) handleStop();
+  }, [startSectionIndex]);
+
+  // New settings apply from the current sentence on.
+  const updateSettings = (next: NarrationSettings) => {
+    setSettings(next);
+    saveNarrationSettings(next);
+    if (stopRef.current && !isPaused) readFrom(indexRef.current, next);
+  };
+
+  return (
+    <div className="p-3 rounded-lg border border-slate-700 bg-slate-900/40 space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-semibold text-slate-300 mr-1">Read aloud</span>
+        {isPlaying ? (
+          <>
+            <button type="button" onClick={handlePauseResume} className={buttonClassName}>{isPaused ? 'Resume' : 'Pause'}</button>
+            <button type="button" onClick={handleSkip} className={buttonClassName} title="Skip to the next question">Next question</button>
+            <button type="button" onClick={handleStop} className={buttonClassName}>Stop</button>
+          </>
+        ) : (
+          <button type="button" onClick={handlePlay} className={buttonClassName} title="Read this section and the ones after it aloud">Play</button>
+        )}
+        <label className="flex items-center gap-2 text-xs text-slate-400 ml-auto">
+          Speed {settings.rate.toFixed(1)}×
+          <input
+            type="range"
+            min={0.5}
+            max={2}
+            step={0.1}
+            value={settings.rate}
+            onChange={(e) => updateSettings({ ...settings, rate: Number(e.target.value) })}
+            className="w-28 accent-sky-500"
+          />
+        </label>
+      </div>
+      <details className="text-xs text-slate-400">
+        <summary className="cursor-pointer hover:text-slate-300">Voice and pronunciation</summary>
+        <div className="mt-2 grid grid-cols-1 md:grid-cols-2 gap-3">
+          <label className="block">
+            <span className="block mb-1">Voice</span>
+            <select value={settings.voiceURI} onChange={(e) => updateSettings({ ...settings, voiceURI: e.target.value })} className={inputClassName}>
+              <option value="">Browser default</option>
+              {voices.map(voice => (
+                <option key={voice.voiceURI} value={voice.voiceURI}>{voice.name} ({voice.lang})</option>
+              ))}
+            </select>
+          </label>
+          <label className="block">
+            <span className="block mb-1">Pronunciations (one "term = spoken form" per line, matched case-sensitively)</span>
+            <textarea
+              value={dictionaryText}
+              onChange={(e) => setDictionaryText(e.target.value)}
+              onBlur={() => updateSettings({ ...settings, pronunciations: parsePronunciations(dictionaryText) })}
+              rows={6}
+              className={`${inputClassName} font-mono`}
+            />
+            <button
+              type="button"
+              onClick={() => {
+                setDictionaryText(formatPronunciations(DEFAULT_PRONUNCIATIONS));
+                updateSettings({ ...settings, pronunciations: DEFAULT_PRONUNCIATIONS });
+              }}
+              className="mt-1 text-sky-400 hover:underline"
+            >
+              Restore the default list
+            </button>
+          </label>
+        </div>
+      </details>
+    </div>
+  );
+};
+
+export default NarrationControls;
@@ -0,0 +1,102 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { PdfDocumentText } from '../types';
+import { renderPdfPage } from '../services/pdfText';
+import { ArrowLeftIcon, ArrowRightIcon } from './IconComponents';
+
+interface PdfPageViewerProps {
+  title: string;
+  // The uploaded file, when it is still available; otherwise only the extracted text is shown.
+  file?: File;
+  document?: PdfDocumentText | null;
+  initialPage: number;
+  onClose: () => void;
+}
+
+const PAGE_WIDTH = 720;
+
+const PdfPageViewer: React.FC<PdfPageViewerProps> = ({ title, file, document, initialPage, onClose }) => {
+  const [pageNumber, setPageNumber] = useState<number>(initialPage);
+  const [renderFailed, setRenderFailed] = useState<boolean>(false);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const pageCount = document?.pageCount ?? 0;
+  const pageText = document?.pages.find(page => page.pageNumber === pageNumber)?.text;
+  const showCanvas = !!file && !renderFailed;
+
+  useEffect(() => {
+    if (!file || !canvasRef.current) return;
+    let isCurrent = true;
+    setRenderFailed(false);
+    const width = Math.min(PAGE_WIDTH, window.innerWidth - 64);
+    renderPdfPage(file, pageNumber, canvasRef.current, width).catch(error => {
+      console.error("Failed to render PDF page:", error);
+      if (isCurrent) setRenderFailed(true);
+    });
+    return () => { isCurrent = false; };
+  }, [file, pageNumber]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+      if (e.key === 'ArrowLeft') setPageNumber(prev => Math.max(1, prev - 1));
+      if (e.key === 'ArrowRight') setPageNumber(prev => (pageCount ? Math.min(pageCount, prev + 1) : prev));
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose, pageCount]);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-label={`${title}, page ${pageNumber}`}
+    >
+      <div className="bg-slate-800 rounded-xl shadow-2xl ring-1 ring-slate-700 max-w-full max-h-full flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between gap-4 px-4 py-3 border-b border-slate-700">
+          <span className="text-sm font-medium text-slate-200 truncate" title={title}>{title}</span>
+          <div className="flex items-center gap-2 flex-shrink-0">
+            <button
+              type="button"
+              onClick={() => setPageNumber(prev => prev - 1)}
+              disabled={pageNumber <= 1}
+              className="p-1 text-slate-300 hover:text-sky-400 disabled:opacity-40 disabled:cursor-not-allowed"
+              aria-label="Previous page"
+            >
+              <ArrowLeftIcon className="w-5 h-5" />
+            </button>
+            <span className="text-sm text-slate-400">p. {pageNumber}{pageCount ? ` of ${pageCount}` : ''}</span>
+            <button
+              type="button"
+              onClick={() => setPageNumber(prev => prev + 1)}
+              disabled={!pageCount || pageNumber >= pageCount}
+              className="p-1 text-slate-300 hover:text-sky-400 disabled:opacity-40 disabled:cursor-not-allowed"
+              aria-label="Next page"
+            >
+              <ArrowRightIcon className="w-5 h-5" />
+            </button>
+            <button type="button" onClick={onClose} className="ml-2 px-2 py-1 text-sm text-slate-300 hover:text-white" aria-label="Close page viewer">
+              Close
+            </button>
+          </div>
+        </div>
+        <div className="overflow-auto p-4">
+          {file && <canvas ref={canvasRef} className={showCanvas ? 'bg-white mx-auto' : 'hidden'} />}
+          {!showCanvas && (
+            <div className="w-[min(720px,calc(100vw-4rem))]">
+              <p className="text-xs text-slate-400 mb-2">
+                {file ? 'The page could not be rendered; showing its extracted text.' : 'The original file is not available; showing the text extracted from this page.'}
+              </p>
+              <pre className="whitespace-pre-wrap text-sm text-slate-200 font-sans">
+                {pageText || 'No text was extracted from this page.'}
+              </pre>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PdfPageViewer;
@@ -0,0 +1,217 @@
+import React, { useState } from 'react';
+import { PromptProfile } from '../types';
+import {
+  ANSWER_DEPTHS, MAX_SECTIONS, validatePromptProfile, createPromptProfileId, exportPromptProfiles,
+  parsePromptProfiles, mergePromptProfiles, restoreBuiltInProfiles, PromptProfileError,
+} from '../services/promptProfiles';
+import { downloadBlob } from '../services/cardExport';
+
+interface PromptProfileEditorProps {
+  profiles: PromptProfile[];
+  selectedId: string;
+  onSelect: (id: string) => void;
+  onProfilesChange: (profiles: PromptProfile[]) => void;
+  disabled?: boolean;
+}
+
+// Number fields are edited as text so they can be cleared while typing.
+type ProfileDraft = Record<Exclude<keyof PromptProfile, 'id'>, string>;
+
+const toDraft = (profile: PromptProfile): ProfileDraft => ({
+  name: profile.name,
+  audience: profile.audience,
+  minSections: String(profile.minSections),
+  maxSections: String(profile.maxSections),
+  answerDepth: profile.answerDepth,
+  tone: profile.tone,
+  temperature: String(profile.temperature),
+  topP: String(profile.topP),
+  topK: String(profile.topK),
+  followUpTemperature: String(profile.followUpTemperature),
+});
+
+const NUMBER_FIELDS: { key: keyof ProfileDraft; label: string; min: number; max: number; step: number }[] = [
+  { key: 'minSections', label: 'Min sections', min: 1, max: MAX_SECTIONS, step: 1 },
+  { key: 'maxSections', label: 'Max sections', min: 1, max: MAX_SECTIONS, step: 1 },
+  { key: 'temperature', label: 'Temperature', min: 0, max: 2, step: 0.1 },
+  { key: 'topP', label: 'Top-p', min: 0.01, max: 1, step: 0.05 },
+  { key: 'topK', label: 'Top-k (Gemini only)', min: 1, max: 100, step: 1 },
+  { key: 'followUpTemperature', label: 'Follow-up temperature', min: 0, max: 2, step: 0.1 },
+];
+
+const inputClassName = 'w-full p-2 bg-slate-700 border border-slate-600 rounded-md text-sm focus:ring-2 focus:ring-sky-500 outline-none';
+
+const PromptProfileEditor: React.FC<PromptProfileEditorProps> = ({ profiles, selectedId, onSelect, onProfilesChange, disabled = false }) => {
+  const [draft, setDraft] = useState<ProfileDraft | null>(null);
+  const [error, setError] = useState<string>('');
+  const [notice, setNotice] = useState<string>('');
+
+  const selected = profiles.find(profile => profile.id === selectedId) ?? profiles[0];
+
+  const readDraft = (id: string): PromptProfile | null => {
+    if (!draft) return null;
+    const numbers = Object.fromEntries(NUMBER_FIELDS.map(({ key }) => [key, draft[key].trim() === '' ? NaN : Number(draft[key])]));
+    try {
+      return validatePromptProfile({ ...draft, ...numbers, id });
+    } catch (err) {
+      if (!(err instanceof PromptProfileError)) throw err;
+      setError(err.message);
+      return null;
+    }
+  };
+
+  const handleSave = () => {
+    const profile = readDraft(selected.id);
+    if (!profile) return;
+    onProfilesChange(profiles.map(existing => (existing.id === selected.id ? profile : existing)));
+    setDraft(null);
+    setError('');
+  };
+
+  const handleSaveAsNew = () => {
+    if (!draft) return;
+    const profile = readDraft(createPromptProfileId(draft.name));
+    if (!profile) return;
+    onProfilesChange([...profiles, profile]);
+    onSelect(profile.id);
+    setDraft(null);
+    setError('');
+  };
+
+  const handleDelete = () => {
+    if (profiles.length <= 1 || !window.confirm(`Delete the profile "${selected.name}"?`)) return;
+    const remaining = profiles.filter(profile => profile.id !== selected.id);
+    onProfilesChange(remaining);
+    onSelect(remaining[0].id);
+    setDraft(null);
+  };
+
+  const handleExport = () => {
+    downloadBlob(new Blob([exportPromptProfiles(profiles)], { type: 'application/json' }), 'prompt-profiles.json');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parsePromptProfiles(await file.text());
+      onProfilesChange(mergePromptProfiles(profiles, imported));
+      setError('');
+      setNotice(`Imported ${imported.length} profile${imported.length === 1 ? '' : 's'}.`);
+    } catch (err) {
+      if (!(err instanceof PromptProfileError)) throw err;
+      setNotice('');
+      setError(err.message);
+    }
+  };
+
+  const handleRestore = () => {
+    const restored = restoreBuiltInProfiles(profiles);
+    onProfilesChange(restored);
+    if (!restored.some(profile => profile.id === selectedId)) onSelect(restored[0].id);
+    setDraft(null);
+    setError('');
+    setNotice('The built-in profiles have been restored.');
+  };
+
+  return (
+    <div>
+      <label htmlFor="prompt-profile" className="block text-sm font-medium text-slate-300 mb-1">
+        Prompt Profile
+      </label>
+      <div className="flex gap-2">
+        <select
+          id="prompt-profile"
+          value={selected.id}
+          onChange={(e) => { onSelect(e.target.value); setDraft(null); setError(''); }}
+          disabled={disabled}
+          className="flex-grow p-3 bg-slate-700 border border-slate-600 rounded-md focus:ring-2 focus:ring-sky-500 focus:border-sky-500 outline-none transition-colors"
+        >
+          {profiles.map(profile => <option key={profile.id} value={profile.id}>{profile.name}</option>)}
+        </select>
+        <button
+          type="button"
+          onClick={() => { setDraft(draft ? null : toDraft(selected)); setError(''); setNotice(''); }}
+          disabled={disabled}
+          aria-expanded={!!draft}
+          className="px-4 text-sm font-medium rounded-md text-slate-200 bg-slate-600 hover:bg-slate-500 disabled:opacity-50 transition-colors"
+        >
+          {draft ? 'Close' : 'Edit'}
+        </button>
+      </div>
+      <p className="mt-1 text-xs text-slate-500">
+        For {selected.audience}; {selected.minSections === selected.maxSections ? selected.minSections : `${selected.minSections}-${selected.maxSections}`} sections, {selected.answerDepth} answers, temperature {selected.temperature}.
+      </p>
+
+      {draft && (
+        <div className="mt-3 p-3 bg-slate-900/50 border border-slate-700 rounded-md space-y-3 text-sm">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <label className="block">
+              <span className="block text-xs text-slate-400 mb-1">Name</span>
+              <input type="text" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} className={inputClassName} />
+            </label>
+            <label className="block">
+              <span className="block text-xs text-slate-400 mb-1">Answer depth</span>
+              <select value={draft.answerDepth} onChange={(e) => setDraft({ ...draft, answerDepth: e.target.value })} className={inputClassName}>
+                {ANSWER_DEPTHS.map(depth => <option key={depth.value} value={depth.value}>{depth.label}</option>)}
+              </select>
+            </label>
+          </div>
+          <label className="block">
+            <span className="block text-xs text-slate-400 mb-1">Audience (the lesson is for ...)</span>
+            <input type="text" value={draft.audience} onChange={(e) => setDraft({ ...draft, audience: e.target.value })} className={inputClassName} />
+          </label>
+          <label className="block">
+            <span className="block text-xs text-slate-400 mb-1">Tone</span>
+            <input type="text" value={draft.tone} onChange={(e) => setDraft({ ...draft, tone: e.target.value })} className={inputClassName} />
+          </label>
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+            {NUMBER_FIELDS.map(field => (
+              <label key={field.key} className="block">
+                <span className="block text-xs text-slate-400 mb-1">{field.label}</span>
+                <input
+                  type="number"
+                  min={field.min}
+                  max={field.max}
+                  step={field.step}
+                  value={draft[field.key]}
+                  onChange={(e) => setDraft({ ...draft, [field.key]: e.target.value })}
+                  className={inputClassName}
+                />
+              </label>
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <button type="button" onClick={handleSave} className="px-3 py-1.5 text-sm font-medium rounded-md text-white bg-sky-600 hover:bg-sky-700 transition-colors">
+              Save
+            </button>
+            <button type="button" onClick={handleSaveAsNew} className="px-3 py-1.5 text-sm font-medium rounded-md text-slate-200 bg-slate-600 hover:bg-slate-500 transition-colors">
+              Save as new profile
+            </button>
+            <button
+              type="button"
+              onClick={handleDelete}
+              disabled={profiles.length <= 1}
+              className="px-3 py-1.5 text-sm font-medium rounded-md text-red-300 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 transition-colors"
+            >
+              Delete
+            </button>
+          </div>
+          <div className="flex flex-wrap items-center gap-3 pt-2 border-t border-slate-700 text-xs">
+            <button type="button" onClick={handleExport} className="text-sky-400 hover:underline">Export profiles</button>
+            <label className="text-sky-400 hover:underline cursor-pointer">
+              Import profiles
+              <input type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+            </label>
+            <button type="button" onClick={handleRestore} className="text-sky-400 hover:underline">Restore built-in profiles</button>
+          </div>
+        </div>
+      )}
+      {error && <p className="mt-1 text-xs text-red-400">{error}</p>}
+      {notice && !error && <p className="mt-1 text-xs text-slate-400">{notice}</p>}
+    </div>
+  );
+};
+
+export default PromptProfileEditor;
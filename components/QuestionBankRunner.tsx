@@ -0,0 +1,395 @@
+import React, { useState, useRef } from 'react';
+import { BatchItem, BatchItemStatus, ProviderId } from '../types';
+import { getModelProvider, getStoredProviderId, MODEL_PROVIDERS } from '../services/modelProvider';
+import { parseQuestionBank, createBatchItems, runBatchQueue, buildQuestionBankJson, QuestionBankError, MAX_BATCH_CONCURRENCY } from '../services/questionBank';
+import { buildQuestionBankDocx } from '../services/docxExport';
+import { downloadBlob, toFileName } from '../services/cardExport';
+import { saveLesson, createLessonId } from '../services/lessonStore';
+import { getPromptProfiles, getStoredPromptProfileId } from '../services/promptProfiles';
+import { withLessonIds } from '../services/lessonEditor';
+import { UploadIcon, DownloadIcon } from './IconComponents';
+
+interface QuestionBankRunnerProps {
+  // Called after answers have been saved to the lesson library.
+  onLessonsSaved: () => void;
+}
+
+const STATUS_STYLES: Record<BatchItemStatus, { label: string; className: string }> = {
+  queued: { label: 'Queued', className: 'bg-slate-600 text-slate-200' },
+  running: { label: 'Running', className: 'bg-sky-700 text-white animate-pulse' },
+  done: { label: 'Done', className: 'bg-green-700 text-white' },
+  failed: { label: 'Failed', className: 'bg-red-700 text-white' },
+};
+
+const EXPORT_TITLE = 'Question bank answers';
+
+const QuestionBankRunner: React.FC<QuestionBankRunnerProps> = ({ onLessonsSaved }) => {
+  const [isExpanded, setIsExpanded] = useState<boolean>(false);
+  const [bankText, setBankText] = useState<string>('');
+  const [inputError, setInputError] = useState<string>('');
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [providerId, setProviderId] = useState<ProviderId>(getStoredProviderId);
+  const [model, setModel] = useState<string>(() => getModelProvider(getStoredProviderId()).models[0]?.value ?? '');
+  const [profileId, setProfileId] = useState<string>(getStoredPromptProfileId);
+  const [concurrency, setConcurrency] = useState<number>(2);
+  const [isRunning, setIsRunning] = useState<boolean>(false);
+  const [resumeAt, setResumeAt] = useState<number | null>(null);
+  const [savedIds, setSavedIds] = useState<Set<string>>(new Set());
+  const [isExporting, setIsExporting] = useState<boolean>(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const provider = getModelProvider(providerId);
+  // Profiles are edited in the lesson form, so the list is read fresh while the panel is open.
+  const profiles = isExpanded ? getPromptProfiles() : [];
+  const promptProfile = profiles.find(profile => profile.id === profileId) ?? profiles[0];
+
+  const addQuestions = (text: string, fileName?: string) => {
+    try {
+      const known = new Set(items.map(item => item.question));
+      const questions = parseQuestionBank(text, fileName).filter(question => !known.has(question));
+      if (questions.length === 0) {
+        setInputError('All of these questions are already in the list.');
+        return;
+      }
+      setItems(prev => [...prev, ...createBatchItems(questions)]);
+      setBankText('');
+      setInputError('');
+    } catch (err) {
+      if (!(err instanceof QuestionBankError)) throw err;
+      setInputError(err.message);
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) addQuestions(await file.text(), file.name);
+  };
+
+  const handleProviderChange = (id: ProviderId) => {
+    setProviderId(id);
+    setModel(getModelProvider(id).models[0]?.value ?? '');
+  };
+
+  const updateItem = (id: string, update: Partial<BatchItem>) =>
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, ...update } : item)));
+
+  const runItems = async (toRun: BatchItem[]) => {
+    if (toRun.length === 0 || isRunning) return;
+    const configurationError = provider.getConfigurationError();
+    if (configurationError) {
+      setInputError(configurationError);
+      return;
+    }
+    if (!model.trim()) {
+      setInputError('Please enter the name of the model to use.');
+      return;
+    }
+    setInputError('');
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+    setItems(prev => prev.map(item => (toRun.some(run => run.id === item.id) ? { ...item, status: 'queued', error: undefined, promptProfile } : item)));
+    try {
+      await runBatchQueue(
+        toRun,
+        (question, signal) => provider.getTeachingSections({ examQuestion: question, promptProfile, model: model.trim() }, signal),
+        { concurrency, signal: controller.signal, onItemUpdate: updateItem, onPause: setResumeAt },
+      );
+    } finally {
+      abortRef.current = null;
+      setIsRunning(false);
+      setResumeAt(null);
+    }
+  };
+
+  const handleStop = () => abortRef.current?.abort();
+
+  const handleRemove = (id: string) => setItems(prev => prev.filter(item => item.id !== id));
+
+  const handleExportDocx = async () => {
+    setIsExporting(true);
+    try {
+      downloadBlob(await buildQuestionBankDocx(items, EXPORT_TITLE), toFileName(EXPORT_TITLE, 'docx'));
+    } catch (err) {
+      console.error("Failed to export the question bank:", err);
+      window.alert("The Word document could not be created. Please try again.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleExportJson = () => {
+    const blob = new Blob([buildQuestionBankJson(items, model.trim())], { type: 'application/json' });
+    downloadBlob(blob, toFileName(EXPORT_TITLE, 'json'));
+  };
+
+  // Each answer becomes a saved lesson, so it can be opened, discussed and reviewed as flashcards.
+  const handleSaveToLibrary = async () => {
+    const unsaved = items.filter(item => item.status === 'done' && item.sections && !savedIds.has(item.id));
+    try {
+      for (const item of unsaved) {
+        const now = Date.now();
+        await saveLesson({
+          id: createLessonId(),
+          title: item.question.substring(0, 120),
+          createdAt: now,
+          updatedAt: now,
+          model: model.trim(),
+          inputContext: { urls: [], pdfFiles: [], searchQuery: '', focusTopic: '', examQuestion: item.question, promptProfile: item.promptProfile, model: model.trim(), provider: providerId },
+          teachingSteps: withLessonIds(item.sections!),
+          initialSources: item.sources ?? [],
+          chatHistories: {},
+          currentStepIndex: 0,
+        });
+        setSavedIds(prev => new Set(prev).add(item.id));
+      }
+    } catch (err) {
+      console.error("Failed to save answers:", err);
+      setInputError("Some answers could not be saved to the library.");
+    } finally {
+      onLessonsSaved();
+    }
+  };
+
+  const counts = items.reduce(
+    (totals, item) => ({ ...totals, [item.status]: totals[item.status] + 1 }),
+    { queued: 0, running: 0, done: 0, failed: 0 } as Record<BatchItemStatus, number>
+  );
+  const unsavedCount = items.filter(item => item.status === 'done' && !savedIds.has(item.id)).length;
+
+  return (
+    <div className="p-6 bg-slate-800 rounded-xl shadow-2xl ring-1 ring-slate-700/50">
+      <button
+        type="button"
+        onClick={() => setIsExpanded(prev => !prev)}
+        className="w-full flex items-center justify-between text-left focus:outline-none"
+        aria-expanded={isExpanded}
+      >
+        <span className="flex items-center text-xl font-semibold text-sky-400">
+          <UploadIcon className="w-6 h-6 mr-3" />
+          Question Bank
+          {items.length > 0 && (
+            <span className="ml-3 text-sm font-normal text-slate-400">({counts.done} of {items.length} answered)</span>
+          )}
+        </span>
+        <span className="text-sm text-slate-400">{isExpanded ? 'Hide' : 'Show'}</span>
+      </button>
+
+      {isExpanded && (
+        <div className="mt-4 space-y-4">
+          <p className="text-sm text-slate-400">
+            Paste one question per line, or import a .txt, .csv or .json file. Each question gets a structured model answer, as in exam question mode.
+          </p>
+          <textarea
+            value={bankText}
+            onChange={(e) => {
+              setBankText(e.target.value);
+              if (inputError) setInputError('');
+            }}
+            placeholder={'1. Discuss the imaging features of osteoid osteoma.\n2. How would you image a suspected scaphoid fracture?'}
+            rows={4}
+            disabled={isRunning}
+            className="w-full p-3 bg-slate-700 border border-slate-600 rounded-md text-sm focus:ring-2 focus:ring-sky-500 outline-none"
+          />
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              type="button"
+              onClick={() => addQuestions(bankText)}
+              disabled={isRunning || !bankText.trim()}
+              className="px-4 py-2 text-sm font-medium rounded-md text-white bg-sky-600 hover:bg-sky-700 disabled:bg-slate-600 disabled:cursor-not-allowed transition-colors"
+            >
+              Add questions
+            </button>
+            <label className={`px-4 py-2 text-sm font-medium rounded-md text-slate-200 bg-slate-600 transition-colors ${isRunning ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer hover:bg-slate-500'}`}>
+              Import file
+              <input type="file" accept=".txt,.csv,.tsv,.json" onChange={handleFile} disabled={isRunning} className="hidden" />
+            </label>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-4 gap-3 text-sm">
+            <label className="block">
+              <span className="block text-xs text-slate-400 mb-1">Provider</span>
+              <select
+                value={providerId}
+                onChange={(e) => handleProviderChange(e.target.value as ProviderId)}
+                disabled={isRunning}
+                className="w-full p-2 bg-slate-700 border border-slate-600 rounded-md focus:ring-2 focus:ring-sky-500 outline-none"
+              >
+                {MODEL_PROVIDERS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+              </select>
+            </label>
+            <label className="block">
+              <span className="block text-xs text-slate-400 mb-1">Model</span>
+              {provider.models.length > 0 ? (
+                <select
+                  value={model}
+                  onChange={(e) => setModel(e.target.value)}
+                  disabled={isRunning}
+                  className="w-full p-2 bg-slate-700 border border-slate-600 rounded-md focus:ring-2 focus:ring-sky-500 outline-none"
+                >
+                  {provider.models.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+                </select>
+              ) : (
+                <input
+                  type="text"
+                  value={model}
+                  onChange={(e) => setModel(e.target.value)}
+                  placeholder="e.g. llama3.1:8b"
+                  disabled={isRunning}
+                  className="w-full p-2 bg-slate-700 border border-slate-600 rounded-md focus:ring-2 focus:ring-sky-500 outline-none"
+                />
+              )}
+            </label>
+            <label className="block">
+              <span className="block text-xs text-slate-400 mb-1">Prompt profile</span>
+              <select
+                value={promptProfile?.id ?? ''}
+                onChange={(e) => setProfileId(e.target.value)}
+                disabled={isRunning}
+                className="w-full p-2 bg-slate-700 border border-slate-600 rounded-md focus:ring-2 focus:ring-sky-500 outline-none"
+              >
+                {profiles.map(profile => <option key={profile.id} value={profile.id}>{profile.name}</option>)}
+              </select>
+            </label>
+            <label className="block">
+              <span className="block text-xs text-slate-400 mb-1">Questions at a time</span>
+              <input
+                type="number"
+                min={1}
+                max={MAX_BATCH_CONCURRENCY}
+                value={concurrency}
+                onChange={(e) => {
+                  const parsed = parseInt(e.target.value, 10);
+                  if (!isNaN(parsed)) setConcurrency(Math.min(MAX_BATCH_CONCURRENCY, Math.max(1, parsed)));
+                }}
+                disabled={isRunning}
+                className="w-full p-2 bg-slate-700 border border-slate-600 rounded-md focus:ring-2 focus:ring-sky-500 outline-none"
+              />
+            </label>
+          </div>
+
+          {inputError && <p className="text-sm text-red-400">{inputError}</p>}
+
+          {items.length > 0 && (
+            <>
+              <div className="flex flex-wrap items-center gap-2">
+                {isRunning ? (
+                  <button
+                    type="button"
+                    onClick={handleStop}
+                    className="px-4 py-2 text-sm font-medium rounded-md text-white bg-red-600 hover:bg-red-700 transition-colors"
+                  >
+                    Stop
+                  </button>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => runItems(items.filter(item => item.status === 'queued'))}
+                    disabled={counts.queued === 0}
+                    className="px-4 py-2 text-sm font-medium rounded-md text-white bg-sky-600 hover:bg-sky-700 disabled:bg-slate-600 disabled:cursor-not-allowed transition-colors"
+                  >
+                    Run {counts.queued} queued
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => runItems(items.filter(item => item.status === 'failed'))}
+                  disabled={isRunning || counts.failed === 0}
+                  className="px-4 py-2 text-sm font-medium rounded-md text-slate-200 bg-slate-600 hover:bg-slate-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  Retry {counts.failed} failed
+                </button>
+                <select
+                  value=""
+                  onChange={(e) => (e.target.value === 'docx' ? handleExportDocx() : handleExportJson())}
+                  disabled={isRunning || isExporting || counts.done === 0}
+                  aria-label="Export answers"
+                  className="px-3 py-2 text-sm font-medium rounded-md text-slate-200 bg-slate-600 hover:bg-slate-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <option value="" disabled>{isExporting ? 'Exporting...' : 'Export all'}</option>
+                  <option value="docx">Word document (.docx)</option>
+                  <option value="json">JSON</option>
+                </select>
+                <button
+                  type="button"
+                  onClick={handleSaveToLibrary}
+                  disabled={isRunning || unsavedCount === 0}
+                  className="flex items-center px-4 py-2 text-sm font-medium rounded-md text-slate-200 bg-slate-600 hover:bg-slate-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  <DownloadIcon className="w-4 h-4 mr-2" />
+                  Save {unsavedCount} to library
+                </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setItems([]);
+                    setSavedIds(new Set());
+                  }}
+                  disabled={isRunning}
+                  className="px-3 py-2 text-sm text-slate-400 hover:text-red-400 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  Clear list
+                </button>
+              </div>
+
+              <div aria-live="polite">
+                <div className="h-2 rounded-full bg-slate-700 overflow-hidden">
+                  <div className="h-full bg-green-600 transition-all" style={{ width: `${(counts.done / items.length) * 100}%` }} />
+                </div>
+                <p className="mt-1 text-xs text-slate-400">
+                  {counts.done} answered, {counts.running} running, {counts.queued} queued, {counts.failed} failed
+                  {resumeAt && ` · Rate limited; resuming at ${new Date(resumeAt).toLocaleTimeString()}`}
+                </p>
+              </div>
+
+              <ol className="space-y-1 max-h-80 overflow-y-auto pr-2">
+                {items.map((item, index) => (
+                  <li key={item.id} className="flex items-start gap-2 text-sm p-2 bg-slate-700/50 rounded">
+                    <span className="w-8 flex-shrink-0 text-slate-500">{index + 1}.</span>
+                    <div className="flex-grow min-w-0">
+                      <p className="text-slate-200 truncate" title={item.question}>{item.question}</p>
+                      {item.error && <p className="text-xs text-red-300 mt-0.5">{item.error}</p>}
+                      {item.status === 'done' && item.sections && (
+                        <p className="text-xs text-slate-500 mt-0.5">
+                          {item.sections.length} sections, {item.sources?.length ?? 0} sources{savedIds.has(item.id) && ' · saved'}
+                        </p>
+                      )}
+                    </div>
+                    {item.attempts > 1 && <span className="text-xs text-slate-500 flex-shrink-0">{item.attempts} attempts</span>}
+                    <span className={`px-2 py-0.5 rounded text-xs font-medium flex-shrink-0 ${STATUS_STYLES[item.status].className}`}>
+                      {STATUS_STYLES[item.status].label}
+                    </span>
+                    {item.status === 'failed' && (
+                      <button
+                        type="button"
+                        onClick={() => runItems([item])}
+                        disabled={isRunning}
+                        className="text-xs text-sky-400 hover:text-sky-300 disabled:opacity-50 disabled:cursor-not-allowed flex-shrink-0"
+                      >
+                        Retry
+                      </button>
+                    )}
+                    {item.status !== 'running' && (
+                      <button
+                        type="button"
+                        onClick={() => handleRemove(item.id)}
+                        disabled={isRunning}
+                        className="text-xs text-slate-400 hover:text-red-400 disabled:opacity-50 disabled:cursor-not-allowed flex-shrink-0"
+                        aria-label={`Remove question ${index + 1}`}
+                      >
+                        Remove
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuestionBankRunner;
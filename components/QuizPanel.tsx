@@ -0,0 +1,123 @@
+import React from 'react';
+import { marked } from 'marked';
+import { SectionQuiz } from '../types';
+import { scoreQuiz } from '../services/quizScoring';
+import LoadingSpinner from './LoadingSpinner';
+
+interface QuizPanelProps {
+  quiz?: SectionQuiz;
+  isLoading: boolean;
+  onAnswer: (questionIndex: number, optionIndex: number) => void;
+  onRetake: () => void;
+  onRegenerate: () => void;
+  onClose: () => void;
+}
+
+const optionLetter = (index: number): string => String.fromCharCode(65 + index);
+
+const QuizPanel: React.FC<QuizPanelProps> = ({ quiz, isLoading, onAnswer, onRetake, onRegenerate, onClose }) => {
+  if (isLoading) {
+    return (
+      <div className="mb-8 p-6 bg-slate-900/60 rounded-lg border border-slate-700">
+        <LoadingSpinner message="Writing quiz questions from this section..." />
+      </div>
+    );
+  }
+  if (!quiz) return null;
+
+  const { correct, answered, total } = scoreQuiz(quiz);
+  const isComplete = answered === total;
+
+  return (
+    <div className="mb-8 p-6 bg-slate-900/60 rounded-lg border border-slate-700 space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <h3 className="text-xl font-semibold text-slate-200">Section quiz</h3>
+        <span className="text-sm text-slate-400" aria-live="polite">
+          {correct} correct · {answered}/{total} answered
+        </span>
+      </div>
+
+      <ol className="space-y-6">
+        {quiz.questions.map((question, questionIndex) => {
+          const chosen = quiz.answers[questionIndex];
+          const isAnswered = chosen !== null;
+          return (
+            <li key={questionIndex} className="space-y-3">
+              <p className="text-slate-200 font-medium">
+                {questionIndex + 1}. {question.stem}
+              </p>
+              <div className="grid grid-cols-1 gap-2">
+                {question.options.map((option, optionIndex) => {
+                  let style = 'bg-slate-700 border-slate-600 hover:bg-slate-600';
+                  if (isAnswered) {
+                    if (optionIndex === question.correct_index) style = 'bg-green-900/50 border-green-600';
+                    else if (optionIndex === chosen) style = 'bg-red-900/50 border-red-600';
+                    else style = 'bg-slate-800 border-slate-700 opacity-70';
+                  }
+                  return (
+                    <button
+                      key={optionIndex}
+                      type="button"
+                      onClick={() => onAnswer(questionIndex, optionIndex)}
+                      disabled={isAnswered}
+                      className={`flex items-start gap-3 p-3 text-left text-sm rounded-md border transition-colors disabled:cursor-default ${style}`}
+                    >
+                      <span className="font-semibold text-slate-400">{optionLetter(optionIndex)}</span>
+                      <span className="text-slate-200">{option}</span>
+                    </button>
+                  );
+                })}
+              </div>
+              {isAnswered && (
+                <div className="p-3 rounded-md bg-slate-800 text-sm">
+                  <p className={`font-semibold ${chosen === question.correct_index ? 'text-green-400' : 'text-red-400'}`}>
+                    {chosen === question.correct_index ? 'Correct.' : `Incorrect. The answer is ${optionLetter(question.correct_index)}.`}
+                  </p>
+                  {question.explanation && (
+                    <div
+                      className="mt-1 prose prose-invert prose-sm max-w-none prose-p:text-slate-300"
+                      dangerouslySetInnerHTML={{ __html: marked.parse(question.explanation, { breaks: true, gfm: true }) as string }}
+                    />
+                  )}
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+
+      {isComplete && (
+        <p className="p-3 rounded-md bg-sky-900/40 text-sky-200 text-sm">
+          You scored {correct} out of {total} ({Math.round((correct / total) * 100)}%).
+        </p>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          type="button"
+          onClick={onRetake}
+          disabled={answered === 0}
+          className="px-4 py-2 text-sm font-medium rounded-md text-slate-200 bg-slate-600 hover:bg-slate-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          Retake
+        </button>
+        <button
+          type="button"
+          onClick={onRegenerate}
+          className="px-4 py-2 text-sm font-medium rounded-md text-slate-200 bg-slate-600 hover:bg-slate-500 transition-colors"
+        >
+          New questions
+        </button>
+        <button
+          type="button"
+          onClick={onClose}
+          className="ml-auto px-4 py-2 text-sm font-medium rounded-md text-slate-400 hover:text-slate-200 transition-colors"
+        >
+          Hide quiz
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default QuizPanel;
@@ -0,0 +1,55 @@
+import React from 'react';
+import { SectionQuiz, TeachingSectionContent } from '../types';
+import { scoreQuiz, scoreLessonQuizzes, formatPercent } from '../services/quizScoring';
+import { sectionKey } from '../services/lessonEditor';
+
+interface QuizResultsSummaryProps {
+  teachingSteps: TeachingSectionContent[];
+  quizzes: Record<string, SectionQuiz>;
+}
+
+const QuizResultsSummary: React.FC<QuizResultsSummaryProps> = ({ teachingSteps, quizzes }) => {
+  // Quizzes of deleted sections are kept for undo but not counted.
+  const quizzed = teachingSteps
+    .map((section, sectionIndex) => ({ section, sectionIndex, quiz: quizzes[sectionKey(section, sectionIndex)] }))
+    .filter(entry => entry.quiz);
+  if (quizzed.length === 0) return null;
+
+  const lessonScore = scoreLessonQuizzes(quizzed.map(entry => entry.quiz));
+
+  return (
+    <div className="mt-8 pt-6 border-t border-slate-700">
+      <h3 className="text-xl font-semibold text-slate-300 mb-4">Quiz results</h3>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-slate-400 border-b border-slate-700">
+            <th className="py-2 pr-4 font-medium">Section</th>
+            <th className="py-2 pr-4 font-medium">Score</th>
+            <th className="py-2 font-medium">Status</th>
+          </tr>
+        </thead>
+        <tbody>
+          {quizzed.map(({ section, sectionIndex, quiz }) => {
+            const score = scoreQuiz(quiz);
+            return (
+              <tr key={sectionKey(section, sectionIndex)} className="border-b border-slate-800 text-slate-300">
+                <td className="py-2 pr-4">{sectionIndex + 1}. {section.section_title}</td>
+                <td className="py-2 pr-4">{score.correct}/{score.answered} ({formatPercent(score.correct, score.answered)})</td>
+                <td className="py-2 text-slate-400">{score.answered === score.total ? 'Complete' : `${score.total - score.answered} unanswered`}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+        <tfoot>
+          <tr className="text-slate-200 font-semibold">
+            <td className="py-2 pr-4">Whole lesson</td>
+            <td className="py-2 pr-4">{lessonScore.correct}/{lessonScore.answered} ({formatPercent(lessonScore.correct, lessonScore.answered)})</td>
+            <td className="py-2 text-slate-400 font-normal">{quizzed.length} of {teachingSteps.length} sections quizzed</td>
+          </tr>
+        </tfoot>
+      </table>
+    </div>
+  );
+};
+
+export default QuizResultsSummary;
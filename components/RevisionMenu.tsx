@@ -0,0 +1,51 @@
+import React from 'react';
+import { RevisionAction } from '../types';
+import { REVISION_ACTION_LABELS } from '../services/lessonRevision';
+
+interface RevisionMenuProps {
+  actions: RevisionAction[];
+  onSelect: (action: RevisionAction) => void;
+  // Shown as the menu's placeholder, e.g. "Revise section".
+  label: string;
+  disabled?: boolean;
+  isRevising?: boolean;
+  onCancel?: () => void;
+  compact?: boolean;
+}
+
+const RevisionMenu: React.FC<RevisionMenuProps> = ({ actions, onSelect, label, disabled = false, isRevising = false, onCancel, compact = false }) => {
+  if (isRevising) {
+    return (
+      <span className={`inline-flex items-center gap-2 ${compact ? 'text-xs' : 'text-sm'} text-sky-300`} aria-live="polite">
+        <svg className="animate-spin h-4 w-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+          <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+          <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+        </svg>
+        Revising...
+        {onCancel && (
+          <button type="button" onClick={onCancel} className="text-slate-400 hover:text-red-400 underline">
+            Cancel
+          </button>
+        )}
+      </span>
+    );
+  }
+
+  return (
+    <select
+      value=""
+      onChange={(e) => onSelect(e.target.value as RevisionAction)}
+      disabled={disabled}
+      aria-label={label}
+      title="Rewrite or extend this part of the lesson from the original sources; the previous version can be restored"
+      className={`${compact ? 'px-2 py-1 text-xs' : 'px-3 py-2 text-sm'} bg-slate-700 text-slate-200 rounded-md border border-slate-600 focus:outline-none focus:ring-2 focus:ring-sky-500 disabled:opacity-50`}
+    >
+      <option value="" disabled>{label}</option>
+      {actions.map(action => (
+        <option key={action} value={action}>{REVISION_ACTION_LABELS[action]}</option>
+      ))}
+    </select>
+  );
+};
+
+export default RevisionMenu;
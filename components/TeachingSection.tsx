@@ -1,10 +1,24 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { marked } from 'marked';
-// Fix: Import IParagraphOptions to correctly type paragraph properties.
-import { Document, Packer, Paragraph, TextRun, HeadingLevel, ExternalHyperlink, Table, TableRow, TableCell, IParagraphOptions } from 'docx';
-import { TeachingSectionContent, ChatMessage, GroundingSource } from '../types';
+import { Packer, Paragraph, TextRun, HeadingLevel, ExternalHyperlink, Table } from 'docx';
+import { TeachingSectionContent, QuestionAnswerPair, ChatMessage, GroundingSource, SectionQuiz, PdfDocumentText, ChatAnswerMode, ImageAttachment, RevisionAction, SectionRevision } from '../types';
 import { ArrowLeftIcon, ArrowRightIcon, DownloadIcon, LinkIcon } from './IconComponents';
 import ChatSection from './ChatSection'; // This is now our FollowUpChat component
+import QuizPanel from './QuizPanel';
+import QuizResultsSummary from './QuizResultsSummary';
+import PdfPageViewer from './PdfPageViewer';
+import RevisionMenu from './RevisionMenu';
+import LessonChatPanel from './LessonChatPanel';
+import NarrationControls from './NarrationControls';
+import { buildAnkiPackage, buildDelimitedExport, downloadBlob, toFileName, DelimitedFormat } from '../services/cardExport';
+import { buildLessonPdf } from '../services/pdfExport';
+import { createDocxElementsFromMarkdown, createDocxDocument } from '../services/docxExport';
+import { isDocumentSource, withCitationNumbers, pdfIndexOfSource, pageOfSource, formatCitationLabel } from '../services/citations';
+import { EXAM_ANSWER_SECTIONS } from '../services/prompts';
+import { SECTION_REVISION_ACTIONS, PAIR_REVISION_ACTIONS, describeRevision } from '../services/lessonRevision';
+import { sectionKey, pairKey } from '../services/lessonEditor';
+import { LESSON_CHAT_KEY } from '../services/lessonChat';
+import { NarrationItem, answerSentences, isNarrationSupported } from '../services/narration';
 
 interface TeachingSectionProps {
   teachingSteps: TeachingSectionContent[];
@@ -12,131 +26,85 @@ interface TeachingSectionProps {
   onNextStep: () => void;
   onPreviousStep: () => void;
   chatHistories: Record<string, ChatMessage[]>;
-  onSendMessage: (sectionIndex: number, qaIndex: number, message: string, useGoogleSearch: boolean) => void;
+  onSendMessage: (sectionIndex: number, qaIndex: number, message: string, answerMode: ChatAnswerMode, images?: ImageAttachment[]) => void;
+  onCancelMessage?: () => void;
   isChatLoading: boolean;
   activeChatKey: string | null;
   initialSources: GroundingSource[];
+  lessonTitle?: string;
+  isGenerating?: boolean;
+  canSearchWeb?: boolean;
+  canSearchDocuments?: boolean;
+  canAttachImages?: boolean;
+  // Quizzes keyed by section id.
+  quizzes: Record<string, SectionQuiz>;
+  quizLoadingSection: number | null;
+  onGenerateQuiz: (sectionIndex: number) => void;
+  onAnswerQuiz: (sectionIndex: number, questionIndex: number, optionIndex: number) => void;
+  onRetakeQuiz: (sectionIndex: number) => void;
+  // The lesson's uploaded PDFs and their extracted text, for the page viewer.
+  pdfFiles?: File[];
+  pdfDocuments?: (PdfDocumentText | null)[];
+  // Set for a structured exam answer, which is shown on one page under the template headings.
+  examQuestion?: string;
+  // Revisions keyed by section id; omitted while the lesson is still being generated.
+  revisions?: Record<string, SectionRevision[]>;
+  // The id of the section or pair being revised.
+  revisingTarget?: string | null;
+  onRevise?: (sectionIndex: number, action: RevisionAction, qaIndex?: number) => void;
+  onRevertRevision?: (sectionIndex: number) => void;
+  onCancelRevision?: () => void;
+  // Opens the lesson editor; omitted while the lesson cannot be edited.
+  onEdit?: () => void;
+  // Opens the form for adding sources to the lesson.
+  onAddSources?: () => void;
+  // Sends a message in the lesson-wide chat; omitted while there is no saved lesson.
+  onSendLessonMessage?: (message: string, answerMode: ChatAnswerMode, images?: ImageAttachment[]) => void;
+  onAddChatAnswer?: (messageId: string, question: string, sectionIndex: number | null) => void;
 }
 
-const parseInlineTokens = (tokens: any[], options: { bold?: boolean; italics?: boolean } = {}): (TextRun | ExternalHyperlink)[] => {
-  const children: (TextRun | ExternalHyperlink)[] = [];
-  if (!tokens) return children;
-
-  for (const token of tokens) {
-    switch (token.type) {
-      case 'strong':
-        children.push(...parseInlineTokens(token.tokens, { ...options, bold: true }));
-        break;
-      case 'em':
-        children.push(...parseInlineTokens(token.tokens, { ...options, italics: true }));
-        break;
-      case 'link':
-        children.push(new ExternalHyperlink({
-          children: parseInlineTokens(token.tokens, { ...options }) as TextRun[],
-          link: token.href,
-        }));
-        break;
-      case 'text':
-        children.push(new TextRun({ text: token.text, ...options }));
-        break;
-      default:
-        if (token.text) {
-          children.push(new TextRun({ text: token.text, ...options }));
-        }
-        break;
-    }
-  }
-  return children;
-};
+type DocxExportMode = 'lesson' | 'lesson-with-chats' | 'chats-only';
 
-// Fix: Remove HeadingLevel type annotation to resolve TS error. The type is correctly inferred.
-const mapDepthToHeadingLevel = (depth: number) => {
-    switch (depth) {
-        case 1: return HeadingLevel.HEADING_1;
-        case 2: return HeadingLevel.HEADING_2;
-        case 3: return HeadingLevel.HEADING_3;
-        case 4: return HeadingLevel.HEADING_4;
-        case 5: return HeadingLevel.HEADING_5;
-        case 6: return HeadingLevel.HEADING_6;
-        default: return HeadingLevel.HEADING_1;
-    }
-}
+const DOCX_EXPORT_MODES: { value: DocxExportMode; label: string }[] = [
+  { value: 'lesson', label: 'Lesson only' },
+  { value: 'lesson-with-chats', label: 'Lesson + chats' },
+  { value: 'chats-only', label: 'Chats only' },
+];
 
-const createDocxElementsFromMarkdown = (markdownText: string): (Paragraph | Table)[] => {
-  if (!markdownText) return [new Paragraph({ text: '' })];
-
-  const elements: (Paragraph | Table)[] = [];
-  const tokens = marked.lexer(markdownText);
-
-  // Fix: Refactor paragraph creation to pass options to the constructor, as Paragraph instances are immutable. This resolves errors with assigning to read-only properties.
-  const processListItems = (items: any[], isOrdered: boolean, level = 0): Paragraph[] => {
-    const listParagraphs: Paragraph[] = [];
-    items.forEach(item => {
-        let isFirstParagraphInItem = true;
-        item.tokens.forEach((blockToken: any) => {
-            if (blockToken.type === 'text') {
-                const paragraphOptions: IParagraphOptions = {
-                    children: parseInlineTokens(blockToken.tokens),
-                };
-                if (isFirstParagraphInItem) {
-                    if (isOrdered) {
-                        paragraphOptions.numbering = { reference: "default-numbering", level };
-                    } else {
-                        paragraphOptions.bullet = { level };
-                    }
-                    isFirstParagraphInItem = false;
-                } else {
-                    paragraphOptions.indent = { left: 720 * (level + 1) };
-                }
-                listParagraphs.push(new Paragraph(paragraphOptions));
-            } else if (blockToken.type === 'list') {
-                listParagraphs.push(...processListItems(blockToken.items, blockToken.ordered, level + 1));
-                isFirstParagraphInItem = false; 
-            }
-        });
+// Renders a follow-up thread, renumbering each answer's [n] citations (which refer to that
+// message's own sources) to the source's position in the document's bibliography.
+const createChatThreadElements = (history: ChatMessage[], sourceNumbers: Map<string, number>): (Paragraph | Table)[] => {
+  const elements: (Paragraph | Table)[] = [
+    new Paragraph({ text: 'Follow-up discussion', heading: HeadingLevel.HEADING_3 }),
+  ];
+  history.forEach(message => {
+    const text = message.parts.map(part => part.text || '').join('');
+    elements.push(new Paragraph({
+      children: [new TextRun({ text: message.role === 'user' ? 'Question:' : 'Answer:', bold: true, color: '475569' })],
+    }));
+    if (message.role === 'user') {
+      elements.push(new Paragraph({ children: [new TextRun({ text, italics: true })] }));
+      return;
+    }
+    const resolvedText = withCitationNumbers(text, message.citations).replace(/\[(\d+)\]/g, (match, numberStr) => {
+      const source = message.sources?.[parseInt(numberStr, 10) - 1];
+      const globalNumber = source ? sourceNumbers.get(source.uri) : undefined;
+      return globalNumber ? `[${globalNumber}]` : match;
     });
-    return listParagraphs;
-  };
-
-  for (const token of tokens) {
-    switch (token.type) {
-      case 'heading':
-        elements.push(new Paragraph({
-          children: parseInlineTokens(token.tokens),
-          heading: mapDepthToHeadingLevel(token.depth),
-        }));
-        break;
-      case 'paragraph':
+    elements.push(...createDocxElementsFromMarkdown(resolvedText));
+    if (message.relatedLinks && message.relatedLinks.length > 0) {
+      elements.push(new Paragraph({ children: [new TextRun({ text: 'Related links:', italics: true })] }));
+      message.relatedLinks.forEach(link => {
         elements.push(new Paragraph({
-          children: parseInlineTokens(token.tokens),
+          children: [new ExternalHyperlink({
+            children: [new TextRun({ text: link.title || link.uri, style: "Hyperlink" })],
+            link: link.uri,
+          })],
+          bullet: { level: 0 },
         }));
-        break;
-      case 'list':
-        elements.push(...processListItems(token.items, token.ordered));
-        break;
-      case 'table':
-        const header = new TableRow({
-          children: token.header.map((cell: any) => new TableCell({
-            children: [new Paragraph({ children: parseInlineTokens(cell.tokens) })],
-          })),
-          tableHeader: true,
-        });
-        const rows = token.rows.map((row: any) => new TableRow({
-          children: row.map((cell: any) => new TableCell({
-            children: [new Paragraph({ children: parseInlineTokens(cell.tokens) })],
-          })),
-        }));
-        elements.push(new Table({
-          rows: [header, ...rows],
-          width: { size: 100, type: 'pct' },
-        }));
-        break;
-      case 'space':
-        elements.push(new Paragraph({ text: '' }));
-        break;
+      });
     }
-  }
-
+  });
   return elements;
 };
 
@@ -147,39 +115,105 @@ const TeachingSection: React.FC<TeachingSectionProps> = ({
   onPreviousStep,
   chatHistories,
   onSendMessage,
+  onCancelMessage,
   isChatLoading,
   activeChatKey,
   initialSources,
+  lessonTitle = 'Radiology Lesson',
+  isGenerating = false,
+  canSearchWeb = true,
+  canSearchDocuments = false,
+  canAttachImages = false,
+  quizzes,
+  quizLoadingSection,
+  onGenerateQuiz,
+  onAnswerQuiz,
+  onRetakeQuiz,
+  pdfFiles = [],
+  pdfDocuments = [],
+  examQuestion,
+  revisions = {},
+  revisingTarget = null,
+  onRevise,
+  onRevertRevision,
+  onCancelRevision,
+  onEdit,
+  onAddSources,
+  onSendLessonMessage,
+  onAddChatAnswer,
 }) => {
   const [isDownloading, setIsDownloading] = useState(false);
+  const [docxMode, setDocxMode] = useState<DocxExportMode>('lesson');
+  const [isQuizOpen, setIsQuizOpen] = useState(false);
+  const [isExportingCards, setIsExportingCards] = useState(false);
+  const [isExportingPdf, setIsExportingPdf] = useState(false);
+  const [viewedPage, setViewedPage] = useState<{ pdfIndex: number; pageNumber: number } | null>(null);
+  const [narratedItem, setNarratedItem] = useState<NarrationItem | null>(null);
+  const narratedRef = useRef<HTMLElement | null>(null);
+
+  const openChatSource = (source: GroundingSource) => {
+    const pageNumber = pageOfSource(source);
+    if (pageNumber !== undefined) {
+      setViewedPage({ pdfIndex: pdfIndexOfSource(source), pageNumber });
+    }
+  };
   const currentStep = teachingSteps[currentStepIndex];
+  const currentQuiz = currentStep ? quizzes[sectionKey(currentStep, currentStepIndex)] : undefined;
+  const isQuizLoading = quizLoadingSection === currentStepIndex;
+
+  useEffect(() => {
+    setIsQuizOpen(false);
+  }, [currentStepIndex]);
+
+  // Reading continues into the next section, which is then shown.
+  const handleNarrationItem = (item: NarrationItem | null) => {
+    setNarratedItem(item);
+    if (item && !examQuestion && item.sectionIndex > currentStepIndex) onNextStep();
+  };
+
+  useEffect(() => {
+    narratedRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [narratedItem]);
+
+  const isNarrating = (kind: NarrationItem['kind'], sectionIndex: number, qaIndex?: number) =>
+    narratedItem?.kind === kind && narratedItem.sectionIndex === sectionIndex && narratedItem.qaIndex === qaIndex;
+
+  const handleQuizMe = () => {
+    setIsQuizOpen(true);
+    if (!currentQuiz) {
+      onGenerateQuiz(currentStepIndex);
+    }
+  };
   
   const handleDownloadDocx = async () => {
     if (!teachingSteps.length) return;
+    const includeLesson = docxMode !== 'chats-only';
+    const includeChats = docxMode !== 'lesson';
+    // Chats of pairs no longer in the lesson are kept for undo but not exported.
+    const lessonChats = teachingSteps.flatMap((step, sectionIndex) =>
+      step.qa_pairs.map((qa, qaIndex) => chatHistories[pairKey(qa, sectionIndex, qaIndex)] ?? []));
+    const hasChats = lessonChats.some(chat => chat.length > 0);
+    if (docxMode === 'chats-only' && !hasChats) {
+      window.alert("There are no follow-up chats to export yet.");
+      return;
+    }
     setIsDownloading(true);
 
     try {
       const children: (Paragraph | Table)[] = [];
-
-      teachingSteps.forEach(step => {
-        children.push(new Paragraph({ text: step.section_title, heading: HeadingLevel.HEADING_1 }));
-        step.qa_pairs.forEach(qa => {
-          children.push(new Paragraph({ text: qa.question, heading: HeadingLevel.HEADING_2 }));
-          const answerElements = createDocxElementsFromMarkdown(qa.answer);
-          children.push(...answerElements);
-          children.push(new Paragraph({ text: "" })); // Spacer
-        });
-      });
+      if (examQuestion) {
+        children.push(new Paragraph({ text: examQuestion, heading: HeadingLevel.TITLE }));
+      }
 
       const allSources = new Map<string, GroundingSource>();
-      if (initialSources) {
+      if (initialSources && includeLesson) {
           initialSources.forEach(source => {
               if (!allSources.has(source.uri)) {
                   allSources.set(source.uri, source);
               }
           });
       }
-      Object.values(chatHistories).forEach(history => {
+      lessonChats.forEach(history => {
           history.forEach(message => {
               if (message.role === 'model' && message.sources) {
                   message.sources.forEach(source => {
@@ -190,14 +224,51 @@ const TeachingSection: React.FC<TeachingSectionProps> = ({
               }
           });
       });
+      const sourceNumbers = new Map(Array.from(allSources.keys()).map((uri, index) => [uri, index + 1]));
+
+      teachingSteps.forEach((step, sectionIndex) => {
+        const chatKeys = step.qa_pairs.map((qa, qaIndex) => pairKey(qa, sectionIndex, qaIndex));
+        if (!includeLesson && !chatKeys.some(key => chatHistories[key]?.length)) return;
+
+        children.push(new Paragraph({ text: step.section_title, heading: HeadingLevel.HEADING_1 }));
+        step.qa_pairs.forEach((qa, qaIndex) => {
+          const chat = chatHistories[chatKeys[qaIndex]] || [];
+          if (!includeLesson && chat.length === 0) return;
+
+          children.push(new Paragraph({ text: qa.question, heading: HeadingLevel.HEADING_2 }));
+          if (includeLesson) {
+            const answerElements = createDocxElementsFromMarkdown(qa.answer);
+            children.push(...answerElements);
+            const citationNumbers = (qa.citations ?? [])
+              .map(number => ({
+                number: initialSources[number - 1] ? sourceNumbers.get(initialSources[number - 1].uri) ?? 0 : 0,
+                pages: qa.citedPages?.[number],
+              }))
+              .filter(citation => citation.number > 0);
+            if (citationNumbers.length > 0) {
+              children.push(new Paragraph({
+                children: citationNumbers.map(({ number, pages }) => new TextRun({ text: formatCitationLabel(number, pages), superScript: true, color: '0369A1' })),
+              }));
+            }
+          }
+          if (includeChats && chat.length > 0) {
+            children.push(...createChatThreadElements(chat, sourceNumbers));
+          }
+          children.push(new Paragraph({ text: "" })); // Spacer
+        });
+      });
 
       if (allSources.size > 0) {
           children.push(new Paragraph({ text: "" }));
           children.push(new Paragraph({ text: "Sources", heading: HeadingLevel.HEADING_1 }));
-          Array.from(allSources.values()).forEach(source => {
+          Array.from(allSources.values()).forEach((source, index) => {
+              if (isDocumentSource(source)) {
+                  children.push(new Paragraph({ children: [new TextRun({ text: `[${index + 1}] ${source.title}` })] }));
+                  return;
+              }
               children.push(new Paragraph({
                   children: [
-                      new TextRun({ text: `${source.title || 'Source'}: ` }),
+                      new TextRun({ text: `[${index + 1}] ${source.title || 'Source'}: ` }),
                       new ExternalHyperlink({
                           children: [
                             new TextRun({
@@ -208,47 +279,16 @@ const TeachingSection: React.FC<TeachingSectionProps> = ({
                           link: source.uri,
                       }),
                   ],
-                  bullet: { level: 0 },
               }));
           });
       }
 
 
-      const doc = new Document({
-        styles: {
-            characterStyles: [
-                {
-                    id: 'Hyperlink',
-                    name: 'Hyperlink',
-                    basedOn: 'DefaultParagraphFont',
-                    run: {
-                        color: '0000FF',
-                        underline: {
-                            type: 'single',
-                            color: '0000FF',
-                        },
-                    },
-                },
-            ],
-        },
-        numbering: {
-          config: [{
-            reference: "default-numbering",
-            levels: [{ level: 0, format: "decimal", text: "%1." }],
-          }],
-        },
-        sections: [{ children }],
-      });
+      const doc = createDocxDocument(children);
 
       const blob = await Packer.toBlob(doc);
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = 'radiology-lesson.docx';
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      const suffix = docxMode === 'lesson' ? '' : docxMode === 'chats-only' ? ' chats' : ' with chats';
+      downloadBlob(blob, toFileName(`${lessonTitle}${suffix}`, 'docx'));
 
     } catch (error) {
       console.error("Failed to generate DOCX", error);
@@ -258,6 +298,191 @@ const TeachingSection: React.FC<TeachingSectionProps> = ({
   };
 
 
+  const handleExportCards = async (format: 'apkg' | DelimitedFormat) => {
+    if (!teachingSteps.length) return;
+    setIsExportingCards(true);
+    const lesson = { title: lessonTitle, teachingSteps, sources: initialSources };
+    try {
+      if (format === 'apkg') {
+        downloadBlob(await buildAnkiPackage(lesson), toFileName(lessonTitle, 'apkg'));
+      } else {
+        // The byte-order mark makes Excel open the file as UTF-8.
+        const text = '\uFEFF' + buildDelimitedExport(lesson, format);
+        const mimeType = format === 'csv' ? 'text/csv' : 'text/tab-separated-values';
+        downloadBlob(new Blob([text], { type: `${mimeType};charset=utf-8` }), toFileName(lessonTitle, format));
+      }
+    } catch (error) {
+      console.error("Failed to export flashcards", error);
+      window.alert("The flashcards could not be exported. Check your connection (the Anki exporter loads a database engine on first use) and try again.");
+    } finally {
+      setIsExportingCards(false);
+    }
+  };
+
+  const handleDownloadPdf = async (includeChats: boolean) => {
+    if (!teachingSteps.length) return;
+    setIsExportingPdf(true);
+    try {
+      const blob = await buildLessonPdf(
+        { title: lessonTitle, teachingSteps, sources: initialSources, chatHistories },
+        { includeChats }
+      );
+      downloadBlob(blob, toFileName(lessonTitle, 'pdf'));
+    } catch (error) {
+      console.error("Failed to generate PDF", error);
+      window.alert("The PDF could not be generated. Please try again.");
+    } finally {
+      setIsExportingPdf(false);
+    }
+  };
+
+  // Template headings matched to the generated sections; sections the model titled differently
+  // are shown after them under their own titles.
+  const examSections = examQuestion
+    ? [
+        ...EXAM_ANSWER_SECTIONS.map(({ title }) => ({
+          title,
+          sectionIndex: teachingSteps.findIndex(step => step.section_title.trim().toLowerCase() === title.toLowerCase()),
+        })),
+        ...teachingSteps
+          .map((step, sectionIndex) => ({ title: step.section_title, sectionIndex }))
+          .filter(({ title }) => !EXAM_ANSWER_SECTIONS.some(template => template.title.toLowerCase() === title.trim().toLowerCase())),
+      ]
+    : [];
+
+  const canRevise = !!onRevise && !isGenerating && !isChatLoading && revisingTarget === null;
+
+  const renderSectionRevisionTools = (sectionIndex: number, compact = false) => {
+    if (!onRevise) return null;
+    const sectionId = sectionKey(teachingSteps[sectionIndex], sectionIndex);
+    const sectionRevisions = revisions[sectionId] ?? [];
+    const lastRevision = sectionRevisions[sectionRevisions.length - 1];
+    return (
+      <div className="flex flex-wrap items-center gap-2">
+        <RevisionMenu
+          actions={SECTION_REVISION_ACTIONS}
+          onSelect={(action) => onRevise(sectionIndex, action)}
+          label="Revise section"
+          disabled={!canRevise}
+          isRevising={revisingTarget === sectionId}
+          onCancel={onCancelRevision}
+          compact={compact}
+        />
+        {lastRevision && onRevertRevision && (
+          <button
+            type="button"
+            onClick={() => onRevertRevision(sectionIndex)}
+            disabled={revisingTarget !== null}
+            className={`${compact ? 'text-xs' : 'text-sm'} text-slate-400 hover:text-sky-400 underline disabled:opacity-50`}
+            title={`Restore this section as it was before the change made ${new Date(lastRevision.revisedAt).toLocaleString()}`}
+          >
+            Undo: {describeRevision(lastRevision)}
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  const renderQaPair = (qa: QuestionAnswerPair, sectionIndex: number, qaIndex: number, showQuestion = true, compact = false) => {
+    const chatKey = pairKey(qa, sectionIndex, qaIndex);
+    const parsedAnswer = marked.parse(qa.answer || '', { breaks: true, gfm: true });
+    const isQuestionNarrated = isNarrating('question', sectionIndex, qaIndex);
+    // While an answer is read aloud it is shown as plain sentences, so the current one can be highlighted.
+    const narratedSentence = isNarrating('sentence', sectionIndex, qaIndex) ? narratedItem!.sentenceIndex : undefined;
+
+    return (
+      <div key={chatKey} className="p-4 border-l-4 border-slate-700">
+        {showQuestion && (
+          <h3
+            ref={isQuestionNarrated ? narratedRef : undefined}
+            className={`${compact ? 'text-xl' : 'text-2xl'} font-semibold text-teal-400 mb-4 ${isQuestionNarrated ? 'bg-amber-400/20 rounded' : ''}`}
+          >
+            {qa.question}
+          </h3>
+        )}
+        {narratedSentence !== undefined ? (
+          <p className={`${compact ? 'text-base' : 'text-lg'} text-slate-300 leading-relaxed`}>
+            {answerSentences(qa.answer).map((sentence, index) => (
+              <span
+                key={index}
+                ref={index === narratedSentence ? narratedRef : undefined}
+                className={index === narratedSentence ? 'bg-amber-400/25 text-white rounded' : ''}
+              >
+                {sentence}{' '}
+              </span>
+            ))}
+          </p>
+        ) : (
+        <div 
+          className={`prose prose-invert ${compact ? '' : 'prose-lg'} max-w-none prose-p:text-slate-300 prose-p:leading-relaxed`}
+          dangerouslySetInnerHTML={{ __html: parsedAnswer as string }}
+        />
+        )}
+        {qa.citations && qa.citations.length > 0 && (
+          <div className="mt-2 flex flex-wrap gap-1" aria-label="Sources for this answer">
+            {qa.citations.filter(number => initialSources[number - 1]).map(number => {
+              const source = initialSources[number - 1];
+              const pages = qa.citedPages?.[number];
+              return (
+                <sup key={number} className="font-medium text-sky-400">
+                  <a
+                    href={`#lesson-source-${number}`}
+                    title={source.title || source.uri}
+                    className="no-underline hover:underline"
+                  >
+                    [{number}
+                  </a>
+                  {pages && pages.length > 0 && (
+                    <>
+                      , {pages.length > 1 ? 'pp.' : 'p.'}{' '}
+                      {pages.map((page, pageIndex) => (
+                        <React.Fragment key={page}>
+                          {pageIndex > 0 && ', '}
+                          <button
+                            type="button"
+                            onClick={() => setViewedPage({ pdfIndex: pdfIndexOfSource(source), pageNumber: page })}
+                            className="hover:underline"
+                            title={`Open ${source.title} at page ${page}`}
+                          >
+                            {page}
+                          </button>
+                        </React.Fragment>
+                      ))}
+                    </>
+                  )}
+                  ]
+                </sup>
+              );
+            })}
+          </div>
+        )}
+        {onRevise && (
+          <div className="mt-3">
+            <RevisionMenu
+              actions={PAIR_REVISION_ACTIONS}
+              onSelect={(action) => onRevise(sectionIndex, action, qaIndex)}
+              label="Revise answer"
+              disabled={!canRevise}
+              isRevising={revisingTarget === chatKey}
+              onCancel={onCancelRevision}
+              compact
+            />
+          </div>
+        )}
+        <ChatSection 
+          chatHistory={chatHistories[chatKey] || []}
+          onSendMessage={(message, answerMode, images) => onSendMessage(sectionIndex, qaIndex, message, answerMode, images)}
+          isChatLoading={isChatLoading && activeChatKey === chatKey}
+          onCancel={onCancelMessage}
+          canSearchWeb={canSearchWeb}
+          canSearchDocuments={canSearchDocuments}
+          canAttachImages={canAttachImages}
+          onOpenSource={openChatSource}
+        />
+      </div>
+    );
+  };
+
   if (!currentStep) {
     return <div className="p-6 bg-slate-800 rounded-xl shadow-xl text-center text-slate-400">No teaching content available yet. Submit content to begin.</div>;
   }
@@ -266,76 +491,208 @@ const TeachingSection: React.FC<TeachingSectionProps> = ({
     <div className="bg-slate-800 rounded-xl shadow-2xl flex flex-col overflow-hidden ring-1 ring-slate-700/50">
       <div className="flex flex-col flex-grow p-8 md:p-12">
         <div className="flex justify-between items-start mb-8 pb-6 border-b-2 border-sky-800/50 gap-4">
-            <h2 className="text-4xl font-bold text-sky-400">
-              {currentStep.section_title}
-            </h2>
-            <button
-              onClick={handleDownloadDocx}
-              disabled={isDownloading}
-              className="flex-shrink-0 flex items-center px-6 py-3 bg-sky-600 text-white font-bold text-base rounded-lg hover:bg-sky-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-slate-800 focus:ring-sky-500 disabled:bg-slate-600 disabled:cursor-not-allowed transition-colors"
-              aria-label="Download lesson as DOCX"
-              title="Download entire lesson as a Word document"
-            >
-              {isDownloading ? (
-                <>
-                  <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                  </svg>
-                  Downloading...
-                </>
-              ) : (
-                <>
-                  <DownloadIcon className="w-6 h-6 mr-3" />
-                  Download Lesson (.docx)
-                </>
+            {examQuestion ? (
+              <div>
+                <p className="text-sm font-semibold uppercase tracking-wide text-slate-400 mb-2">Model answer</p>
+                <h2 className="text-3xl font-bold text-sky-400">{examQuestion}</h2>
+              </div>
+            ) : (
+              <h2
+                ref={isNarrating('title', currentStepIndex) ? narratedRef : undefined}
+                className={`text-4xl font-bold text-sky-400 ${isNarrating('title', currentStepIndex) ? 'bg-amber-400/20 rounded' : ''}`}
+              >
+                {currentStep.section_title}
+              </h2>
+            )}
+            <div className="flex-shrink-0 flex flex-col sm:flex-row sm:flex-wrap sm:justify-end gap-2">
+              {onEdit && !isGenerating && (
+              <button
+                onClick={onEdit}
+                className="flex items-center justify-center px-6 py-3 bg-slate-600 text-white font-bold text-base rounded-lg hover:bg-slate-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-slate-800 focus:ring-sky-500 transition-colors"
+                title="Correct, add, remove or reorder sections and questions"
+              >
+                Edit Lesson
+              </button>
               )}
-            </button>
+              {onAddSources && !isGenerating && (
+              <button
+                onClick={onAddSources}
+                className="flex items-center justify-center px-6 py-3 bg-slate-600 text-white font-bold text-base rounded-lg hover:bg-slate-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-slate-800 focus:ring-sky-500 transition-colors"
+                title="Work new URLs, PDFs, text or a search into this lesson"
+              >
+                Add Sources
+              </button>
+              )}
+              {!examQuestion && (
+              <button
+                onClick={handleQuizMe}
+                disabled={isGenerating || quizLoadingSection !== null || (isQuizOpen && !!currentQuiz)}
+                className="flex items-center justify-center px-6 py-3 bg-slate-600 text-white font-bold text-base rounded-lg hover:bg-slate-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-slate-800 focus:ring-sky-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                title="Test yourself with multiple-choice questions written from this section"
+              >
+                {currentQuiz ? 'Show Quiz' : 'Quiz Me'}
+              </button>
+              )}
+              <select
+                value={docxMode}
+                onChange={(e) => setDocxMode(e.target.value as DocxExportMode)}
+                disabled={isDownloading || isGenerating}
+                aria-label="Word export contents"
+                title="Choose what the Word document contains"
+                className="px-3 py-3 bg-slate-700 text-slate-200 text-sm rounded-lg border border-slate-600 focus:outline-none focus:ring-2 focus:ring-sky-500 disabled:opacity-50"
+              >
+                {DOCX_EXPORT_MODES.map(mode => (
+                  <option key={mode.value} value={mode.value}>{mode.label}</option>
+                ))}
+              </select>
+              <button
+                onClick={handleDownloadDocx}
+                disabled={isDownloading || isGenerating}
+                className="flex items-center justify-center px-6 py-3 bg-sky-600 text-white font-bold text-base rounded-lg hover:bg-sky-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-slate-800 focus:ring-sky-500 disabled:bg-slate-600 disabled:cursor-not-allowed transition-colors"
+                aria-label="Download lesson as DOCX"
+                title="Download entire lesson as a Word document"
+              >
+                {isDownloading ? (
+                  <>
+                    <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                    </svg>
+                    Downloading...
+                  </>
+                ) : (
+                  <>
+                    <DownloadIcon className="w-6 h-6 mr-3" />
+                    Download Lesson (.docx)
+                  </>
+                )}
+              </button>
+              <select
+                value=""
+                onChange={(e) => handleDownloadPdf(e.target.value === 'with-chats')}
+                disabled={isExportingPdf || isGenerating}
+                aria-label="Download lesson as PDF"
+                title="Download a printable PDF with a title page, contents and sources"
+                className="px-4 py-3 bg-sky-600 text-white font-bold text-base rounded-lg hover:bg-sky-700 focus:outline-none focus:ring-2 focus:ring-sky-500 disabled:bg-slate-600 disabled:cursor-not-allowed transition-colors"
+              >
+                <option value="" disabled>{isExportingPdf ? 'Creating PDF...' : 'Download Lesson (.pdf)'}</option>
+                <option value="lesson">Lesson only</option>
+                <option value="with-chats">Lesson with follow-up chats</option>
+              </select>
+              <select
+                value=""
+                onChange={(e) => handleExportCards(e.target.value as 'apkg' | DelimitedFormat)}
+                disabled={isExportingCards || isGenerating}
+                aria-label="Export flashcards"
+                title="Export every question and answer as flashcards"
+                className="px-4 py-3 bg-slate-600 text-white font-bold text-base rounded-lg hover:bg-slate-500 focus:outline-none focus:ring-2 focus:ring-sky-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                <option value="" disabled>{isExportingCards ? 'Exporting...' : 'Export Cards'}</option>
+                <option value="apkg">Anki deck (.apkg)</option>
+                <option value="csv">CSV (spreadsheets)</option>
+                <option value="tsv">TSV (Quizlet)</option>
+              </select>
+            </div>
         </div>
+
+        {isNarrationSupported && !isGenerating && (
+          <div className="mb-6">
+            <NarrationControls
+              sections={teachingSteps}
+              startSectionIndex={examQuestion ? 0 : currentStepIndex}
+              onItemChange={handleNarrationItem}
+            />
+          </div>
+        )}
+
+        {!examQuestion && onRevise && (
+          <div className="mb-6">{renderSectionRevisionTools(currentStepIndex)}</div>
+        )}
+
+        {isQuizOpen && (
+          <QuizPanel
+            quiz={currentQuiz}
+            isLoading={isQuizLoading}
+            onAnswer={(questionIndex, optionIndex) => onAnswerQuiz(currentStepIndex, questionIndex, optionIndex)}
+            onRetake={() => onRetakeQuiz(currentStepIndex)}
+            onRegenerate={() => onGenerateQuiz(currentStepIndex)}
+            onClose={() => setIsQuizOpen(false)}
+          />
+        )}
           
         <div className="flex-grow overflow-y-auto pr-4">
-            <div className="space-y-12">
-              {currentStep.qa_pairs.map((qa, qaIndex) => {
-                const chatKey = `${currentStepIndex}-${qaIndex}`;
-                const parsedAnswer = marked.parse(qa.answer || '', { breaks: true, gfm: true });
-
+          {examQuestion ? (
+            <div className="space-y-10">
+              {examSections.map(({ title, sectionIndex }) => {
+                const section = sectionIndex === -1 ? undefined : teachingSteps[sectionIndex];
                 return (
-                  <div key={qaIndex} className="p-4 border-l-4 border-slate-700">
-                     <h3 className="text-2xl font-semibold text-teal-400 mb-4">
-                       {qa.question}
-                     </h3>
-                     <div 
-                        className="prose prose-invert prose-lg max-w-none prose-p:text-slate-300 prose-p:leading-relaxed"
-                        dangerouslySetInnerHTML={{ __html: parsedAnswer as string }}
-                     />
-                     <ChatSection 
-                        chatHistory={chatHistories[chatKey] || []}
-                        onSendMessage={(message, useGoogleSearch) => onSendMessage(currentStepIndex, qaIndex, message, useGoogleSearch)}
-                        isChatLoading={isChatLoading && activeChatKey === chatKey}
-                     />
-                  </div>
+                  <section key={title}>
+                    <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+                      <h3 className="text-2xl font-semibold text-sky-300">{title}</h3>
+                      {section && renderSectionRevisionTools(sectionIndex, true)}
+                    </div>
+                    {section ? (
+                      <div className="space-y-4">
+                        {section.qa_pairs.map((qa, qaIndex) =>
+                          renderQaPair(qa, sectionIndex, qaIndex, qa.question.trim().toLowerCase() !== title.toLowerCase(), true))}
+                      </div>
+                    ) : (
+                      <p className="text-sm text-slate-500">{isGenerating ? 'Still being written...' : 'Not covered in this answer.'}</p>
+                    )}
+                  </section>
                 );
               })}
             </div>
+          ) : (
+            <div className="space-y-12">
+              {currentStep.qa_pairs.map((qa, qaIndex) => renderQaPair(qa, currentStepIndex, qaIndex))}
+            </div>
+          )}
         </div>
         
+        <QuizResultsSummary teachingSteps={teachingSteps} quizzes={quizzes} />
+
+        {onSendLessonMessage && !isGenerating && (
+          <LessonChatPanel
+            chatHistory={chatHistories[LESSON_CHAT_KEY] || []}
+            onSendMessage={onSendLessonMessage}
+            isChatLoading={isChatLoading && activeChatKey === LESSON_CHAT_KEY}
+            onCancel={onCancelMessage}
+            canSearchWeb={canSearchWeb}
+            canSearchDocuments={canSearchDocuments}
+            canAttachImages={canAttachImages}
+            onOpenSource={openChatSource}
+            sectionTitles={teachingSteps.map(step => step.section_title)}
+            currentSectionIndex={currentStepIndex}
+            onAddAnswer={onAddChatAnswer}
+          />
+        )}
+
         {initialSources.length > 0 && (
           <div className="mt-8 pt-6 border-t border-slate-700">
             <h3 className="text-xl font-semibold text-slate-300 mb-4">Sources</h3>
             <p className="text-sm text-slate-400 mb-4">The following sources were used to generate this lesson content:</p>
             <ul className="space-y-2">
               {initialSources.map((source, index) => (
-                <li key={index} className="flex items-start text-sm">
-                  <LinkIcon className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0 text-sky-400" />
-                  <a href={source.uri} target="_blank" rel="noopener noreferrer" className="text-sky-400 hover:underline break-all">
-                    {source.title || source.uri}
-                  </a>
+                <li key={index} id={`lesson-source-${index + 1}`} className="flex items-start text-sm scroll-mt-4">
+                  <span className="text-sky-400 font-semibold w-8 flex-shrink-0">[{index + 1}]</span>
+                  {isDocumentSource(source) ? (
+                    <span className="text-slate-300 break-all">{source.title}</span>
+                  ) : (
+                    <>
+                      <LinkIcon className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0 text-sky-400" />
+                      <a href={source.uri} target="_blank" rel="noopener noreferrer" className="text-sky-400 hover:underline break-all">
+                        {source.title || source.uri}
+                      </a>
+                    </>
+                  )}
                 </li>
               ))}
             </ul>
           </div>
         )}
 
+          {!examQuestion && (
           <div className="flex justify-between items-center pt-6 mt-8 border-t border-slate-700">
             <button
               onClick={onPreviousStep}
@@ -348,7 +705,7 @@ const TeachingSection: React.FC<TeachingSectionProps> = ({
             </button>
             
             <span className="text-sm text-slate-500" aria-live="polite">
-              Step {currentStepIndex + 1} / {teachingSteps.length}
+              Step {currentStepIndex + 1} / {teachingSteps.length}{isGenerating && ' (more on the way)'}
             </span>
             
             <button
@@ -361,7 +718,17 @@ const TeachingSection: React.FC<TeachingSectionProps> = ({
               <ArrowRightIcon className="w-5 h-5 ml-2" />
             </button>
           </div>
+          )}
       </div>
+      {viewedPage && viewedPage.pdfIndex !== -1 && (
+        <PdfPageViewer
+          title={pdfDocuments[viewedPage.pdfIndex]?.name ?? pdfFiles[viewedPage.pdfIndex]?.name ?? 'Uploaded PDF'}
+          file={pdfFiles[viewedPage.pdfIndex]}
+          document={pdfDocuments[viewedPage.pdfIndex]}
+          initialPage={viewedPage.pageNumber}
+          onClose={() => setViewedPage(null)}
+        />
+      )}
     </div>
   );
 };
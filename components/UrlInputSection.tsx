@@ -1,22 +1,49 @@
-import React, { useState, useCallback, useRef } from 'react';
+import React, { useState, useCallback, useRef, useEffect } from 'react';
 import { AcademicCapIcon, UploadIcon, MicrophoneIcon } from './IconComponents';
+import { LearningContext, ProviderId, ImageAttachment, PromptProfile } from '../types';
+import { MODEL_PROVIDERS, getModelProvider, getStoredProviderId, storeProviderId } from '../services/modelProvider';
+import { getOpenAiCompatibleSettings, saveOpenAiCompatibleSettings, OpenAiCompatibleSettings } from '../services/openAiCompatibleService';
+import { getRequestSettings, saveRequestSettings, clampRequestSetting, REQUEST_SETTING_RANGES, RequestSettings } from '../services/requestRunner';
+import { getPdfPageCount, parsePageRange, PageRangeError } from '../services/pdfText';
+import { getPromptProfiles, savePromptProfiles, getStoredPromptProfileId, storePromptProfileId } from '../services/promptProfiles';
+import ImageAttachmentPicker from './ImageAttachmentPicker';
+import PromptProfileEditor from './PromptProfileEditor';
 
 interface UrlInputSectionProps {
-  onStartLearning: (context: { urls: string[]; pdfFiles: File[]; searchQuery: string; focusTopic: string; model: string; }) => void;
+  onStartLearning: (context: LearningContext) => void;
+  onCancel?: () => void;
   isLoading: boolean;
 }
 
 const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
 const isSpeechRecognitionSupported = !!SpeechRecognition;
 
-const UrlInputSection: React.FC<UrlInputSectionProps> = ({ onStartLearning, isLoading }) => {
-  const [sources, setSources] = useState({ url: true, pdf: false, search: false });
+const UrlInputSection: React.FC<UrlInputSectionProps> = ({ onStartLearning, onCancel, isLoading }) => {
+  const [sources, setSources] = useState(() => {
+    const { urlContext } = getModelProvider(getStoredProviderId()).capabilities;
+    return { url: urlContext, pdf: false, image: false, text: !urlContext, search: false };
+  });
   const [urls, setUrls] = useState<string[]>(['']);
   const [pdfFiles, setPdfFiles] = useState<File[]>([]);
+  // One entry per file in `pdfFiles`; an empty range means all pages.
+  const [pdfPageRanges, setPdfPageRanges] = useState<string[]>([]);
+  // null when pdf.js could not read the file; it is then sent to the model as-is.
+  const [pdfPageCounts, setPdfPageCounts] = useState<Map<File, number | null>>(new Map());
+  const countedPdfsRef = useRef(new WeakSet<File>());
+  const [images, setImages] = useState<ImageAttachment[]>([]);
+  const [pastedText, setPastedText] = useState<string>('');
   const [searchQuery, setSearchQuery] = useState<string>('');
   const [focusTopic, setFocusTopic] = useState<string>('');
+  const [lessonType, setLessonType] = useState<'lesson' | 'exam'>('lesson');
+  const [examQuestion, setExamQuestion] = useState<string>('');
+  const [providerId, setProviderId] = useState<ProviderId>(getStoredProviderId);
   // Fix: Update default model to gemini-2.5-flash as per guidelines and remove prohibited models.
-  const [model, setModel] = useState<string>('gemini-2.5-pro');
+  const [model, setModel] = useState<string>(() => getModelProvider(getStoredProviderId()).models[0]?.value ?? '');
+  const [openAiSettings, setOpenAiSettings] = useState<OpenAiCompatibleSettings>(getOpenAiCompatibleSettings);
+  const [streamResponse, setStreamResponse] = useState<boolean>(true);
+  const [requestSettings, setRequestSettings] = useState<RequestSettings>(getRequestSettings);
+  const [promptProfiles, setPromptProfiles] = useState<PromptProfile[]>(getPromptProfiles);
+  const [promptProfileId, setPromptProfileId] = useState<string>(getStoredPromptProfileId);
   const [inputError, setInputError] = useState<string>('');
   const [listeningField, setListeningField] = useState<null | 'search' | 'focus'>(null);
   const recognitionRef = useRef<any | null>(null);
@@ -51,14 +78,63 @@ const UrlInputSection: React.FC<UrlInputSectionProps> = ({ onStartLearning, isLo
     const files = e.target.files ? Array.from(e.target.files) : [];
     if (files.length > 0) {
       setPdfFiles(prevFiles => [...prevFiles, ...files]);
+      setPdfPageRanges(prevRanges => [...prevRanges, ...files.map(() => '')]);
       if (inputError) setInputError('');
     }
   };
 
+  useEffect(() => {
+    pdfFiles.filter(file => !countedPdfsRef.current.has(file)).forEach(file => {
+      countedPdfsRef.current.add(file);
+      getPdfPageCount(file)
+        .catch(() => null)
+        .then(count => setPdfPageCounts(prev => new Map(prev).set(file, count)));
+    });
+  }, [pdfFiles]);
+
   const handleRemovePdf = (indexToRemove: number) => {
     setPdfFiles(prevFiles => prevFiles.filter((_, index) => index !== indexToRemove));
+    setPdfPageRanges(prevRanges => prevRanges.filter((_, index) => index !== indexToRemove));
+  };
+
+  const handlePageRangeChange = (index: number, value: string) => {
+    setPdfPageRanges(prevRanges => prevRanges.map((range, i) => (i === index ? value : range)));
+    if (inputError) setInputError('');
+  };
+
+
+  const provider = getModelProvider(providerId);
+  const isSourceSupported = (source: keyof typeof sources): boolean => {
+    switch (source) {
+      case 'url': return provider.capabilities.urlContext;
+      case 'pdf': return provider.capabilities.pdfInput;
+      case 'image': return provider.capabilities.imageInput;
+      case 'search': return provider.capabilities.webSearch;
+      default: return true;
+    }
   };
 
+  const handleProviderChange = (id: ProviderId) => {
+    const nextProvider = getModelProvider(id);
+    setProviderId(id);
+    storeProviderId(id);
+    setModel(nextProvider.models[0]?.value ?? '');
+    // Drop any selected sources the new provider cannot use.
+    setSources(prev => ({
+      url: prev.url && nextProvider.capabilities.urlContext,
+      pdf: prev.pdf && nextProvider.capabilities.pdfInput,
+      image: prev.image && nextProvider.capabilities.imageInput,
+      text: prev.text || !nextProvider.capabilities.urlContext,
+      search: prev.search && nextProvider.capabilities.webSearch,
+    }));
+    setInputError('');
+  };
+
+  const handleOpenAiSettingChange = (key: keyof OpenAiCompatibleSettings, value: string) => {
+    const next = { ...openAiSettings, [key]: value };
+    setOpenAiSettings(next);
+    saveOpenAiCompatibleSettings(next);
+  };
 
   const handleSourceToggle = (source: keyof typeof sources) => {
     setSources(prev => ({ ...prev, [source]: !prev[source] }));
@@ -121,9 +197,15 @@ const UrlInputSection: React.FC<UrlInputSectionProps> = ({ onStartLearning, isLo
     event.preventDefault();
     setInputError('');
 
-    const { url: useUrl, pdf: usePdf, search: useSearch } = sources;
+    const { url: useUrl, pdf: usePdf, image: useImage, text: useText, search: useSearch } = sources;
 
-    if (!useUrl && !usePdf && !useSearch) {
+    const isExam = lessonType === 'exam';
+    if (isExam && !examQuestion.trim()) {
+      setInputError("Please enter the exam question to answer.");
+      return;
+    }
+    // An exam question can be answered without sources.
+    if (!isExam && !useUrl && !usePdf && !useImage && !useText && !useSearch) {
       setInputError("Please select at least one content source to merge.");
       return;
     }
@@ -144,26 +226,79 @@ const UrlInputSection: React.FC<UrlInputSectionProps> = ({ onStartLearning, isLo
       setInputError("Please upload at least one PDF file.");
       hasError = true;
     }
+    if (usePdf) {
+      pdfFiles.forEach((file, index) => {
+        const pageCount = pdfPageCounts.get(file);
+        if (!pageCount || hasError) return;
+        try {
+          parsePageRange(pdfPageRanges[index] ?? '', pageCount);
+        } catch (error) {
+          if (!(error instanceof PageRangeError)) throw error;
+          setInputError(`${file.name}: ${error.message}`);
+          hasError = true;
+        }
+      });
+    }
+    if (useImage && images.length === 0) {
+      setInputError("Please add at least one image.");
+      hasError = true;
+    }
+    if (useText && !pastedText.trim()) {
+      setInputError("Please paste some text to learn from.");
+      hasError = true;
+    }
     if (useSearch && !searchQuery.trim()) {
       setInputError("Please enter a search query.");
       hasError = true;
     }
+    if (!model.trim()) {
+      setInputError("Please enter the name of the model to use.");
+      hasError = true;
+    }
 
     if (hasError) return;
 
     onStartLearning({
       urls: useUrl ? filteredUrls : [],
       pdfFiles: usePdf ? pdfFiles : [],
+      pdfPageRanges: usePdf ? pdfPageRanges.map(range => range.trim()) : [],
+      images: useImage ? images : [],
+      pastedTexts: useText ? [pastedText] : [],
       searchQuery: useSearch ? searchQuery : '',
-      focusTopic,
-      model,
+      focusTopic: isExam ? '' : focusTopic,
+      ...(isExam ? { examQuestion: examQuestion.trim() } : {}),
+      promptProfile: promptProfiles.find(profile => profile.id === promptProfileId) ?? promptProfiles[0],
+      model: model.trim(),
+      provider: providerId,
+      streamResponse,
     });
   };
   
+  const handlePromptProfilesChange = (profiles: PromptProfile[]) => {
+    setPromptProfiles(profiles);
+    savePromptProfiles(profiles);
+  };
+
+  const handlePromptProfileSelect = (id: string) => {
+    setPromptProfileId(id);
+    storePromptProfileId(id);
+  };
+
+  const handleRequestSettingChange = (field: keyof RequestSettings, value: string) => {
+    const parsed = parseInt(value, 10);
+    if (isNaN(parsed)) return;
+    const updated = { ...requestSettings, [field]: clampRequestSetting(field, parsed) };
+    setRequestSettings(updated);
+    saveRequestSettings(updated);
+  };
+
   const isSubmitDisabled = isLoading ||
-    (!sources.url && !sources.pdf && !sources.search) ||
+    (lessonType === 'exam' && !examQuestion.trim()) ||
+    (lessonType === 'lesson' && !sources.url && !sources.pdf && !sources.image && !sources.text && !sources.search) ||
     (sources.url && urls.every(u => !u.trim())) ||
     (sources.pdf && pdfFiles.length === 0) ||
+    (sources.image && images.length === 0) ||
+    (sources.text && !pastedText.trim()) ||
     (sources.search && !searchQuery.trim());
 
   return (
@@ -172,21 +307,65 @@ const UrlInputSection: React.FC<UrlInputSectionProps> = ({ onStartLearning, isLo
          <AcademicCapIcon className="w-8 h-8" />
          <h1>Answer generation for Radiology questions</h1>
       </div>
+      <div className="inline-flex rounded-md bg-slate-700 p-1" role="radiogroup" aria-label="What to generate">
+        {([['lesson', 'Teaching lesson'], ['exam', 'Exam question']] as const).map(([type, label]) => (
+          <button
+            key={type}
+            type="button"
+            role="radio"
+            aria-checked={lessonType === type}
+            onClick={() => {
+              setLessonType(type);
+              // Exam questions start without sources; any can be added back.
+              if (type === 'exam' && lessonType !== 'exam') {
+                setSources({ url: false, pdf: false, image: false, text: false, search: false });
+              }
+              setInputError('');
+            }}
+            className={`px-4 py-1.5 text-sm font-medium rounded transition-colors ${lessonType === type ? 'bg-sky-600 text-white' : 'text-slate-300 hover:bg-slate-600'}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
       <p className="text-sm text-slate-400">
-        Select one or more sources to merge into a single, interactive lesson.
+        {lessonType === 'lesson'
+          ? 'Select one or more sources to merge into a single, interactive lesson.'
+          : 'Get a structured model answer to one exam question (e.g. FRCR 2B or ABR oral): definition, epidemiology, imaging features by modality, differential diagnosis, management and key references. Sources are optional.'}
       </p>
 
+      {lessonType === 'exam' && (
+        <div>
+          <label htmlFor="exam-question" className="block text-sm font-medium text-slate-300 mb-1">
+            Exam Question <span className="text-red-500">*</span>
+          </label>
+          <textarea
+            id="exam-question"
+            value={examQuestion}
+            onChange={(e) => {
+              setExamQuestion(e.target.value);
+              if (inputError) setInputError('');
+            }}
+            placeholder="e.g., 'Discuss the imaging features of osteoid osteoma.'"
+            rows={3}
+            className="w-full p-3 bg-slate-700 border border-slate-600 rounded-md focus:ring-2 focus:ring-sky-500 focus:border-sky-500 outline-none transition-colors"
+          />
+        </div>
+      )}
+
       <div>
         <label className="block text-sm font-medium text-slate-300 mb-2">
-          Merge Content Sources
+          Merge Content Sources{lessonType === 'exam' && ' (optional)'}
         </label>
-        <div className="grid grid-cols-1 sm:grid-cols-3 rounded-md shadow-sm bg-slate-700 p-1 gap-1">
-          {(['url', 'pdf', 'search'] as const).map((source) => (
+        <div className="grid grid-cols-2 sm:grid-cols-5 rounded-md shadow-sm bg-slate-700 p-1 gap-1">
+          {(['url', 'pdf', 'image', 'text', 'search'] as const).map((source) => (
             <button
               key={source}
               type="button"
               onClick={() => handleSourceToggle(source)}
-              className={`w-full px-4 py-2 text-sm font-medium uppercase rounded-md transition-colors focus:outline-none focus:ring-2 focus:ring-sky-500 focus:ring-offset-2 focus:ring-offset-slate-800 ${
+              disabled={!isSourceSupported(source)}
+              title={isSourceSupported(source) ? undefined : `Not supported by ${provider.label}`}
+              className={`w-full px-4 py-2 text-sm font-medium uppercase rounded-md transition-colors focus:outline-none focus:ring-2 focus:ring-sky-500 focus:ring-offset-2 focus:ring-offset-slate-800 disabled:opacity-40 disabled:cursor-not-allowed ${
                 sources[source] ? 'bg-sky-600 text-white' : 'text-slate-300 hover:bg-slate-600'
               }`}
             >
@@ -245,20 +424,72 @@ const UrlInputSection: React.FC<UrlInputSectionProps> = ({ onStartLearning, isLo
               className="hidden"
             />
              {pdfFiles.length > 0 && (
-              <div className="mt-2 space-y-1 max-h-32 overflow-y-auto pr-2">
-                {pdfFiles.map((file, index) => (
-                  <div key={`${file.name}-${index}`} className="flex justify-between items-center text-sm p-2 bg-slate-700/50 rounded">
-                    <span className="text-slate-300 truncate" title={file.name}>{file.name}</span>
-                    <button type="button" onClick={() => handleRemovePdf(index)} className="ml-2 p-1 text-slate-400 hover:text-red-400 transition-colors flex-shrink-0" aria-label={`Remove ${file.name}`}>
-                      <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" /></svg>
-                    </button>
-                  </div>
-                ))}
+              <div className="mt-2 space-y-1 max-h-48 overflow-y-auto pr-2">
+                {pdfFiles.map((file, index) => {
+                  const pageCount = pdfPageCounts.get(file);
+                  return (
+                    <div key={`${file.name}-${index}`} className="flex justify-between items-center text-sm p-2 bg-slate-700/50 rounded">
+                      <span className="text-slate-300 truncate flex-grow" title={file.name}>{file.name}</span>
+                      <span className="ml-2 text-xs text-slate-400 flex-shrink-0">
+                        {pageCount === undefined ? 'Reading...' : pageCount === null ? 'Sent as file' : `${pageCount} page${pageCount === 1 ? '' : 's'}`}
+                      </span>
+                      {!!pageCount && (
+                        <input
+                          type="text"
+                          value={pdfPageRanges[index] ?? ''}
+                          onChange={(e) => handlePageRangeChange(index, e.target.value)}
+                          placeholder="All pages"
+                          title="Pages to use, e.g. 1-5, 9, 12-"
+                          aria-label={`Pages of ${file.name} to use`}
+                          className="ml-2 w-28 px-2 py-1 bg-slate-800 border border-slate-600 rounded text-slate-100 placeholder-slate-500 focus:ring-1 focus:ring-sky-500 focus:border-sky-500 flex-shrink-0"
+                        />
+                      )}
+                      <button type="button" onClick={() => handleRemovePdf(index)} className="ml-2 p-1 text-slate-400 hover:text-red-400 transition-colors flex-shrink-0" aria-label={`Remove ${file.name}`}>
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" /></svg>
+                      </button>
+                    </div>
+                  );
+                })}
               </div>
             )}
           </div>
         )}
 
+        {sources.image && (
+          <div>
+            <span className="block text-sm font-medium text-slate-300 mb-1">
+              Key Images <span className="text-red-500">*</span>
+            </span>
+            <ImageAttachmentPicker
+              attachments={images}
+              onChange={(next) => {
+                setImages(next);
+                if (inputError) setInputError('');
+              }}
+            />
+            <p className="mt-1 text-xs text-slate-500">DICOM files are converted to PNG in your browser; only the modality, body part, series and similar technical details are kept. Crop or remove any annotations that identify the patient.</p>
+          </div>
+        )}
+
+        {sources.text && (
+          <div>
+            <label htmlFor="pasted-text" className="block text-sm font-medium text-slate-300 mb-1">
+              Pasted Text <span className="text-red-500">*</span>
+            </label>
+            <textarea
+              id="pasted-text"
+              value={pastedText}
+              onChange={(e) => {
+                  setPastedText(e.target.value);
+                  if (inputError) setInputError('');
+              }}
+              placeholder="Paste an article, report or guideline excerpt here..."
+              rows={6}
+              className="w-full p-3 bg-slate-700 border border-slate-600 rounded-md focus:ring-2 focus:ring-sky-500 focus:border-sky-500 outline-none transition-colors"
+            />
+          </div>
+        )}
+
         {sources.search && (
           <div>
             <label htmlFor="search-query" className="block text-sm font-medium text-slate-300 mb-1">
@@ -292,6 +523,7 @@ const UrlInputSection: React.FC<UrlInputSectionProps> = ({ onStartLearning, isLo
           </div>
         )}
 
+         {lessonType === 'lesson' && (
          <div>
             <label htmlFor="focus-topic" className="block text-sm font-medium text-slate-300 mb-1">
               Focus on a specific question/ topic (optional)
@@ -320,22 +552,142 @@ const UrlInputSection: React.FC<UrlInputSectionProps> = ({ onStartLearning, isLo
             </div>
             <p className="mt-1 text-xs text-slate-500">The AI will concentrate on this topic when generating the lesson.</p>
           </div>
+         )}
+          <PromptProfileEditor
+            profiles={promptProfiles}
+            selectedId={promptProfileId}
+            onSelect={handlePromptProfileSelect}
+            onProfilesChange={handlePromptProfilesChange}
+            disabled={isLoading}
+          />
           <div>
-            <label htmlFor="model" className="block text-sm font-medium text-slate-300 mb-1">
-              Select AI Model
+            <label htmlFor="provider" className="block text-sm font-medium text-slate-300 mb-1">
+              Model Provider
             </label>
             <select
-              id="model"
-              value={model}
-              onChange={(e) => setModel(e.target.value)}
+              id="provider"
+              value={providerId}
+              onChange={(e) => handleProviderChange(e.target.value as ProviderId)}
               className="w-full p-3 bg-slate-700 border border-slate-600 rounded-md focus:ring-2 focus:ring-sky-500 focus:border-sky-500 outline-none transition-colors"
             >
-              <option value="gemini-2.5-pro">Gemini 2.5 Pro</option>
-              <option value="gemini-2.5-flash">Gemini 2.5 Flash</option>
+              {MODEL_PROVIDERS.map(p => (
+                <option key={p.id} value={p.id}>{p.label}</option>
+              ))}
             </select>
+            {providerId === 'openai-compatible' && (
+              <div className="mt-2 grid grid-cols-1 sm:grid-cols-2 gap-2">
+                <input
+                  type="url"
+                  aria-label="Server base URL"
+                  value={openAiSettings.baseUrl}
+                  onChange={(e) => handleOpenAiSettingChange('baseUrl', e.target.value)}
+                  placeholder="http://localhost:11434/v1"
+                  className="w-full p-2 bg-slate-700 border border-slate-600 rounded-md text-sm focus:ring-2 focus:ring-sky-500 outline-none"
+                />
+                <input
+                  type="password"
+                  aria-label="API key (optional)"
+                  value={openAiSettings.apiKey}
+                  onChange={(e) => handleOpenAiSettingChange('apiKey', e.target.value)}
+                  placeholder="API key (optional)"
+                  className="w-full p-2 bg-slate-700 border border-slate-600 rounded-md text-sm focus:ring-2 focus:ring-sky-500 outline-none"
+                />
+              </div>
+            )}
+            {providerId === 'mock' && (
+              <p className="mt-1 text-xs text-slate-500">Returns a fixed sample lesson and canned chat replies without contacting any server.</p>
+            )}
+          </div>
+          <div>
+            <label htmlFor="model" className="block text-sm font-medium text-slate-300 mb-1">
+              Select AI Model
+            </label>
+            {provider.models.length > 0 ? (
+              <select
+                id="model"
+                value={model}
+                onChange={(e) => setModel(e.target.value)}
+                className="w-full p-3 bg-slate-700 border border-slate-600 rounded-md focus:ring-2 focus:ring-sky-500 focus:border-sky-500 outline-none transition-colors"
+              >
+                {provider.models.map(m => (
+                  <option key={m.value} value={m.value}>{m.label}</option>
+                ))}
+              </select>
+            ) : (
+              <input
+                type="text"
+                id="model"
+                value={model}
+                onChange={(e) => setModel(e.target.value)}
+                placeholder="e.g. llama3.1:8b"
+                className="w-full p-3 bg-slate-700 border border-slate-600 rounded-md focus:ring-2 focus:ring-sky-500 focus:border-sky-500 outline-none transition-colors"
+              />
+            )}
+            <label htmlFor="stream-response" className="mt-2 flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+              <input
+                type="checkbox"
+                id="stream-response"
+                checked={streamResponse}
+                onChange={(e) => setStreamResponse(e.target.checked)}
+                className="rounded border-slate-600 bg-slate-700 text-sky-600 focus:ring-sky-500"
+              />
+              Show sections as they are generated (you can stop early and keep what has arrived)
+            </label>
           </div>
       </div>
 
+      <details className="text-sm text-slate-400">
+        <summary className="cursor-pointer hover:text-slate-300">Request settings</summary>
+        <div className="mt-2 grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <label className="block">
+            <span className="block text-xs mb-1">Lesson timeout (seconds)</span>
+            <input
+              type="number"
+              min={REQUEST_SETTING_RANGES.lessonTimeoutSeconds.min}
+              max={REQUEST_SETTING_RANGES.lessonTimeoutSeconds.max}
+              value={requestSettings.lessonTimeoutSeconds}
+              onChange={(e) => handleRequestSettingChange('lessonTimeoutSeconds', e.target.value)}
+              className="w-full p-2 bg-slate-700 border border-slate-600 rounded-md text-sm focus:ring-2 focus:ring-sky-500 outline-none"
+            />
+          </label>
+          <label className="block">
+            <span className="block text-xs mb-1">Chat timeout (seconds)</span>
+            <input
+              type="number"
+              min={REQUEST_SETTING_RANGES.chatTimeoutSeconds.min}
+              max={REQUEST_SETTING_RANGES.chatTimeoutSeconds.max}
+              value={requestSettings.chatTimeoutSeconds}
+              onChange={(e) => handleRequestSettingChange('chatTimeoutSeconds', e.target.value)}
+              className="w-full p-2 bg-slate-700 border border-slate-600 rounded-md text-sm focus:ring-2 focus:ring-sky-500 outline-none"
+            />
+          </label>
+          <label className="block">
+            <span className="block text-xs mb-1">Retries on transient errors</span>
+            <input
+              type="number"
+              min={REQUEST_SETTING_RANGES.maxRetries.min}
+              max={REQUEST_SETTING_RANGES.maxRetries.max}
+              value={requestSettings.maxRetries}
+              onChange={(e) => handleRequestSettingChange('maxRetries', e.target.value)}
+              className="w-full p-2 bg-slate-700 border border-slate-600 rounded-md text-sm focus:ring-2 focus:ring-sky-500 outline-none"
+            />
+          </label>
+          <label className="block">
+            <span className="block text-xs mb-1">Follow-up context budget (tokens)</span>
+            <input
+              type="number"
+              min={REQUEST_SETTING_RANGES.followUpContextTokens.min}
+              max={REQUEST_SETTING_RANGES.followUpContextTokens.max}
+              step={1000}
+              value={requestSettings.followUpContextTokens}
+              onChange={(e) => handleRequestSettingChange('followUpContextTokens', e.target.value)}
+              className="w-full p-2 bg-slate-700 border border-slate-600 rounded-md text-sm focus:ring-2 focus:ring-sky-500 outline-none"
+            />
+          </label>
+        </div>
+        <p className="mt-2 text-xs text-slate-500">Rate limits, overloaded servers and dropped connections are retried with increasing delays. Timeouts apply to each attempt. The context budget limits how much of the lesson and its sources is sent with each follow-up question.</p>
+      </details>
+
       {inputError && <p id="input-error" className="mt-2 text-sm text-red-400">{inputError}</p>}
 
       <button
@@ -343,8 +695,17 @@ const UrlInputSection: React.FC<UrlInputSectionProps> = ({ onStartLearning, isLo
         disabled={isSubmitDisabled}
         className="w-full flex items-center justify-center px-6 py-3 border border-transparent text-base font-medium rounded-md shadow-sm text-white bg-sky-600 hover:bg-sky-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-slate-800 focus:ring-sky-500 disabled:bg-slate-600 disabled:cursor-not-allowed transition-colors"
       >
-        {isLoading ? 'Processing Content...' : 'Start Learning'}
+        {isLoading ? 'Processing Content...' : lessonType === 'exam' ? 'Write Model Answer' : 'Start Learning'}
       </button>
+      {isLoading && onCancel && (
+        <button
+          type="button"
+          onClick={onCancel}
+          className="w-full px-6 py-2 text-sm font-medium rounded-md text-slate-200 bg-slate-700 hover:bg-slate-600 transition-colors"
+        >
+          Cancel
+        </button>
+      )}
     </form>
   );
 };
@@ -0,0 +1,268 @@
+import initSqlJs from 'sql.js';
+import JSZip from 'jszip';
+import { marked } from 'marked';
+import { TeachingSectionContent, GroundingSource, QuestionAnswerPair } from '../types';
+import { isDocumentSource, getCitedSources } from './citations';
+import { escapeHtml } from './html';
+
+// Exports a lesson's question/answer pairs as flashcards: an Anki package (.apkg) with one
+// subdeck and tag per section, or CSV/TSV for Quizlet and spreadsheets.
+
+export interface CardExportLesson {
+  title: string;
+  teachingSteps: TeachingSectionContent[];
+  sources: GroundingSource[];
+}
+
+// sql.js needs its WebAssembly binary at runtime. It is loaded from the CDN and must match
+// the sql.js version pinned in package.json and the import map.
+const SQL_JS_WASM_BASE = 'https://cdn.jsdelivr.net/npm/sql.js@1.13.0/dist/';
+
+const FIELD_SEPARATOR = '\x1f';
+
+const markdownToHtml = (markdown: string): string =>
+  marked.parse(markdown || '', { breaks: true, gfm: true }) as string;
+
+const htmlToText = (html: string): string => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  // Keep list items and paragraphs on separate lines instead of running them together.
+  doc.querySelectorAll('li').forEach(li => li.prepend('- '));
+  doc.querySelectorAll('p, li, tr, h1, h2, h3, h4, h5, h6, br').forEach(el => el.append('\n'));
+  doc.querySelectorAll('td, th').forEach(cell => cell.append(' | '));
+  return (doc.body.textContent ?? '').replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+};
+
+const sourcesToHtml = (sources: GroundingSource[]): string =>
+  sources.length === 0 ? '' : `<ol>${sources.map(source =>
+    isDocumentSource(source)
+      ? `<li>${escapeHtml(source.title)}</li>`
+      : `<li><a href="${escapeHtml(source.uri)}">${escapeHtml(source.title || source.uri)}</a></li>`
+  ).join('')}</ol>`;
+
+const sourcesToText = (sources: GroundingSource[]): string =>
+  sources.map(source => {
+    if (isDocumentSource(source)) return source.title;
+    return source.title && source.title !== source.uri ? `${source.title} <${source.uri}>` : source.uri;
+  }).join('; ');
+
+// A card lists the sources its answer cites, or every lesson source when it has no citations.
+const sourcesForPair = (qa: QuestionAnswerPair, lessonSources: GroundingSource[]): GroundingSource[] => {
+  const cited = getCitedSources(qa, lessonSources);
+  return cited.length > 0 ? cited : lessonSources;
+};
+
+// Anki tags cannot contain spaces.
+const toTag = (text: string): string =>
+  text.trim().replace(/\s+/g, '_').replace(/[^\p{L}\p{N}_:-]/gu, '') || 'section';
+
+export const toFileName = (title: string, extension: string): string =>
+  `${title.trim().replace(/[^\w\s-]/g, '').replace(/\s+/g, '-').toLowerCase().substring(0, 80) || 'radiology-lesson'}.${extension}`;
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+// --- CSV / TSV ---
+
+export type DelimitedFormat = 'csv' | 'tsv';
+
+const DELIMITED_HEADER = ['Question', 'Answer', 'Section', 'Lesson', 'Sources'];
+
+const escapeCsvField = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// TSV has no quoting, and Quizlet treats every line as a card, so tabs and line breaks
+// inside a field are flattened.
+const escapeTsvField = (value: string): string =>
+  value.replace(/\t/g, ' ').replace(/\s*\n+\s*/g, ' / ');
+
+export const buildDelimitedExport = (lesson: CardExportLesson, format: DelimitedFormat): string => {
+  const rows = lesson.teachingSteps.flatMap(section => section.qa_pairs.map(qa => [
+    qa.question,
+    htmlToText(markdownToHtml(qa.answer)),
+    section.section_title,
+    lesson.title,
+    sourcesToText(sourcesForPair(qa, lesson.sources)),
+  ]));
+  const escape = format === 'csv' ? escapeCsvField : escapeTsvField;
+  const delimiter = format === 'csv' ? ',' : '\t';
+  return [DELIMITED_HEADER, ...rows].map(row => row.map(escape).join(delimiter)).join('\r\n');
+};
+
+// --- Anki (.apkg) ---
+// An .apkg is a zip holding an Anki 2.1 legacy collection (`collection.anki2`, schema
+// version 11) and a JSON `media` manifest.
+
+const ANKI_SCHEMA = `
+CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null);
+CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null);
+CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+CREATE INDEX ix_notes_usn on notes (usn);
+CREATE INDEX ix_cards_usn on cards (usn);
+CREATE INDEX ix_revlog_usn on revlog (usn);
+CREATE INDEX ix_cards_nid on cards (nid);
+CREATE INDEX ix_cards_sched on cards (did, queue, due);
+CREATE INDEX ix_revlog_cid on revlog (cid);
+CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+// Fixed so re-importing an updated export reuses the note type instead of duplicating it.
+const NOTE_TYPE_ID = 1700000000001;
+const NOTE_TYPE_FIELDS = ['Question', 'Answer', 'Section', 'Sources'];
+
+const CARD_CSS = `.card { font-family: -apple-system, "Segoe UI", Arial, sans-serif; font-size: 18px; text-align: left; color: #1e293b; background: #fff; }
+.section { font-size: 13px; color: #64748b; margin-bottom: 8px; }
+.sources { margin-top: 16px; font-size: 13px; color: #64748b; }
+table { border-collapse: collapse; } td, th { border: 1px solid #cbd5e1; padding: 4px 8px; }`;
+
+const sha1Hex = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const buildNoteType = (deckId: number, now: number) => ({
+  id: NOTE_TYPE_ID,
+  name: 'Radiology Lesson Q&A',
+  type: 0,
+  mod: now,
+  usn: -1,
+  sortf: 0,
+  did: deckId,
+  tmpls: [{
+    name: 'Card 1',
+    ord: 0,
+    qfmt: '<div class="section">{{Section}}</div>{{Question}}',
+    afmt: '{{FrontSide}}<hr id="answer">{{Answer}}{{#Sources}}<div class="sources">Sources:{{Sources}}</div>{{/Sources}}',
+    did: null,
+    bqfmt: '',
+    bafmt: '',
+  }],
+  flds: NOTE_TYPE_FIELDS.map((name, ord) => ({ name, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] })),
+  css: CARD_CSS,
+  latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+  latexPost: '\\end{document}',
+  latexsvg: false,
+  req: [[0, 'any', [0]]],
+  tags: [],
+  vers: [],
+});
+
+const buildDeck = (id: number, name: string, now: number) => ({
+  id,
+  name,
+  desc: '',
+  mod: now,
+  usn: -1,
+  collapsed: false,
+  browserCollapsed: false,
+  newToday: [0, 0],
+  revToday: [0, 0],
+  lrnToday: [0, 0],
+  timeToday: [0, 0],
+  dyn: 0,
+  conf: 1,
+  extendNew: 0,
+  extendRev: 0,
+});
+
+const DEFAULT_DECK_CONFIG = {
+  id: 1,
+  name: 'Default',
+  mod: 0,
+  usn: 0,
+  dyn: false,
+  maxTaken: 60,
+  timer: 0,
+  autoplay: true,
+  replayq: true,
+  new: { perDay: 20, delays: [1, 10], ints: [1, 4, 7], initialFactor: 2500, separate: true, order: 1, bury: false },
+  rev: { perDay: 200, ease4: 1.3, fuzz: 0.05, ivlFct: 1, maxIvl: 36500, minSpace: 1, bury: false },
+  lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 0 },
+};
+
+export async function buildAnkiPackage(lesson: CardExportLesson): Promise<Blob> {
+  const SQL = await initSqlJs({ locateFile: (file: string) => `${SQL_JS_WASM_BASE}${file}` });
+  const db = new SQL.Database();
+
+  try {
+    db.run(ANKI_SCHEMA);
+
+    const nowMs = Date.now();
+    const now = Math.floor(nowMs / 1000);
+    const deckName = lesson.title.replace(/::/g, ':').trim() || 'Radiology Lesson';
+    // Deck ids only need to be unique within the collection; Anki matches decks by name on import.
+    const rootDeckId = nowMs;
+    const decks: Record<string, ReturnType<typeof buildDeck>> = {
+      '1': buildDeck(1, 'Default', now),
+      [rootDeckId]: buildDeck(rootDeckId, deckName, now),
+    };
+
+    let noteId = nowMs;
+    let cardId = nowMs;
+    let position = 0;
+    const insertNote = db.prepare('INSERT INTO notes VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)');
+    const insertCard = db.prepare('INSERT INTO cards VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)');
+
+    for (const [sectionIndex, section] of lesson.teachingSteps.entries()) {
+      const sectionDeckId = rootDeckId + sectionIndex + 1;
+      const sectionName = `${sectionIndex + 1}. ${section.section_title.replace(/::/g, ':')}`;
+      decks[sectionDeckId] = buildDeck(sectionDeckId, `${deckName}::${sectionName}`, now);
+      const tags = ` ${toTag(section.section_title)} `;
+
+      for (const qa of section.qa_pairs) {
+        const fields = [escapeHtml(qa.question), markdownToHtml(qa.answer), escapeHtml(section.section_title), sourcesToHtml(sourcesForPair(qa, lesson.sources))];
+        const checksum = parseInt((await sha1Hex(qa.question)).substring(0, 8), 16);
+        // A stable guid lets Anki update existing notes when an edited lesson is exported again.
+        const guid = (await sha1Hex(`${lesson.title}\n${section.section_title}\n${qa.question}`)).substring(0, 10);
+        noteId++;
+        cardId++;
+        insertNote.run([noteId, guid, NOTE_TYPE_ID, now, -1, tags, fields.join(FIELD_SEPARATOR), qa.question, checksum, 0, '']);
+        insertCard.run([cardId, noteId, sectionDeckId, 0, now, -1, 0, 0, position++, 0, 0, 0, 0, 0, 0, 0, 0, '']);
+      }
+    }
+    insertNote.free();
+    insertCard.free();
+
+    const collectionConfig = {
+      nextPos: position,
+      estTimes: true,
+      activeDecks: [rootDeckId],
+      sortType: 'noteFld',
+      timeLim: 0,
+      sortBackwards: false,
+      addToCur: true,
+      curDeck: rootDeckId,
+      newBothTimes: false,
+      newSpread: 0,
+      dueCounts: true,
+      curModel: NOTE_TYPE_ID,
+      collapseTime: 1200,
+    };
+    db.run('INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)', [
+      now,
+      nowMs,
+      nowMs,
+      JSON.stringify(collectionConfig),
+      JSON.stringify({ [NOTE_TYPE_ID]: buildNoteType(rootDeckId, now) }),
+      JSON.stringify(decks),
+      JSON.stringify({ '1': DEFAULT_DECK_CONFIG }),
+      '{}',
+    ]);
+
+    const zip = new JSZip();
+    zip.file('collection.anki2', db.export());
+    zip.file('media', '{}');
+    return await zip.generateAsync({ type: 'blob', mimeType: 'application/octet-stream' });
+  } finally {
+    db.close();
+  }
+}
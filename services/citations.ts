@@ -0,0 +1,281 @@
+import { GroundingMetadata } from "@google/genai";
+import { GroundingSource, QuestionAnswerPair, TeachingSectionContent, ChatCitation } from '../types';
+import { TeachingContext } from './providerTypes';
+
+// Per-answer citations. A QuestionAnswerPair's `citations` are 1-based positions in the
+// lesson's source list. Uploaded PDFs and pasted text are listed first, so the document
+// numbers the model writes into "source_ids" are already source numbers; web sources
+// found through grounding follow them.
+
+const DOCUMENT_URI_SCHEME = 'document:';
+
+// Uploaded documents have no URL; their `uri` is a local identifier that is never linked.
+export const isDocumentSource = (source: GroundingSource): boolean => source.uri.startsWith(DOCUMENT_URI_SCHEME);
+
+export const pdfSourceUri = (pdfIndex: number, pageNumber?: number): string =>
+  `${DOCUMENT_URI_SCHEME}pdf-${pdfIndex + 1}${pageNumber ? `#page=${pageNumber}` : ''}`;
+
+export const pastedTextSourceUri = (textIndex: number): string => `${DOCUMENT_URI_SCHEME}text-${textIndex + 1}`;
+
+export const buildDocumentSources = (context: TeachingContext): GroundingSource[] => [
+  ...(context.pdfs ?? []).map((pdf, index) => ({
+    uri: pdfSourceUri(index),
+    title: pdf.name || `Uploaded PDF ${index + 1}`,
+  })),
+  ...(context.pastedTexts ?? []).map((_, index) => ({
+    uri: pastedTextSourceUri(index),
+    title: `Pasted text ${index + 1}`,
+  })),
+];
+
+// Renumbers document sources for documents added after `pdfOffset` PDFs and `textOffset`
+// pasted texts, e.g. when new sources are added to an existing lesson.
+export const offsetDocumentSources = (sources: GroundingSource[], pdfOffset: number, textOffset: number): GroundingSource[] =>
+  sources.map(source => {
+    const match = source.uri.match(/^document:(pdf|text)-(\d+)(#page=\d+)?$/);
+    if (!match) return source;
+    const number = parseInt(match[2], 10) + (match[1] === 'pdf' ? pdfOffset : textOffset);
+    return { ...source, uri: `${DOCUMENT_URI_SCHEME}${match[1]}-${number}${match[3] ?? ''}` };
+  });
+
+export const documentLabel = (documentNumber: number): string => `D${documentNumber}`;
+
+// The position of an uploaded PDF in the lesson's input files, or -1 for other sources.
+export const pdfIndexOfSource = (source: GroundingSource): number => {
+  const match = source.uri.match(/^document:pdf-(\d+)(?:#page=\d+)?$/);
+  return match ? parseInt(match[1], 10) - 1 : -1;
+};
+
+// The page a passage cited in a chat answer came from, if any.
+export const pageOfSource = (source: GroundingSource): number | undefined => {
+  const match = source.uri.match(/#page=(\d+)$/);
+  return match ? parseInt(match[1], 10) : undefined;
+};
+
+// Page numbers whose text was sent for each document (D1 first); empty for pasted text
+// and for PDFs that were sent as files.
+export const buildDocumentPages = (context: TeachingContext): number[][] => [
+  ...(context.pdfs ?? []).map(pdf => (pdf.pages ?? []).map(page => page.pageNumber)),
+  ...(context.pastedTexts ?? []).map(() => []),
+];
+
+const mapPairs = (
+  sections: TeachingSectionContent[],
+  update: (qa: QuestionAnswerPair) => QuestionAnswerPair
+): TeachingSectionContent[] =>
+  sections.map(section => ({ ...section, qa_pairs: section.qa_pairs.map(update) }));
+
+const normalizeCitations = (citations: number[]): number[] | undefined => {
+  const unique = [...new Set(citations)].sort((a, b) => a - b);
+  return unique.length > 0 ? unique : undefined;
+};
+
+// Drops document markers that don't point at one of the uploaded documents, and cited
+// pages that weren't part of the text sent for that document.
+export const resolveDocumentCitations = (
+  sections: TeachingSectionContent[],
+  documentCount: number,
+  documentPages: number[][] = []
+): TeachingSectionContent[] =>
+  mapPairs(sections, qa => {
+    const citations = normalizeCitations((qa.citations ?? []).filter(number => number >= 1 && number <= documentCount));
+    const citedPages: Record<number, number[]> = {};
+    (citations ?? []).forEach(number => {
+      const available = documentPages[number - 1] ?? [];
+      const pages = normalizeCitations((qa.citedPages?.[number] ?? []).filter(page => available.includes(page)));
+      if (pages) citedPages[number] = pages;
+    });
+    const { citations: _dropped, citedPages: _droppedPages, ...rest } = qa;
+    if (!citations) return rest;
+    return Object.keys(citedPages).length > 0 ? { ...rest, citations, citedPages } : { ...rest, citations };
+  });
+
+// "[2]", or "[2, p. 14]" / "[2, pp. 3, 7]" when pages of an uploaded PDF are cited.
+export const formatCitationLabel = (number: number, pages?: number[]): string =>
+  pages && pages.length > 0 ? `[${number}, ${pages.length > 1 ? 'pp.' : 'p.'} ${pages.join(', ')}]` : `[${number}]`;
+
+const normalizeText = (text: string): string => text.replace(/\s+/g, ' ').trim().toLowerCase();
+
+// Grounding segments index into the raw response, which for lessons is JSON text, so a
+// segment can contain escape sequences and even straddle the JSON punctuation between keys.
+const segmentFragments = (segmentText: string): string[] =>
+  segmentText
+    .replace(/\\n/g, '\n')
+    .replace(/\\"/g, '"')
+    .replace(/\\\\/g, '\\')
+    .split(/"\s*[:,]\s*"|[{}[\]]|"(?:question|answer|section_title|qa_pairs)"/)
+    .map(fragment => normalizeText(fragment.replace(/^[\s":,]+|[\s":,]+$/g, '')))
+    .filter(fragment => fragment.length >= 12);
+
+// Attaches Gemini groundingSupports to the answers their segments were found in.
+export const attachGroundingCitations = (
+  sections: TeachingSectionContent[],
+  metadata: GroundingMetadata | undefined,
+  sources: GroundingSource[]
+): TeachingSectionContent[] => {
+  const supports = metadata?.groundingSupports ?? [];
+  const chunks = metadata?.groundingChunks ?? [];
+  if (supports.length === 0) return sections;
+
+  const pairTexts = sections.map(section =>
+    section.qa_pairs.map(qa => normalizeText(`${qa.question} ${qa.answer}`)));
+  const found = sections.map(section => section.qa_pairs.map(() => [] as number[]));
+
+  for (const support of supports) {
+    const sourceNumbers = (support.groundingChunkIndices ?? [])
+      .map(chunkIndex => chunks[chunkIndex]?.web?.uri)
+      .map(uri => (uri ? sources.findIndex(source => source.uri === uri) + 1 : 0))
+      .filter(number => number > 0);
+    if (sourceNumbers.length === 0 || !support.segment?.text) continue;
+
+    for (const fragment of segmentFragments(support.segment.text)) {
+      pairTexts.forEach((texts, sectionIndex) => texts.forEach((text, qaIndex) => {
+        if (text.includes(fragment)) {
+          found[sectionIndex][qaIndex].push(...sourceNumbers);
+        }
+      }));
+    }
+  }
+
+  return sections.map((section, sectionIndex) => ({
+    ...section,
+    qa_pairs: section.qa_pairs.map((qa, qaIndex) => {
+      const citations = normalizeCitations([...(qa.citations ?? []), ...found[sectionIndex][qaIndex]]);
+      return citations ? { ...qa, citations } : qa;
+    }),
+  }));
+};
+
+// Adds the sources of a revised part of a lesson to the lesson's list and renumbers the
+// revision's citations to match. Sources already listed keep their number.
+export const mergeRevisionSources = (
+  lessonSources: GroundingSource[],
+  revisionSources: GroundingSource[],
+  sections: TeachingSectionContent[]
+): { sources: GroundingSource[]; sections: TeachingSectionContent[] } => {
+  const sources = [...lessonSources];
+  const numbers = revisionSources.map(source => {
+    const existing = sources.findIndex(candidate => candidate.uri === source.uri);
+    if (existing !== -1) return existing + 1;
+    sources.push(source);
+    return sources.length;
+  });
+  const renumbered = mapPairs(sections, qa => {
+    if (!qa.citations) return qa;
+    const citations = normalizeCitations(qa.citations.map(number => numbers[number - 1]).filter((number): number is number => !!number));
+    const citedPages = qa.citedPages
+      ? Object.fromEntries(Object.entries(qa.citedPages).map(([number, pages]) => [numbers[Number(number) - 1], pages]).filter(([number]) => number))
+      : undefined;
+    const { citations: _dropped, citedPages: _droppedPages, ...rest } = qa;
+    if (!citations) return rest;
+    return citedPages && Object.keys(citedPages).length > 0 ? { ...rest, citations, citedPages } : { ...rest, citations };
+  });
+  return { sources, sections: renumbered };
+};
+
+// Cited pages are appended to the titles of uploaded PDFs, e.g. "Guideline.pdf p. 14".
+export const getCitedSources = (qa: QuestionAnswerPair, sources: GroundingSource[]): GroundingSource[] =>
+  (qa.citations ?? [])
+    .map(number => {
+      const source = sources[number - 1];
+      const pages = qa.citedPages?.[number];
+      return source && pages && pages.length > 0
+        ? { ...source, title: `${source.title} ${pages.length > 1 ? 'pp.' : 'p.'} ${pages.join(', ')}` }
+        : source;
+    })
+    .filter((source): source is GroundingSource => !!source);
+
+// --- Chat answers ---
+
+const utf8 = new TextEncoder();
+
+// Gemini reports segment offsets in UTF-8 bytes; JavaScript strings index UTF-16 code units.
+const byteOffsetToIndex = (text: string, byteOffset: number): number => {
+  let bytes = 0;
+  let index = 0;
+  for (const char of text) {
+    if (bytes >= byteOffset) break;
+    bytes += utf8.encode(char).length;
+    index += char.length;
+  }
+  return index;
+};
+
+export const buildChatCitations = (
+  text: string,
+  metadata: GroundingMetadata | undefined,
+  sources: GroundingSource[]
+): ChatCitation[] => {
+  const chunks = metadata?.groundingChunks ?? [];
+  const citations: ChatCitation[] = [];
+  for (const support of metadata?.groundingSupports ?? []) {
+    const segment = support.segment;
+    if (!segment || segment.endIndex === undefined) continue;
+    let startIndex = byteOffsetToIndex(text, segment.startIndex ?? 0);
+    let endIndex = byteOffsetToIndex(text, segment.endIndex);
+    // Fall back to searching for the segment if the offsets don't line up with the joined text.
+    if (segment.text && text.slice(startIndex, endIndex) !== segment.text) {
+      const found = text.indexOf(segment.text);
+      if (found === -1) continue;
+      startIndex = found;
+      endIndex = found + segment.text.length;
+    }
+    const sourceIndices = [...new Set((support.groundingChunkIndices ?? [])
+      .map(chunkIndex => chunks[chunkIndex]?.web?.uri)
+      .map(uri => sources.findIndex(source => source.uri === uri))
+      .filter(index => index !== -1))];
+    if (sourceIndices.length > 0 && endIndex > startIndex) {
+      citations.push({ startIndex, endIndex, sourceIndices });
+    }
+  }
+  return citations;
+};
+
+export interface TextInsertion {
+  index: number;
+  text: string;
+}
+
+// Inserts from the end of the text so earlier offsets stay valid.
+export const insertAtOffsets = (text: string, insertions: TextInsertion[]): string =>
+  [...insertions]
+    .sort((a, b) => b.index - a.index)
+    .reduce((result, insertion) => result.slice(0, insertion.index) + insertion.text + result.slice(insertion.index), text);
+
+// Plain [n] markers after each supported span, numbered by the message's own sources.
+export const withCitationNumbers = (text: string, citations: ChatCitation[] | undefined): string =>
+  citations
+    ? insertAtOffsets(text, citations.map(citation => ({
+        index: citation.endIndex,
+        text: citation.sourceIndices.map(index => `[${index + 1}]`).join(''),
+      })))
+    : text;
+
+const MIN_CHECKED_SENTENCE_WORDS = 4;
+
+// Sentences of a grounded answer that no citation overlaps. Table rows, code and very
+// short fragments such as headings are not checked.
+export const findUngroundedSentences = (text: string, citations: ChatCitation[]): { startIndex: number; endIndex: number }[] => {
+  const sentences: { startIndex: number; endIndex: number }[] = [];
+  let lineStart = 0;
+  let inCodeBlock = false;
+  for (const line of text.split('\n')) {
+    const trimmed = line.trim();
+    if (trimmed.startsWith('```')) inCodeBlock = !inCodeBlock;
+    if (!inCodeBlock && !trimmed.startsWith('|') && !trimmed.startsWith('```')) {
+      const sentencePattern = /\S.*?(?:[.!?](?=\s|$)|$)/g;
+      let match: RegExpExecArray | null;
+      while ((match = sentencePattern.exec(line)) !== null && match[0]) {
+        const startIndex = lineStart + match.index;
+        const endIndex = startIndex + match[0].trimEnd().length;
+        const words = match[0].replace(/[#>*_`-]/g, ' ').trim().split(/\s+/).filter(Boolean);
+        const isSupported = citations.some(citation => citation.startIndex < endIndex && citation.endIndex > startIndex);
+        if (words.length >= MIN_CHECKED_SENTENCE_WORDS && !isSupported) {
+          sentences.push({ startIndex, endIndex });
+        }
+      }
+    }
+    lineStart += line.length + 1;
+  }
+  return sentences;
+};
@@ -0,0 +1,220 @@
+import { Part } from "@google/genai";
+import { TeachingSectionContent, FollowUpContextSummary, ContextItemSummary, PdfDocumentText, GroundingSource, PromptProfile } from '../types';
+import { FollowUpContext, FollowUpAttachment, RequestCancelledError } from './providerTypes';
+import { buildFollowUpInstruction } from './prompts';
+import { isDocumentSource } from './citations';
+import { RetrievalPassage } from './retrieval';
+
+// Assembles the lesson context sent with a follow-up question so it fits a token budget.
+// The current question/answer and its whole section are always included. Uploaded PDFs
+// without extracted text are attached if they fit, and the remaining budget is filled with
+// the passages from other sections, PDF pages and pasted texts that share the most terms
+// with the question. When answering from the user's documents, the retrieved passages take
+// the place of those excerpts, in retrieval order. For the lesson-wide chat, the whole
+// lesson and its source list take the place of the current question and section.
+
+const CHUNK_TARGET_CHARS = 1200;
+const MAX_TRIM_ROUNDS = 5;
+const STOP_WORDS = new Set([
+  'about', 'after', 'also', 'been', 'does', 'from', 'have', 'into', 'more', 'most', 'other',
+  'should', 'than', 'that', 'their', 'there', 'these', 'they', 'this', 'what', 'when',
+  'where', 'which', 'while', 'with', 'would', 'your',
+]);
+
+export interface FollowUpContextRequest {
+  teachingSteps: TeachingSectionContent[];
+  // Both unset for the lesson-wide chat.
+  sectionIndex?: number;
+  qaIndex?: number;
+  userMessage: string;
+  // The lesson's source list, listed after the lesson in the lesson-wide chat.
+  lessonSources?: GroundingSource[];
+  pastedTexts?: string[];
+  pdfDocuments?: PdfDocumentText[];
+  pdfs?: FollowUpAttachment[];
+  // Best-first results from the retrieval index; set only when answering from documents.
+  passages?: RetrievalPassage[];
+  promptProfile?: PromptProfile;
+}
+
+interface Excerpt {
+  label: string;
+  text: string;
+  score: number;
+  order: number;
+}
+
+// A rough four-characters-per-token estimate, used to rank candidates before the exact count.
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+const queryTerms = (text: string): Set<string> =>
+  new Set((text.toLowerCase().match(/[\p{L}\p{N}]{4,}/gu) ?? []).filter(term => !STOP_WORDS.has(term)));
+
+const scoreExcerpt = (text: string, terms: Set<string>): number => {
+  const words = new Set(text.toLowerCase().match(/[\p{L}\p{N}]{4,}/gu) ?? []);
+  let matches = 0;
+  terms.forEach(term => { if (words.has(term)) matches++; });
+  return matches;
+};
+
+// Splits text at blank lines and merges paragraphs into chunks of roughly CHUNK_TARGET_CHARS.
+const chunkText = (text: string): string[] => {
+  const chunks: string[] = [];
+  let current = '';
+  for (const paragraph of text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean)) {
+    if (current && current.length + paragraph.length > CHUNK_TARGET_CHARS) {
+      chunks.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n\n${paragraph}` : paragraph;
+  }
+  if (current) chunks.push(current);
+  return chunks;
+};
+
+const collectExcerpts = (request: FollowUpContextRequest): Omit<Excerpt, 'score'>[] => {
+  const excerpts: Omit<Excerpt, 'score'>[] = [];
+  request.teachingSteps.forEach((section, sectionIndex) => {
+    // The lesson-wide chat already has every section.
+    if (request.sectionIndex === undefined || sectionIndex === request.sectionIndex) return;
+    section.qa_pairs.forEach(qa => excerpts.push({
+      label: `Section ${sectionIndex + 1}: ${section.section_title}`,
+      text: `Q: ${qa.question}\nA: ${qa.answer}`,
+      order: excerpts.length,
+    }));
+  });
+  (request.pdfDocuments ?? []).forEach(document => {
+    document.pages.forEach(page => chunkText(page.text).forEach(chunk => excerpts.push({
+      label: `${document.name} p. ${page.pageNumber}`,
+      text: chunk,
+      order: excerpts.length,
+    })));
+  });
+  (request.pastedTexts ?? []).forEach((pastedText, textIndex) => {
+    chunkText(pastedText).forEach((chunk, chunkIndex, chunks) => excerpts.push({
+      label: `Pasted text ${textIndex + 1}${chunks.length > 1 ? `, part ${chunkIndex + 1} of ${chunks.length}` : ''}`,
+      text: chunk,
+      order: excerpts.length,
+    }));
+  });
+  return excerpts;
+};
+
+const formatLesson = (sections: TeachingSectionContent[], sources: GroundingSource[]): string => [
+  ...sections.map((section, index) =>
+    `Section ${index + 1}: ${section.section_title}\n${section.qa_pairs.map(pair => `Q: ${pair.question}\nA: ${pair.answer}`).join('\n\n')}`),
+  ...(sources.length > 0
+    ? [`Sources:\n${sources.map((source, index) => `[${index + 1}] ${source.title || source.uri}${isDocumentSource(source) ? '' : ` (${source.uri})`}`).join('\n')}`]
+    : []),
+].join('\n\n');
+
+export interface AssembledFollowUpContext {
+  context: FollowUpContext;
+  summary: FollowUpContextSummary;
+  // The sources of the passages that made it into the prompt, so [n] in the answer is sources[n - 1].
+  passageSources?: GroundingSource[];
+}
+
+export async function assembleFollowUpContext(
+  request: FollowUpContextRequest,
+  budgetTokens: number,
+  countTokens: (parts: Part[]) => Promise<number>
+): Promise<AssembledFollowUpContext> {
+  const section = request.sectionIndex === undefined ? undefined : request.teachingSteps[request.sectionIndex];
+  const qa = section?.qa_pairs[request.qaIndex ?? 0];
+
+  // Token counting is a nicety; if the service can't be reached, fall back to the estimate.
+  let isEstimate = false;
+  const count = async (parts: Part[]): Promise<number> => {
+    try {
+      return await countTokens(parts);
+    } catch (error) {
+      if (error instanceof RequestCancelledError) throw error;
+      console.warn("[Context Budget] Token counting failed, using an estimate:", error);
+      isEstimate = true;
+      return parts.reduce((sum, part) => sum + estimateTokens(part.text ?? part.inlineData?.data ?? ''), 0);
+    }
+  };
+
+  const context: FollowUpContext = {
+    originalQuestion: qa?.question ?? '',
+    originalAnswer: qa?.answer ?? '',
+    fullSectionContent: section ? section.qa_pairs.map(pair => `Q: ${pair.question}\nA: ${pair.answer}`).join('\n\n') : '',
+    ...(section ? {} : { lessonContent: formatLesson(request.teachingSteps, request.lessonSources ?? []) }),
+    excerpts: [],
+    attachments: [],
+    promptProfile: request.promptProfile,
+  };
+  const items: ContextItemSummary[] = [];
+
+  const coreTokens = await count([{ text: buildFollowUpInstruction(context) }]);
+  items.push({
+    label: section ? `Current question and all of section ${request.sectionIndex! + 1}: ${section.section_title}` : 'The whole lesson and its source list',
+    tokens: coreTokens,
+    included: true,
+  });
+  let remaining = budgetTokens - coreTokens;
+
+  let attachmentTokens = 0;
+  for (const pdf of request.pdfs ?? []) {
+    const tokens = await count([{ inlineData: { data: pdf.base64, mimeType: pdf.mimeType } }]);
+    const fits = tokens <= remaining;
+    items.push({ label: `Uploaded PDF: ${pdf.name}`, tokens, included: fits });
+    if (fits) {
+      context.attachments!.push(pdf);
+      attachmentTokens += tokens;
+      remaining -= tokens;
+    }
+  }
+
+  const terms = queryTerms(`${request.userMessage} ${qa?.question ?? ''}`);
+  const passages = request.passages;
+  const ranked: Excerpt[] = passages
+    ? passages.map((passage, order) => ({ label: passage.label, text: passage.text, score: passages.length - order, order }))
+    : collectExcerpts(request)
+        .map(excerpt => ({ ...excerpt, score: scoreExcerpt(excerpt.text, terms) }))
+        .filter(excerpt => excerpt.score > 0)
+        .sort((a, b) => b.score - a.score || a.order - b.order);
+  const chosen: Excerpt[] = [];
+  for (const excerpt of ranked) {
+    const tokens = estimateTokens(`${excerpt.label}\n${excerpt.text}`);
+    if (tokens <= remaining) {
+      chosen.push(excerpt);
+      remaining -= tokens;
+    }
+  }
+
+  // The estimate can be off, so the final prompt is counted and trimmed until it fits.
+  let usedTokens: number;
+  for (let round = 0; ; round++) {
+    const included = chosen
+      .slice()
+      .sort((a, b) => a.order - b.order)
+      .map(({ label, text }) => ({ label, text }));
+    if (passages) {
+      context.passages = included;
+    } else {
+      context.excerpts = included;
+    }
+    usedTokens = (chosen.length > 0 || passages ? await count([{ text: buildFollowUpInstruction(context) }]) : coreTokens) + attachmentTokens;
+    if (usedTokens <= budgetTokens || chosen.length === 0 || round === MAX_TRIM_ROUNDS) break;
+    chosen.pop();
+  }
+
+  chosen
+    .slice()
+    .sort((a, b) => a.order - b.order)
+    .forEach(excerpt => items.push({ label: excerpt.label, tokens: estimateTokens(excerpt.text), included: true }));
+
+  return {
+    context,
+    ...(passages ? { passageSources: chosen.slice().sort((a, b) => a.order - b.order).map(excerpt => passages[excerpt.order].source) } : {}),
+    summary: {
+      budgetTokens,
+      usedTokens,
+      isEstimate,
+      items,
+      omittedExcerpts: ranked.length - chosen.length,
+    },
+  };
+}
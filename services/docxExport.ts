@@ -0,0 +1,208 @@
+import { marked } from 'marked';
+// Fix: Import IParagraphOptions to correctly type paragraph properties.
+import { Document, Packer, Paragraph, TextRun, HeadingLevel, ExternalHyperlink, Table, TableRow, TableCell, IParagraphOptions } from 'docx';
+import { BatchItem } from '../types';
+import { isDocumentSource, formatCitationLabel } from './citations';
+
+// Word (.docx) building blocks shared by the lesson download and the question bank export.
+
+const parseInlineTokens = (tokens: any[], options: { bold?: boolean; italics?: boolean } = {}): (TextRun | ExternalHyperlink)[] => {
+  const children: (TextRun | ExternalHyperlink)[] = [];
+  if (!tokens) return children;
+
+  for (const token of tokens) {
+    switch (token.type) {
+      case 'strong':
+        children.push(...parseInlineTokens(token.tokens, { ...options, bold: true }));
+        break;
+      case 'em':
+        children.push(...parseInlineTokens(token.tokens, { ...options, italics: true }));
+        break;
+      case 'link':
+        children.push(new ExternalHyperlink({
+          children: parseInlineTokens(token.tokens, { ...options }) as TextRun[],
+          link: token.href,
+        }));
+        break;
+      case 'text':
+        // Citation markers such as [2] or [1, 3] are set as superscript.
+        token.text.split(/(\[\d+(?:,\s*\d+)*\])/).forEach((part: string, index: number) => {
+          if (part) {
+            children.push(new TextRun({ text: part, ...options, superScript: index % 2 === 1 }));
+          }
+        });
+        break;
+      default:
+        if (token.text) {
+          children.push(new TextRun({ text: token.text, ...options }));
+        }
+        break;
+    }
+  }
+  return children;
+};
+
+// Fix: Remove HeadingLevel type annotation to resolve TS error. The type is correctly inferred.
+const mapDepthToHeadingLevel = (depth: number) => {
+    switch (depth) {
+        case 1: return HeadingLevel.HEADING_1;
+        case 2: return HeadingLevel.HEADING_2;
+        case 3: return HeadingLevel.HEADING_3;
+        case 4: return HeadingLevel.HEADING_4;
+        case 5: return HeadingLevel.HEADING_5;
+        case 6: return HeadingLevel.HEADING_6;
+        default: return HeadingLevel.HEADING_1;
+    }
+}
+
+export const createDocxElementsFromMarkdown = (markdownText: string): (Paragraph | Table)[] => {
+  if (!markdownText) return [new Paragraph({ text: '' })];
+
+  const elements: (Paragraph | Table)[] = [];
+  const tokens = marked.lexer(markdownText);
+
+  // Fix: Refactor paragraph creation to pass options to the constructor, as Paragraph instances are immutable. This resolves errors with assigning to read-only properties.
+  const processListItems = (items: any[], isOrdered: boolean, level = 0): Paragraph[] => {
+    const listParagraphs: Paragraph[] = [];
+    items.forEach(item => {
+        let isFirstParagraphInItem = true;
+        item.tokens.forEach((blockToken: any) => {
+            if (blockToken.type === 'text') {
+                const paragraphOptions: IParagraphOptions = {
+                    children: parseInlineTokens(blockToken.tokens),
+                };
+                if (isFirstParagraphInItem) {
+                    if (isOrdered) {
+                        paragraphOptions.numbering = { reference: "default-numbering", level };
+                    } else {
+                        paragraphOptions.bullet = { level };
+                    }
+                    isFirstParagraphInItem = false;
+                } else {
+                    paragraphOptions.indent = { left: 720 * (level + 1) };
+                }
+                listParagraphs.push(new Paragraph(paragraphOptions));
+            } else if (blockToken.type === 'list') {
+                listParagraphs.push(...processListItems(blockToken.items, blockToken.ordered, level + 1));
+                isFirstParagraphInItem = false; 
+            }
+        });
+    });
+    return listParagraphs;
+  };
+
+  for (const token of tokens) {
+    switch (token.type) {
+      case 'heading':
+        elements.push(new Paragraph({
+          children: parseInlineTokens(token.tokens),
+          heading: mapDepthToHeadingLevel(token.depth),
+        }));
+        break;
+      case 'paragraph':
+        elements.push(new Paragraph({
+          children: parseInlineTokens(token.tokens),
+        }));
+        break;
+      case 'list':
+        elements.push(...processListItems(token.items, token.ordered));
+        break;
+      case 'table':
+        const header = new TableRow({
+          children: token.header.map((cell: any) => new TableCell({
+            children: [new Paragraph({ children: parseInlineTokens(cell.tokens) })],
+          })),
+          tableHeader: true,
+        });
+        const rows = token.rows.map((row: any) => new TableRow({
+          children: row.map((cell: any) => new TableCell({
+            children: [new Paragraph({ children: parseInlineTokens(cell.tokens) })],
+          })),
+        }));
+        elements.push(new Table({
+          rows: [header, ...rows],
+          width: { size: 100, type: 'pct' },
+        }));
+        break;
+      case 'space':
+        elements.push(new Paragraph({ text: '' }));
+        break;
+    }
+  }
+
+  return elements;
+};
+
+export const createDocxDocument = (children: (Paragraph | Table)[]): Document =>
+  new Document({
+    styles: {
+        characterStyles: [
+            {
+                id: 'Hyperlink',
+                name: 'Hyperlink',
+                basedOn: 'DefaultParagraphFont',
+                run: {
+                    color: '0000FF',
+                    underline: {
+                        type: 'single',
+                        color: '0000FF',
+                    },
+                },
+            },
+        ],
+    },
+    numbering: {
+      config: [{
+        reference: "default-numbering",
+        levels: [{ level: 0, format: "decimal", text: "%1." }],
+      }],
+    },
+    sections: [{ children }],
+  });
+
+// One document with every answered question of a batch, each followed by its own sources.
+// Questions that failed are listed with their error so nothing silently goes missing.
+export const buildQuestionBankDocx = async (items: BatchItem[], title: string): Promise<Blob> => {
+  const children: (Paragraph | Table)[] = [new Paragraph({ text: title, heading: HeadingLevel.TITLE })];
+  items.forEach((item, index) => {
+    children.push(new Paragraph({ text: `${index + 1}. ${item.question}`, heading: HeadingLevel.HEADING_1 }));
+    if (item.status !== 'done' || !item.sections) {
+      children.push(new Paragraph({
+        children: [new TextRun({ text: item.error ? `Not answered: ${item.error}` : 'Not answered.', italics: true, color: 'B91C1C' })],
+      }));
+      return;
+    }
+    const sources = item.sources ?? [];
+    item.sections.forEach(section => {
+      children.push(new Paragraph({ text: section.section_title, heading: HeadingLevel.HEADING_2 }));
+      section.qa_pairs.forEach(qa => {
+        if (qa.question.trim().toLowerCase() !== section.section_title.trim().toLowerCase()) {
+          children.push(new Paragraph({ text: qa.question, heading: HeadingLevel.HEADING_3 }));
+        }
+        children.push(...createDocxElementsFromMarkdown(qa.answer));
+        const citations = (qa.citations ?? []).filter(number => sources[number - 1]);
+        if (citations.length > 0) {
+          children.push(new Paragraph({
+            children: citations.map(number => new TextRun({ text: formatCitationLabel(number, qa.citedPages?.[number]), superScript: true, color: '0369A1' })),
+          }));
+        }
+      });
+    });
+    if (sources.length > 0) {
+      children.push(new Paragraph({ text: 'Sources', heading: HeadingLevel.HEADING_3 }));
+      sources.forEach((source, sourceIndex) => {
+        if (isDocumentSource(source)) {
+          children.push(new Paragraph({ children: [new TextRun({ text: `[${sourceIndex + 1}] ${source.title}` })] }));
+          return;
+        }
+        children.push(new Paragraph({
+          children: [
+            new TextRun({ text: `[${sourceIndex + 1}] ${source.title || 'Source'}: ` }),
+            new ExternalHyperlink({ children: [new TextRun({ text: source.uri, style: "Hyperlink" })], link: source.uri }),
+          ],
+        }));
+      });
+    }
+  });
+  return Packer.toBlob(createDocxDocument(children));
+};
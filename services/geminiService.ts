@@ -1,15 +1,18 @@
-import { GoogleGenAI, GenerateContentResponse, Part, Content, SafetySetting, HarmCategory, HarmBlockThreshold, Type, GroundingChunk } from "@google/genai";
-import { TeachingSectionContent, GroundingSource } from '../types';
+import { GoogleGenAI, GenerateContentResponse, Part, Content, SafetySetting, HarmCategory, HarmBlockThreshold, Type, GroundingChunk, Candidate, FinishReason } from "@google/genai";
+import { GroundingSource, TeachingSectionContent, QuizQuestion } from '../types';
+import {
+  ModelProvider, MissingPdfError, LessonFormatError, ChatResponse, StreamedChatResponse, TeachingContext, TeachingResult,
+  StreamedTeachingResult, TeachingStreamProgress, FollowUpContext,
+  ModelRequestError, SafetyBlockedError, RequestCancelledError,
+} from './providerTypes';
+import { runModelRequest, lessonRequestOptions, chatRequestOptions } from './requestRunner';
+import { parseTeachingResponseWithRepair, parseQuizResponse, extractStreamedSections, extractRelatedLinks } from './responseParsing';
+import { buildTeachingInstruction, buildExamAnswerInstruction, buildRevisionInstruction, buildRevisionPrompt, buildIntegrationInstruction, buildIntegrationPrompt, buildFollowUpInstruction, buildQuizInstruction, buildQuizPrompt, buildDocumentCitationInstruction, formatPastedContent, formatPdfPages, TEACHING_JSON_OUTPUT_INSTRUCTION, CONTEXT_ONLY_INSTRUCTION } from './prompts';
+import { DEFAULT_PROMPT_PROFILE } from './promptProfiles';
+import { buildDocumentSources, buildDocumentPages, documentLabel, resolveDocumentCitations, attachGroundingCitations, buildChatCitations } from './citations';
 
 const API_KEY = process.env.API_KEY;
 
-export class MissingPdfError extends Error {
-  constructor(message: string, public urls: string[]) {
-    super(message);
-    this.name = 'MissingPdfError';
-  }
-}
-
 const safetySettings: SafetySetting[] = [
   { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
   { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
@@ -17,27 +20,63 @@ const safetySettings: SafetySetting[] = [
   { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
 ];
 
-export interface ChatResponse {
-  text: string;
-  sources: GroundingSource[];
-  relatedLinks: GroundingSource[];
-}
-
-export async function getTeachingSections(
-  context: { 
-    urls?: string[]; 
-    pdfs?: { base64: string; mimeType: string; }[]; 
-    pastedTexts?: string[];
-    searchQuery?: string; 
-    focusTopic?: string; 
-    model: string; 
-  }
-): Promise<{ sections: TeachingSectionContent[], sources: GroundingSource[] }> {
-  if (!API_KEY) {
-    throw new Error("API_KEY is not configured.");
+const teachingSectionsSchema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      section_title: {
+        type: Type.STRING,
+        description: "A concise title for the teaching section."
+      },
+      qa_pairs: {
+        type: Type.ARRAY,
+        description: "A list of question and answer pairs for this section.",
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            question: { type: Type.STRING, description: "The question." },
+            answer: { type: Type.STRING, description: "The detailed answer to the question, potentially containing Markdown." },
+            source_ids: {
+              type: Type.ARRAY,
+              description: "Labels of the documents that support the answer, with the page for PDFs, e.g. \"D1 p.14\" or \"D2\".",
+              items: { type: Type.STRING },
+            },
+          },
+          required: ["question", "answer"]
+        }
+      }
+    },
+    required: ["section_title", "qa_pairs"],
   }
-  const ai = new GoogleGenAI({ apiKey: API_KEY });
+};
+
+const quizSchema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      stem: { type: Type.STRING, description: "The question stem, ideally a short clinical or imaging scenario." },
+      options: {
+        type: Type.ARRAY,
+        description: "Exactly four answer options.",
+        items: { type: Type.STRING },
+      },
+      correct_index: { type: Type.INTEGER, description: "Zero-based index of the single best answer in 'options'." },
+      explanation: { type: Type.STRING, description: "Why the correct option is right and the distractors are wrong." },
+    },
+    required: ["stem", "options", "correct_index", "explanation"],
+    propertyOrdering: ["stem", "options", "correct_index", "explanation"],
+  },
+};
+
+interface TeachingRequest {
+  contentPromptParts: Part[];
+  systemInstruction: string;
+  config: any;
+}
 
+const buildTeachingRequest = (context: TeachingContext): TeachingRequest => {
   const contentPromptParts: Part[] = [];
   const tools: any[] = [];
   
@@ -54,19 +93,37 @@ export async function getTeachingSections(
   // PDF context (file upload)
   if (context.pdfs && context.pdfs.length > 0) {
     sourceDescriptions.push(`the provided ${context.pdfs.length} PDF document(s)`);
-    for (const pdf of context.pdfs) {
-        contentPromptParts.push({
-            inlineData: { data: pdf.base64, mimeType: pdf.mimeType }
-        });
-    }
+    context.pdfs.forEach((pdf, index) => {
+        const label = documentLabel(index + 1);
+        // Text extracted in the browser is sent page by page; scanned PDFs go as files.
+        if (pdf.pages && pdf.pages.some(page => page.text.trim())) {
+            formatPdfPages(pdf.pages, label, pdf.name || `Uploaded PDF ${index + 1}`)
+                .forEach(text => contentPromptParts.push({ text }));
+        } else if (pdf.base64) {
+            contentPromptParts.push({ text: `Document ${label}${pdf.name ? `: ${pdf.name}` : ''}` });
+            contentPromptParts.push({
+                inlineData: { data: pdf.base64, mimeType: pdf.mimeType }
+            });
+        }
+    });
   }
 
   // Pasted text context
   if (context.pastedTexts && context.pastedTexts.length > 0) {
     sourceDescriptions.push(`the provided ${context.pastedTexts.length} pasted text snippet(s)`);
-    for (const text of context.pastedTexts) {
-        contentPromptParts.push({ text: `--- START OF PASTED CONTENT ---\n${text}\n--- END OF PASTED CONTENT ---` });
-    }
+    const pdfCount = context.pdfs?.length ?? 0;
+    context.pastedTexts.forEach((text, index) => {
+        contentPromptParts.push({ text: formatPastedContent(text, documentLabel(pdfCount + index + 1)) });
+    });
+  }
+
+  // Key images (DICOM files arrive already windowed and converted to PNG)
+  if (context.images && context.images.length > 0) {
+    sourceDescriptions.push(`the attached ${context.images.length} radiology image(s)`);
+    context.images.forEach((image, index) => {
+        contentPromptParts.push({ text: `Image ${index + 1}${image.description ? ` (${image.description})` : ''}` });
+        contentPromptParts.push({ inlineData: { data: image.base64, mimeType: image.mimeType } });
+    });
   }
 
   // Google Search context
@@ -77,6 +134,13 @@ export async function getTeachingSections(
     }
   }
 
+  // An exam question on its own is answered with a Google search for it, so the key
+  // references come from real sources.
+  if (context.examQuestion && sourceDescriptions.length === 0) {
+    sourceDescriptions.push(`a Google search for the exam question`);
+    tools.push({ googleSearch: {} });
+  }
+
   if (sourceDescriptions.length === 0) {
     throw new Error("No content provided to generate teaching sections.");
   }
@@ -91,49 +155,30 @@ export async function getTeachingSections(
   if (context.searchQuery) {
     baseText += `\n\nWhen performing the Google Search, focus on this query: "${context.searchQuery}".`;
   }
+  if (context.revision) {
+    baseText += `\n\n${buildRevisionPrompt(context.revision)}`;
+  } else if (context.integration) {
+    baseText += `\n\n${buildIntegrationPrompt(context.integration)}`;
+  } else if (context.examQuestion) {
+    baseText += `\n\nWrite the model answer to this exam question: "${context.examQuestion}".`;
+  }
   contentPromptParts.unshift({ text: baseText });
 
 
-  let systemInstruction = `You are an expert radiology educator. Your task is to analyze the provided content and break it down into 5-7 sequential teaching sections.`;
-  if (context.focusTopic && context.focusTopic.trim()) {
-    systemInstruction += ` The user has a specific interest in "${context.focusTopic}". Focus your analysis and section creation on this topic, extracting all relevant details from the content.`;
+  const profile = context.promptProfile ?? DEFAULT_PROMPT_PROFILE;
+  let systemInstruction = context.revision
+    ? buildRevisionInstruction(context.revision, profile)
+    : context.integration ? buildIntegrationInstruction(profile)
+    : context.examQuestion ? buildExamAnswerInstruction(context.examQuestion, profile) : buildTeachingInstruction(context.focusTopic, profile);
+  const documentCount = (context.pdfs?.length ?? 0) + (context.pastedTexts?.length ?? 0);
+  if (documentCount > 0) {
+    systemInstruction += buildDocumentCitationInstruction(documentCount, !!context.pdfs?.some(pdf => pdf.pages?.length));
   }
-  
-  systemInstruction += `
-For each section, provide a title and a series of question-and-answer pairs that capture the core concepts.
-The 'answer' for each question should be detailed, comprehensive, and can include Markdown for formatting.
-Important: Your output is for experienced Radiologists, so maintain a professional, technical tone.`;
-
-  const schema = {
-    type: Type.ARRAY,
-    items: {
-      type: Type.OBJECT,
-      properties: {
-        section_title: {
-          type: Type.STRING,
-          description: "A concise title for the teaching section."
-        },
-        qa_pairs: {
-          type: Type.ARRAY,
-          description: "A list of question and answer pairs for this section.",
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              question: { type: Type.STRING, description: "The question." },
-              answer: { type: Type.STRING, description: "The detailed answer to the question, potentially containing Markdown." }
-            },
-            required: ["question", "answer"]
-          }
-        }
-      },
-      required: ["section_title", "qa_pairs"],
-    }
-  };
-  
+
   const config: any = {
-    temperature: 0.6, 
-    topP: 0.9,
-    topK: 40,
+    temperature: profile.temperature,
+    topP: profile.topP,
+    topK: profile.topK,
     safetySettings: safetySettings,
   };
 
@@ -149,29 +194,20 @@ Important: Your output is for experienced Radiologists, so maintain a profession
       systemInstruction += `\nIf after searching you determine that the most relevant information is contained within PDF documents that you cannot access, you MUST NOT generate the teaching sections. Instead, your entire response MUST be a valid JSON object with a single key 'missing_pdfs', which is an array of strings, where each string is the URL of a PDF you need the user to upload. Example: {"missing_pdfs": ["https://example.com/study.pdf"]}. Only use this format if you are confident that the primary information is in an inaccessible PDF. Otherwise, the final output MUST be a valid JSON array of objects, strictly adhering to the provided schema. Do not add any text before or after the JSON. Do not wrap the JSON in markdown backticks.`;
     } else {
         // This case is for when urlContext is used, but not googleSearch
-        systemInstruction += `\nThe final output MUST be a valid JSON array of objects, strictly adhering to the provided schema. Do not add any text before or after the JSON. Do not wrap the JSON in markdown backticks.`;
+        systemInstruction += `\n${TEACHING_JSON_OUTPUT_INSTRUCTION} Do not wrap the JSON in markdown backticks.`;
     }
   } else {
     config.responseMimeType = "application/json";
-    config.responseSchema = schema;
-    systemInstruction += `\nThe final output MUST be a valid JSON array of objects, strictly adhering to the provided schema. Do not add any text before or after the JSON.`;
+    config.responseSchema = teachingSectionsSchema;
+    systemInstruction += `\n${TEACHING_JSON_OUTPUT_INSTRUCTION}`;
   }
 
-  try {
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: context.model,
-      contents: { role: 'user', parts: contentPromptParts },
-      config: {
-        systemInstruction,
-        ...config
-      },
-    });
+  return { contentPromptParts, systemInstruction, config };
+};
 
-    let responseText = response.text;
-    
-    // Process sources from both Google Search and URL Context tool
+// Process sources from both Google Search and URL Context tool
+const extractLessonSources = (candidate: Candidate | undefined): GroundingSource[] => {
     let sources: GroundingSource[] = [];
-    const candidate = response.candidates?.[0];
 
     // Process Google Search grounding chunks
     const groundingChunks: GroundingChunk[] | undefined = candidate?.groundingMetadata?.groundingChunks;
@@ -202,74 +238,157 @@ Important: Your output is for experienced Radiologists, so maintain a profession
             console.warn(`[Gemini Service] Was unable to access the following URLs, so they were not included in the context: ${failedUrls.join(', ')}`);
         }
     }
-    
-    // If any tool was used, we must manually parse the JSON from the text response.
-    if (useTools) {
-      const jsonMatch = responseText.match(/```(json)?\s*([\s\S]*?)\s*```/);
-      if (jsonMatch && jsonMatch[2]) {
-        responseText = jsonMatch[2];
-      } else {
-        const rawJsonMatch = responseText.match(/\{[\s\S]*\}|\[[\s\S]*\]/);
-        if (rawJsonMatch) {
-            responseText = rawJsonMatch[0];
-        } else {
-            throw new Error("The AI returned a non-JSON response when a tool was used. Could not find a valid JSON object or array.");
-        }
-      }
-    }
-    
-    const parsedResponse = JSON.parse(responseText);
-
-    if (parsedResponse.missing_pdfs && Array.isArray(parsedResponse.missing_pdfs) && parsedResponse.missing_pdfs.length > 0) {
-      throw new MissingPdfError("The AI has requested you upload PDFs for more context.", parsedResponse.missing_pdfs);
+    return sources;
+};
+
+// Uploaded documents come first in the source list, so the document numbers the model
+// cites are already source numbers; grounding supports are then matched to answers.
+const buildLessonResult = (sections: TeachingSectionContent[], candidate: Candidate | undefined, context: TeachingContext): TeachingResult => {
+    const documentSources = buildDocumentSources(context);
+    const sources = [...documentSources, ...extractLessonSources(candidate)];
+    return {
+        sections: attachGroundingCitations(
+            resolveDocumentCitations(sections, documentSources.length, buildDocumentPages(context)),
+            candidate?.groundingMetadata,
+            sources
+        ),
+        sources,
+    };
+};
+
+// Asks the model to fix its own malformed lesson JSON. No tools are needed for this, so
+// JSON mode with the schema can be enforced even when the original request used tools.
+const requestJsonRepair = (ai: GoogleGenAI, model: string, signal?: AbortSignal) => async (prompt: string): Promise<string> => {
+    const response = await runModelRequest(requestSignal => ai.models.generateContent({
+      model,
+      contents: { role: 'user', parts: [{ text: prompt }] },
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: teachingSectionsSchema,
+        temperature: 0,
+        safetySettings: safetySettings,
+        abortSignal: requestSignal,
+      },
+    }), lessonRequestOptions(signal));
+    return response.text ?? '';
+};
+
+// Gemini reports blocked prompts and responses in the payload rather than as an HTTP error.
+const assertNotBlocked = (response: GenerateContentResponse) => {
+    if (response.promptFeedback?.blockReason || response.candidates?.[0]?.finishReason === FinishReason.SAFETY) {
+        throw new SafetyBlockedError("The content could not be processed due to safety filters. Please ensure the URL/query links to appropriate content.");
     }
+};
 
-    if (Array.isArray(parsedResponse)) {
-      return { sections: parsedResponse, sources };
-    }
-    throw new Error("The AI returned teaching sections in an unexpected format.");
-  } catch (error) {
-    if (error instanceof MissingPdfError) {
-        throw error; // Re-throw our custom error to be caught by the UI
+const toTeachingError = (error: unknown): Error => {
+    if (error instanceof MissingPdfError || error instanceof LessonFormatError || error instanceof ModelRequestError) {
+        return error; // Re-throw our custom errors to be caught by the UI
     }
     console.error("Error generating teaching sections:", error);
-    if (error instanceof Error && error.message.includes("SAFETY")) {
-        throw new Error("The content could not be processed due to safety filters. Please ensure the URL/query links to appropriate content.");
-    }
     if (error instanceof SyntaxError) { // JSON.parse error
-        throw new Error("Failed to parse the response from the AI as valid JSON. The AI's output may have been malformed.");
+        return new Error("Failed to parse the response from the AI as valid JSON. The AI's output may have been malformed.");
     }
-    throw new Error("Failed to generate teaching sections. The AI model might be busy or there was an issue with the request.");
+    return new Error("Failed to generate teaching sections. The AI model might be busy or there was an issue with the request.");
+};
+
+export async function getTeachingSections(context: TeachingContext, signal?: AbortSignal): Promise<TeachingResult> {
+  if (!API_KEY) {
+    throw new Error("API_KEY is not configured.");
+  }
+  const ai = new GoogleGenAI({ apiKey: API_KEY });
+  const { contentPromptParts, systemInstruction, config } = buildTeachingRequest(context);
+
+  try {
+    const response: GenerateContentResponse = await runModelRequest(requestSignal => ai.models.generateContent({
+      model: context.model,
+      contents: { role: 'user', parts: contentPromptParts },
+      config: {
+        systemInstruction,
+        ...config,
+        abortSignal: requestSignal,
+      },
+    }), lessonRequestOptions(signal));
+    assertNotBlocked(response);
+
+    const sections = await parseTeachingResponseWithRepair(response.text ?? '', requestJsonRepair(ai, context.model, signal));
+    return buildLessonResult(sections, response.candidates?.[0], context);
+  } catch (error) {
+    throw toTeachingError(error);
   }
 }
 
-export async function getFollowUpResponse(
-  userMessage: string,
-  context: { originalQuestion: string; originalAnswer: string, fullSectionContent: string },
-  useGoogleSearch: boolean,
-  history: Content[],
-  modelName: string
-): Promise<ChatResponse> {
+// Streaming variant of getTeachingSections. `onProgress` fires every time another
+// section or Q&A pair has been fully received; aborting `signal` ends the stream and
+// resolves with the sections received so far instead of rejecting. A failed stream is
+// only retried if nothing had arrived yet, so partial output is never duplicated.
+export async function streamTeachingSections(
+  context: TeachingContext,
+  onProgress: (progress: TeachingStreamProgress) => void,
+  signal?: AbortSignal
+): Promise<StreamedTeachingResult> {
   if (!API_KEY) {
     throw new Error("API_KEY is not configured.");
   }
   const ai = new GoogleGenAI({ apiKey: API_KEY });
+  const { contentPromptParts, systemInstruction, config } = buildTeachingRequest(context);
 
-  let systemInstruction = `You are a helpful radiology AI teaching assistant. The user is asking a follow-up question about a specific topic from a lesson you are teaching.
-  
-  This is the immediate context for their question:
-  - Original Question: "${context.originalQuestion}"
-  - Original Answer: "${context.originalAnswer.substring(0, 500)}${context.originalAnswer.length > 500 ? '...' : ''}"
-  
-  This is the broader context of the entire teaching section:
-  "${context.fullSectionContent.substring(0, 800)}${context.fullSectionContent.length > 800 ? '...' : ''}"
-  
-  Your task is to provide a clear, concise, and helpful answer to their follow-up question. Maintain a patient and encouraging tone.`;
+  let responseText = '';
+  let lastCandidate: Candidate | undefined;
+  let progress: TeachingStreamProgress = { sections: [], partialSection: null };
+  let lastProgressKey = '';
+
+  try {
+    await runModelRequest(async requestSignal => {
+      const stream = await ai.models.generateContentStream({
+        model: context.model,
+        contents: { role: 'user', parts: contentPromptParts },
+        config: {
+          systemInstruction,
+          ...config,
+          abortSignal: requestSignal,
+        },
+      });
+
+      for await (const chunk of stream) {
+        assertNotBlocked(chunk);
+        responseText += chunk.text ?? '';
+        const candidate = chunk.candidates?.[0];
+        if (candidate?.groundingMetadata || candidate?.urlContextMetadata) {
+          lastCandidate = candidate;
+        }
+
+        progress = extractStreamedSections(responseText);
+        const partialPairs = progress.partialSection?.qa_pairs.length ?? -1;
+        const progressKey = `${progress.sections.length}:${progress.partialSection?.section_title ?? ''}:${partialPairs}`;
+        if (progressKey !== lastProgressKey) {
+          lastProgressKey = progressKey;
+          onProgress(progress);
+        }
+      }
+    }, { ...lessonRequestOptions(signal), canRetry: () => responseText.length === 0 });
+
+    const sections = await parseTeachingResponseWithRepair(responseText, requestJsonRepair(ai, context.model, signal));
+    return { ...buildLessonResult(sections, lastCandidate, context), cancelled: false };
+  } catch (error) {
+    if (error instanceof RequestCancelledError) {
+      const kept = [...progress.sections];
+      if (progress.partialSection && progress.partialSection.qa_pairs.length > 0) {
+        kept.push(progress.partialSection);
+      }
+      return { ...buildLessonResult(kept, lastCandidate, context), cancelled: true };
+    }
+    throw toTeachingError(error);
+  }
+}
+
+const buildFollowUpConfig = (context: FollowUpContext, useGoogleSearch: boolean) => {
+  let systemInstruction = buildFollowUpInstruction(context);
   
   if (useGoogleSearch) {
-    systemInstruction += "\nYou MUST use the Google Search tool to find the most up-to-date and relevant information to answer the user's question. Base your answer on the search results. When you use information from a search result, you MUST add a numeric citation in the format [1], [2], etc., directly after the statement. The citation numbers must correspond to the order of sources provided in the grounding metadata. For example: 'This is a statement from a source [1]. This is another statement from another source [2].'";
+    // Citation markers are placed by the app from the grounding supports, not typed by the model.
+    systemInstruction += "\nYou MUST use the Google Search tool to find the most up-to-date and relevant information to answer the user's question. Base your answer on the search results. Do not add citation numbers or a list of sources yourself; they are added automatically.";
   } else {
-    systemInstruction += "\nAnswer based ONLY on the provided context. If the answer to the user's question is not found within the provided context (Original Question, Original Answer, and broader context), you MUST respond with the exact phrase: \"The uploaded contents don't have an answer for that question. Please try the 'web for answer' option.\" Do not add any other text or explanation.";
+    systemInstruction += CONTEXT_ONLY_INSTRUCTION;
   }
 
   const tools: any[] = [];
@@ -277,20 +396,25 @@ export async function getFollowUpResponse(
       tools.push({googleSearch: {}});
   }
 
-  try {
-    const response = await ai.models.generateContent({
-        model: modelName,
-        contents: history,
-        config: {
-            systemInstruction: systemInstruction,
-            tools: tools.length > 0 ? tools : undefined,
-            safetySettings: safetySettings,
-            temperature: 0.7,
-        },
-    });
-
-    const text = response.text;
-    const groundingChunks: GroundingChunk[] | undefined = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
+  return {
+    systemInstruction: systemInstruction,
+    tools: tools.length > 0 ? tools : undefined,
+    safetySettings: safetySettings,
+    temperature: (context.promptProfile ?? DEFAULT_PROMPT_PROFILE).followUpTemperature,
+  };
+};
+
+// Uploaded PDFs chosen for the follow-up context travel with the first question of the thread.
+const withAttachments = (history: Content[], context: FollowUpContext): Content[] => {
+  if (!context.attachments || context.attachments.length === 0 || history.length === 0) return history;
+  const [first, ...rest] = history;
+  const attachmentParts: Part[] = context.attachments.map(pdf => ({ inlineData: { data: pdf.base64, mimeType: pdf.mimeType } }));
+  return [{ ...first, parts: [...attachmentParts, ...(first.parts ?? [])] }, ...rest];
+};
+
+const toChatResponse = (text: string, candidate: Candidate | undefined, useGoogleSearch: boolean): ChatResponse => {
+    const groundingMetadata = candidate?.groundingMetadata;
+    const groundingChunks: GroundingChunk[] | undefined = groundingMetadata?.groundingChunks;
     
     let sources: GroundingSource[] = [];
     if (groundingChunks) {
@@ -299,31 +423,173 @@ export async function getFollowUpResponse(
             .filter((web): web is { uri: string; title: string } => !!web && !!web.uri && !!web.title);
     }
 
-    const urlRegex = /\bhttps?:\/\/\S+/gi;
-    const extractedUrls = text.match(urlRegex) || [];
-    const cleanedUrls = extractedUrls.map(url => {
-      try {
-        const urlObj = new URL(url.replace(/[.,;!?)\]>]+$/, ''));
-        urlObj.hash = '';
-        return urlObj.href;
-      } catch (e) {
-        return null;
-      }
-    }).filter((url): url is string => url !== null);
+    const relatedLinks = extractRelatedLinks(text, sources);
+    const citations = useGoogleSearch ? buildChatCitations(text, groundingMetadata, sources) : undefined;
 
-    const sourceUris = new Set(sources.map(s => s.uri));
-    const relatedLinks: GroundingSource[] = [...new Set(cleanedUrls)]
-        .filter(url => !sourceUris.has(url))
-        .map(url => ({ uri: url, title: url }));
+    return { text, sources, relatedLinks, citations };
+};
 
+const SAFETY_BLOCKED_REPLY = "I'm sorry, I cannot respond to that due to safety guidelines.";
 
-    return { text, sources, relatedLinks };
+const toChatError = (error: unknown): Error => {
+    if (error instanceof ModelRequestError) {
+        return error;
+    }
+    return new Error("Failed to get chat response. The AI model might be unavailable.");
+};
 
+export async function getFollowUpResponse(
+  userMessage: string,
+  context: FollowUpContext,
+  useGoogleSearch: boolean,
+  history: Content[],
+  modelName: string,
+  signal?: AbortSignal
+): Promise<ChatResponse> {
+  if (!API_KEY) {
+    throw new Error("API_KEY is not configured.");
+  }
+  const ai = new GoogleGenAI({ apiKey: API_KEY });
+
+  try {
+    const response = await runModelRequest(requestSignal => ai.models.generateContent({
+        model: modelName,
+        contents: withAttachments(history, context),
+        config: {
+            ...buildFollowUpConfig(context, useGoogleSearch),
+            abortSignal: requestSignal,
+        },
+    }), chatRequestOptions(signal));
+    assertNotBlocked(response);
+
+    return toChatResponse(response.text ?? '', response.candidates?.[0], useGoogleSearch);
   } catch (error) {
     console.error("Error getting chat response from Gemini API:", error);
-    if (error instanceof Error && error.message.includes("SAFETY")) {
-        return { text: "I'm sorry, I cannot respond to that due to safety guidelines.", sources: [], relatedLinks: [] };
+    if (error instanceof SafetyBlockedError) {
+        return { text: SAFETY_BLOCKED_REPLY, sources: [], relatedLinks: [] };
     }
-    throw new Error("Failed to get chat response. The AI model might be unavailable.");
+    throw toChatError(error);
   }
-}
\ No newline at end of file
+}
+
+// Streaming variant of getFollowUpResponse. Grounding metadata arrives with the last chunks,
+// so sources and citations are attached when the stream ends. Stopping keeps the partial text.
+export async function streamFollowUpResponse(
+  userMessage: string,
+  context: FollowUpContext,
+  useGoogleSearch: boolean,
+  history: Content[],
+  modelName: string,
+  onText: (text: string) => void,
+  signal?: AbortSignal
+): Promise<StreamedChatResponse> {
+  if (!API_KEY) {
+    throw new Error("API_KEY is not configured.");
+  }
+  const ai = new GoogleGenAI({ apiKey: API_KEY });
+
+  let text = '';
+  let lastCandidate: Candidate | undefined;
+
+  try {
+    await runModelRequest(async requestSignal => {
+      const stream = await ai.models.generateContentStream({
+        model: modelName,
+        contents: withAttachments(history, context),
+        config: {
+          ...buildFollowUpConfig(context, useGoogleSearch),
+          abortSignal: requestSignal,
+        },
+      });
+
+      for await (const chunk of stream) {
+        assertNotBlocked(chunk);
+        const candidate = chunk.candidates?.[0];
+        if (candidate?.groundingMetadata) {
+          lastCandidate = candidate;
+        }
+        const delta = chunk.text ?? '';
+        if (delta) {
+          text += delta;
+          onText(text);
+        }
+      }
+    }, { ...chatRequestOptions(signal), canRetry: () => text.length === 0 });
+
+    return { ...toChatResponse(text, lastCandidate, useGoogleSearch), cancelled: false };
+  } catch (error) {
+    if (error instanceof RequestCancelledError) {
+      return { ...toChatResponse(text, lastCandidate, useGoogleSearch), cancelled: true };
+    }
+    console.error("Error streaming chat response from Gemini API:", error);
+    if (error instanceof SafetyBlockedError) {
+        return { text: SAFETY_BLOCKED_REPLY, sources: [], relatedLinks: [], cancelled: false };
+    }
+    throw toChatError(error);
+  }
+}
+
+export async function countTokens(parts: Part[], modelName: string, signal?: AbortSignal): Promise<number> {
+  if (!API_KEY) {
+    throw new Error("API_KEY is not configured.");
+  }
+  const ai = new GoogleGenAI({ apiKey: API_KEY });
+  const response = await runModelRequest(requestSignal => ai.models.countTokens({
+    model: modelName,
+    contents: [{ role: 'user', parts }],
+    config: { abortSignal: requestSignal },
+  }), chatRequestOptions(signal));
+  return response.totalTokens ?? 0;
+}
+
+export async function generateSectionQuiz(
+  section: TeachingSectionContent,
+  modelName: string,
+  signal?: AbortSignal
+): Promise<QuizQuestion[]> {
+  if (!API_KEY) {
+    throw new Error("API_KEY is not configured.");
+  }
+  const ai = new GoogleGenAI({ apiKey: API_KEY });
+
+  try {
+    const response = await runModelRequest(requestSignal => ai.models.generateContent({
+      model: modelName,
+      contents: { role: 'user', parts: [{ text: buildQuizPrompt(section) }] },
+      config: {
+        systemInstruction: buildQuizInstruction(),
+        responseMimeType: "application/json",
+        responseSchema: quizSchema,
+        temperature: 0.4,
+        safetySettings: safetySettings,
+        abortSignal: requestSignal,
+      },
+    }), lessonRequestOptions(signal));
+    assertNotBlocked(response);
+    return parseQuizResponse(response.text ?? '');
+  } catch (error) {
+    if (error instanceof LessonFormatError || error instanceof ModelRequestError) {
+      throw error;
+    }
+    console.error("Error generating quiz:", error);
+    throw new Error("Failed to generate the quiz. The AI model might be busy or there was an issue with the request.");
+  }
+}
+
+export const geminiProvider: ModelProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  models: [
+    { value: 'gemini-2.5-pro', label: 'Gemini 2.5 Pro' },
+    { value: 'gemini-2.5-flash', label: 'Gemini 2.5 Flash' },
+  ],
+  capabilities: { urlContext: true, pdfInput: true, imageInput: true, webSearch: true },
+  getConfigurationError: () =>
+    API_KEY ? null : "Gemini API Key (API_KEY environment variable) is not configured. Configure it, or switch to the OpenAI-compatible or offline mock provider.",
+  getTeachingSections,
+  streamTeachingSections,
+  getFollowUpResponse,
+  streamFollowUpResponse,
+  countTokens,
+  generateSectionQuiz,
+};
@@ -0,0 +1,3 @@
+// Escapes text for use in HTML element content and double-quoted attribute values.
+export const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
@@ -0,0 +1,80 @@
+import { ChatMessage, GroundingSource, QuestionAnswerPair, TeachingSectionContent } from '../types';
+import { mergeRevisionSources, withCitationNumbers, pageOfSource, pdfIndexOfSource, pdfSourceUri } from './citations';
+import { createItemId, createSection } from './lessonEditor';
+
+// The lesson-wide chat. Its thread is kept with the per-question threads under a reserved
+// key, so it is saved with the lesson, and a good answer can be added to the lesson as a
+// new question.
+
+export const LESSON_CHAT_KEY = 'lesson';
+
+export const NEW_SECTION_TITLE = 'From the lesson chat';
+
+const messageText = (message: ChatMessage): string => message.parts.map(part => part.text ?? '').join('');
+
+// The user message an answer replies to, offered as the new question.
+export const questionForAnswer = (history: ChatMessage[], messageId: string): string => {
+  const index = history.findIndex(message => message.id === messageId);
+  for (let i = index - 1; i >= 0; i--) {
+    if (history[i].role === 'user') return messageText(history[i]).trim();
+  }
+  return '';
+};
+
+// A chat answer as a Q&A pair. The answer's [n] markers refer to the message's own sources;
+// they are taken out of the text and become the pair's citations, numbered in the lesson's
+// source list, with passages from a PDF page cited as that page. An answer without markers
+// cites all of its sources.
+export const pairFromChatAnswer = (
+  message: ChatMessage,
+  question: string,
+  lessonSources: GroundingSource[]
+): { pair: QuestionAnswerPair; sources: GroundingSource[] } => {
+  const messageSources = message.sources ?? [];
+  const cited = new Set<number>();
+  const answer = withCitationNumbers(messageText(message), message.citations)
+    .replace(/ ?\[(\d+)\]/g, (match, numberStr) => {
+      const number = parseInt(numberStr, 10);
+      if (number < 1 || number > messageSources.length) return match;
+      cited.add(number);
+      return '';
+    })
+    .trim();
+  if (cited.size === 0) messageSources.forEach((_, index) => cited.add(index + 1));
+
+  const sources: GroundingSource[] = [];
+  const citedPages: Record<number, number[]> = {};
+  [...cited].sort((a, b) => a - b).forEach(number => {
+    const source = messageSources[number - 1];
+    const page = pageOfSource(source);
+    const uri = page === undefined ? source.uri : pdfSourceUri(pdfIndexOfSource(source));
+    let index = sources.findIndex(candidate => candidate.uri === uri);
+    if (index === -1) {
+      sources.push({ uri, title: page === undefined ? source.title : source.title.replace(/ p\. \d+$/, '') });
+      index = sources.length - 1;
+    }
+    if (page !== undefined) {
+      citedPages[index + 1] = [...new Set([...(citedPages[index + 1] ?? []), page])].sort((a, b) => a - b);
+    }
+  });
+
+  const pair: QuestionAnswerPair = {
+    id: createItemId(),
+    question,
+    answer,
+    ...(sources.length > 0 ? { citations: sources.map((_, index) => index + 1) } : {}),
+    ...(Object.keys(citedPages).length > 0 ? { citedPages } : {}),
+  };
+  const merged = mergeRevisionSources(lessonSources, sources, [{ section_title: '', qa_pairs: [pair] }]);
+  return { pair: merged.sections[0].qa_pairs[0], sources: merged.sources };
+};
+
+// Appends the pair to a section, or to a new last section when `sectionIndex` is null.
+export const addPairToLesson = (
+  sections: TeachingSectionContent[],
+  pair: QuestionAnswerPair,
+  sectionIndex: number | null
+): TeachingSectionContent[] =>
+  sectionIndex === null
+    ? [...sections, { ...createSection(NEW_SECTION_TITLE), qa_pairs: [pair] }]
+    : sections.map((section, index) => (index === sectionIndex ? { ...section, qa_pairs: [...section.qa_pairs, pair] } : section));
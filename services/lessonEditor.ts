@@ -0,0 +1,221 @@
+import { TeachingSectionContent, QuestionAnswerPair, SavedLesson } from '../types';
+
+// Stable ids for sections and question/answer pairs, and the edit operations of the lesson
+// editor. Chats, flashcards, quizzes and revisions are keyed by these ids, so they follow
+// their content when it is moved. Content without an id gets its position as id ("2-1" for
+// the second pair of the third section), which is also the key older lessons used, so their
+// chats and review history carry over.
+
+export const createItemId = (): string =>
+  `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+export const sectionKey = (section: TeachingSectionContent, sectionIndex: number): string =>
+  section.id ?? `section-${sectionIndex}`;
+
+export const pairKey = (qa: QuestionAnswerPair, sectionIndex: number, qaIndex: number): string =>
+  qa.id ?? `${sectionIndex}-${qaIndex}`;
+
+const hasIds = (sections: TeachingSectionContent[]): boolean =>
+  sections.every(section => section.id && section.qa_pairs.every(qa => qa.id));
+
+// Gives every section and pair that lacks one an id; existing ids are kept.
+export const withLessonIds = (sections: TeachingSectionContent[]): TeachingSectionContent[] => {
+  if (hasIds(sections)) return sections;
+  const used = new Set(sections.flatMap(section => [section.id, ...section.qa_pairs.map(qa => qa.id)]).filter(Boolean));
+  const assign = (id: string | undefined, positional: string): string => {
+    if (id) return id;
+    const next = used.has(positional) ? createItemId() : positional;
+    used.add(next);
+    return next;
+  };
+  return sections.map((section, sectionIndex) => ({
+    ...section,
+    id: assign(section.id, sectionKey(section, sectionIndex)),
+    qa_pairs: section.qa_pairs.map((qa, qaIndex) => ({ ...qa, id: assign(qa.id, pairKey(qa, sectionIndex, qaIndex)) })),
+  }));
+};
+
+// Lessons saved before sections had ids kept quizzes and revisions by section number.
+export const upgradeSavedLesson = (lesson: SavedLesson): SavedLesson => {
+  if (hasIds(lesson.teachingSteps)) return lesson;
+  const teachingSteps = withLessonIds(lesson.teachingSteps);
+  const bySectionId = <T,>(record: Record<string, T> | undefined): Record<string, T> | undefined =>
+    record && Object.fromEntries(Object.entries(record).map(([key, value]) => [
+      /^\d+$/.test(key) && teachingSteps[Number(key)] ? teachingSteps[Number(key)].id! : key,
+      value,
+    ]));
+  return { ...lesson, teachingSteps, quizzes: bySectionId(lesson.quizzes), revisions: bySectionId(lesson.revisions) };
+};
+
+export const createPair = (question = '', answer = ''): QuestionAnswerPair => ({ id: createItemId(), question, answer });
+
+export const createSection = (title = 'New section'): TeachingSectionContent => ({
+  id: createItemId(),
+  section_title: title,
+  qa_pairs: [createPair()],
+});
+
+const updateSectionAt = (
+  sections: TeachingSectionContent[],
+  sectionIndex: number,
+  update: (section: TeachingSectionContent) => TeachingSectionContent
+): TeachingSectionContent[] =>
+  sections.map((section, index) => (index === sectionIndex ? update(section) : section));
+
+const moveItem = <T,>(items: T[], from: number, to: number): T[] => {
+  const moved = [...items];
+  const [item] = moved.splice(from, 1);
+  moved.splice(to, 0, item);
+  return moved;
+};
+
+export const renameSection = (sections: TeachingSectionContent[], sectionIndex: number, title: string) =>
+  updateSectionAt(sections, sectionIndex, section => ({ ...section, section_title: title }));
+
+export const updatePair = (
+  sections: TeachingSectionContent[],
+  sectionIndex: number,
+  qaIndex: number,
+  update: Partial<Pick<QuestionAnswerPair, 'question' | 'answer'>>
+) => updateSectionAt(sections, sectionIndex, section => ({
+  ...section,
+  qa_pairs: section.qa_pairs.map((qa, index) => (index === qaIndex ? { ...qa, ...update } : qa)),
+}));
+
+export const insertSection = (sections: TeachingSectionContent[], sectionIndex: number): TeachingSectionContent[] =>
+  [...sections.slice(0, sectionIndex), createSection(), ...sections.slice(sectionIndex)];
+
+export const deleteSection = (sections: TeachingSectionContent[], sectionIndex: number): TeachingSectionContent[] =>
+  sections.filter((_, index) => index !== sectionIndex);
+
+export const insertPair = (sections: TeachingSectionContent[], sectionIndex: number, qaIndex: number) =>
+  updateSectionAt(sections, sectionIndex, section => ({
+    ...section,
+    qa_pairs: [...section.qa_pairs.slice(0, qaIndex), createPair(), ...section.qa_pairs.slice(qaIndex)],
+  }));
+
+export const deletePair = (sections: TeachingSectionContent[], sectionIndex: number, qaIndex: number) =>
+  updateSectionAt(sections, sectionIndex, section => ({
+    ...section,
+    qa_pairs: section.qa_pairs.filter((_, index) => index !== qaIndex),
+  }));
+
+// Appends the next section's pairs to this one, which keeps its title and id.
+export const mergeSectionWithNext = (sections: TeachingSectionContent[], sectionIndex: number): TeachingSectionContent[] => {
+  const next = sections[sectionIndex + 1];
+  if (!next) return sections;
+  return updateSectionAt(sections, sectionIndex, section => ({ ...section, qa_pairs: [...section.qa_pairs, ...next.qa_pairs] }))
+    .filter((_, index) => index !== sectionIndex + 1);
+};
+
+// Moves the pairs from `qaIndex` on into a new section right after this one.
+export const splitSection = (sections: TeachingSectionContent[], sectionIndex: number, qaIndex: number): TeachingSectionContent[] => {
+  const section = sections[sectionIndex];
+  if (!section || qaIndex <= 0 || qaIndex >= section.qa_pairs.length) return sections;
+  const head = { ...section, qa_pairs: section.qa_pairs.slice(0, qaIndex) };
+  const tail = { id: createItemId(), section_title: `${section.section_title} (continued)`, qa_pairs: section.qa_pairs.slice(qaIndex) };
+  return [...sections.slice(0, sectionIndex), head, tail, ...sections.slice(sectionIndex + 1)];
+};
+
+const mergeCitedPages = (first: QuestionAnswerPair, second: QuestionAnswerPair): Record<number, number[]> | undefined => {
+  const merged: Record<number, number[]> = { ...first.citedPages };
+  Object.entries(second.citedPages ?? {}).forEach(([number, pages]) => {
+    merged[Number(number)] = [...new Set([...(merged[Number(number)] ?? []), ...pages])].sort((a, b) => a - b);
+  });
+  return Object.keys(merged).length > 0 ? merged : undefined;
+};
+
+// Joins a pair with the next one: the second question becomes a bold line in the answer.
+export const mergePairWithNext = (sections: TeachingSectionContent[], sectionIndex: number, qaIndex: number): TeachingSectionContent[] =>
+  updateSectionAt(sections, sectionIndex, section => {
+    const first = section.qa_pairs[qaIndex];
+    const second = section.qa_pairs[qaIndex + 1];
+    if (!first || !second) return section;
+    const citations = [...new Set([...(first.citations ?? []), ...(second.citations ?? [])])].sort((a, b) => a - b);
+    const citedPages = mergeCitedPages(first, second);
+    const merged: QuestionAnswerPair = {
+      ...first,
+      answer: `${first.answer.trimEnd()}\n\n**${second.question.trim()}**\n\n${second.answer.trimStart()}`,
+      ...(citations.length > 0 ? { citations } : {}),
+      ...(citedPages ? { citedPages } : {}),
+    };
+    return {
+      ...section,
+      qa_pairs: [...section.qa_pairs.slice(0, qaIndex), merged, ...section.qa_pairs.slice(qaIndex + 2)],
+    };
+  });
+
+// Splits an answer at a character offset into two pairs; both keep the citations.
+export const splitPair = (sections: TeachingSectionContent[], sectionIndex: number, qaIndex: number, offset: number): TeachingSectionContent[] =>
+  updateSectionAt(sections, sectionIndex, section => {
+    const qa = section.qa_pairs[qaIndex];
+    if (!qa) return section;
+    const head = qa.answer.slice(0, offset).trimEnd();
+    const tail = qa.answer.slice(offset).trimStart();
+    if (!head || !tail) return section;
+    const { id: _id, ...rest } = qa;
+    return {
+      ...section,
+      qa_pairs: [
+        ...section.qa_pairs.slice(0, qaIndex),
+        { ...qa, answer: head },
+        { ...rest, id: createItemId(), question: `${qa.question} (continued)`, answer: tail },
+        ...section.qa_pairs.slice(qaIndex + 1),
+      ],
+    };
+  });
+
+export const moveSection = (sections: TeachingSectionContent[], from: number, to: number): TeachingSectionContent[] =>
+  from === to ? sections : moveItem(sections, from, to);
+
+export interface PairPosition {
+  sectionIndex: number;
+  qaIndex: number;
+}
+
+// Moves a pair to `to`, which may be in another section; `to.qaIndex` is its index after the move.
+export const movePair = (sections: TeachingSectionContent[], from: PairPosition, to: PairPosition): TeachingSectionContent[] => {
+  const qa = sections[from.sectionIndex]?.qa_pairs[from.qaIndex];
+  // A section is never left without pairs; it can be deleted instead.
+  if (!qa || !sections[to.sectionIndex] || (from.sectionIndex !== to.sectionIndex && sections[from.sectionIndex].qa_pairs.length <= 1)) {
+    return sections;
+  }
+  if (from.sectionIndex === to.sectionIndex) {
+    return from.qaIndex === to.qaIndex
+      ? sections
+      : updateSectionAt(sections, from.sectionIndex, section => ({ ...section, qa_pairs: moveItem(section.qa_pairs, from.qaIndex, to.qaIndex) }));
+  }
+  const removed = deletePair(sections, from.sectionIndex, from.qaIndex);
+  return updateSectionAt(removed, to.sectionIndex, section => ({
+    ...section,
+    qa_pairs: [...section.qa_pairs.slice(0, to.qaIndex), qa, ...section.qa_pairs.slice(to.qaIndex)],
+  }));
+};
+
+const MAX_HISTORY = 100;
+
+// Undo/redo stacks of whole-lesson snapshots; the lessons share unchanged sections, so
+// snapshots are cheap.
+export interface EditHistory {
+  past: TeachingSectionContent[][];
+  future: TeachingSectionContent[][];
+}
+
+export const EMPTY_HISTORY: EditHistory = { past: [], future: [] };
+
+export const recordEdit = (history: EditHistory, previous: TeachingSectionContent[]): EditHistory => ({
+  past: [...history.past, previous].slice(-MAX_HISTORY),
+  future: [],
+});
+
+export const undoEdit = (history: EditHistory, current: TeachingSectionContent[]): { history: EditHistory; sections: TeachingSectionContent[] } | null => {
+  const previous = history.past[history.past.length - 1];
+  if (!previous) return null;
+  return { history: { past: history.past.slice(0, -1), future: [current, ...history.future] }, sections: previous };
+};
+
+export const redoEdit = (history: EditHistory, current: TeachingSectionContent[]): { history: EditHistory; sections: TeachingSectionContent[] } | null => {
+  const [next, ...future] = history.future;
+  if (!next) return null;
+  return { history: { past: [...history.past, current].slice(-MAX_HISTORY), future }, sections: next };
+};
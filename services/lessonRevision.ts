@@ -0,0 +1,78 @@
+import { TeachingSectionContent, ChatMessage, RevisionAction, SectionRevision } from '../types';
+import { createItemId } from './lessonEditor';
+
+// Revising one section or question/answer pair of a lesson in place. The model returns a single
+// section; these helpers fold it into the lesson and keep the previous version for revert.
+
+export class LessonRevisionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LessonRevisionError';
+  }
+}
+
+export const REVISION_ACTION_LABELS: Record<RevisionAction, string> = {
+  'regenerate': 'Regenerate',
+  'expand': 'Expand with more detail',
+  'simplify': 'Simplify',
+  'add-questions': 'Add more questions',
+  'differential-table': 'Add a differential table',
+};
+
+export const SECTION_REVISION_ACTIONS: RevisionAction[] = ['regenerate', 'expand', 'simplify', 'add-questions', 'differential-table'];
+export const PAIR_REVISION_ACTIONS: RevisionAction[] = ['regenerate', 'expand', 'simplify', 'differential-table'];
+
+// Older revisions of a section are dropped beyond this many.
+const MAX_REVISIONS_PER_SECTION = 10;
+
+// Adding questions, or a differential table to a whole section, appends new pairs.
+export const addsPairs = (action: RevisionAction, qaIndex?: number): boolean =>
+  action === 'add-questions' || (action === 'differential-table' && qaIndex === undefined);
+
+export const rewritesSection = (action: RevisionAction, qaIndex?: number): boolean =>
+  qaIndex === undefined && !addsPairs(action, qaIndex);
+
+// New pairs get fresh ids; a revised pair or section keeps the id of the one it replaces, so
+// its quiz and revision history stay attached. A rewritten section's pairs are all new, and
+// the chats of the old pairs come back with them on revert.
+export const applyRevision = (
+  section: TeachingSectionContent,
+  revised: TeachingSectionContent[],
+  action: RevisionAction,
+  qaIndex?: number
+): TeachingSectionContent => {
+  const result = revised[0];
+  if (!result || result.qa_pairs.length === 0) {
+    throw new LessonRevisionError('The model returned no revised content.');
+  }
+  const newPairs = result.qa_pairs.map(qa => ({ ...qa, id: createItemId() }));
+  if (addsPairs(action, qaIndex)) {
+    return { ...section, qa_pairs: [...section.qa_pairs, ...newPairs] };
+  }
+  if (qaIndex !== undefined) {
+    return {
+      ...section,
+      qa_pairs: section.qa_pairs.map((qa, index) => (index === qaIndex ? { ...result.qa_pairs[0], id: qa.id ?? createItemId() } : qa)),
+    };
+  }
+  return { ...result, id: section.id, qa_pairs: newPairs };
+};
+
+// Only lessons saved before pairs had ids put chats aside with a revision.
+export const revertSectionChats = (
+  chats: Record<string, ChatMessage[]>,
+  revision: SectionRevision
+): Record<string, ChatMessage[]> =>
+  revision.previousChats ? { ...chats, ...revision.previousChats } : chats;
+
+export const pushRevision = (
+  revisions: Record<string, SectionRevision[]>,
+  sectionId: string,
+  revision: SectionRevision
+): Record<string, SectionRevision[]> => ({
+  ...revisions,
+  [sectionId]: [...(revisions[sectionId] ?? []), revision].slice(-MAX_REVISIONS_PER_SECTION),
+});
+
+export const describeRevision = (revision: SectionRevision): string =>
+  `${REVISION_ACTION_LABELS[revision.action]}${revision.qaIndex !== undefined ? ` (question ${revision.qaIndex + 1})` : ''}`;
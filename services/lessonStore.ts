@@ -0,0 +1,134 @@
+import { SavedLesson, LessonSummary, FlashcardState } from '../types';
+import { upgradeSavedLesson } from './lessonEditor';
+
+const DB_NAME = 'radiology-lessons';
+const DB_VERSION = 2;
+const LESSON_STORE = 'lessons';
+const FLASHCARD_STORE = 'flashcards';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error("IndexedDB is not available in this browser, so lessons cannot be saved."));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(LESSON_STORE)) {
+        const store = db.createObjectStore(LESSON_STORE, { keyPath: 'id' });
+        store.createIndex('updatedAt', 'updatedAt');
+      }
+      if (!db.objectStoreNames.contains(FLASHCARD_STORE)) {
+        // Card ids are prefixed with the lesson id, so a lesson's cards form one key range.
+        db.createObjectStore(FLASHCARD_STORE, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+// Helper to run a single request inside a transaction and resolve with its result.
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>,
+  storeName: string = LESSON_STORE
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const createLessonId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export async function listLessons(): Promise<LessonSummary[]> {
+  const lessons = await runRequest<SavedLesson[]>('readonly', store => store.getAll());
+  return lessons
+    .map(lesson => ({
+      id: lesson.id,
+      title: lesson.title,
+      createdAt: lesson.createdAt,
+      updatedAt: lesson.updatedAt,
+      model: lesson.model,
+      sectionCount: lesson.teachingSteps.length,
+    }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function getAllLessons(): Promise<SavedLesson[]> {
+  const lessons = await runRequest<SavedLesson[]>('readonly', store => store.getAll());
+  return lessons.map(upgradeSavedLesson);
+}
+
+export async function getLesson(id: string): Promise<SavedLesson | undefined> {
+  const lesson = await runRequest<SavedLesson | undefined>('readonly', store => store.get(id));
+  return lesson && upgradeSavedLesson(lesson);
+}
+
+export async function saveLesson(lesson: SavedLesson): Promise<void> {
+  await runRequest('readwrite', store => store.put({ ...lesson, updatedAt: Date.now() }));
+}
+
+export async function deleteLesson(id: string): Promise<void> {
+  await runRequest('readwrite', store => store.delete(id));
+  await deleteFlashcardStates(id);
+}
+
+export async function renameLesson(id: string, title: string): Promise<void> {
+  const lesson = await getLesson(id);
+  if (!lesson) {
+    throw new Error("The lesson you tried to rename no longer exists.");
+  }
+  await saveLesson({ ...lesson, title });
+}
+
+export async function duplicateLesson(id: string): Promise<SavedLesson> {
+  const lesson = await getLesson(id);
+  if (!lesson) {
+    throw new Error("The lesson you tried to duplicate no longer exists.");
+  }
+  const now = Date.now();
+  const copy: SavedLesson = {
+    ...lesson,
+    id: createLessonId(),
+    title: `${lesson.title} (copy)`,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await saveLesson(copy);
+  return copy;
+}
+
+// Review scheduling state for flashcards. Cards themselves are derived from the saved
+// lessons' question/answer pairs, so only the spaced-repetition data is stored here.
+
+export async function listFlashcardStates(): Promise<FlashcardState[]> {
+  return runRequest<FlashcardState[]>('readonly', store => store.getAll(), FLASHCARD_STORE);
+}
+
+export async function saveFlashcardState(state: FlashcardState): Promise<void> {
+  await runRequest('readwrite', store => store.put(state), FLASHCARD_STORE);
+}
+
+export async function deleteFlashcardStates(lessonId: string): Promise<void> {
+  await runRequest('readwrite', store => store.delete(
+    IDBKeyRange.bound(`${lessonId}:`, `${lessonId}:\uffff`)
+  ), FLASHCARD_STORE);
+}
@@ -0,0 +1,224 @@
+import { TeachingSectionContent, QuestionAnswerPair, QuizQuestion } from '../types';
+
+// Runtime validation of model output against the TeachingSectionContent /
+// QuestionAnswerPair shape. Models regularly rename keys or wrap the array in an
+// object, so common variants are mapped back onto the expected shape before checking.
+
+const SECTION_TITLE_KEYS = ['section_title', 'sectionTitle', 'title', 'section', 'heading', 'name', 'topic'];
+const QA_PAIRS_KEYS = ['qa_pairs', 'qaPairs', 'qa', 'questions', 'pairs', 'question_answer_pairs', 'questionAnswerPairs', 'items'];
+const QUESTION_KEYS = ['question', 'q', 'prompt', 'query'];
+const ANSWER_KEYS = ['answer', 'a', 'response', 'explanation', 'answer_markdown'];
+const SECTION_LIST_KEYS = ['sections', 'teaching_sections', 'teachingSections', 'lesson', 'data', 'result'];
+const SOURCE_ID_KEYS = ['source_ids', 'sourceIds', 'sources', 'citations', 'documents'];
+
+export interface ValidationResult {
+  sections: TeachingSectionContent[];
+  // Everything that was wrong with the input, including problems that were repaired.
+  issues: string[];
+}
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const pickString = (record: Record<string, unknown>, keys: string[]): string | undefined => {
+  for (const key of keys) {
+    const value = record[key];
+    if (typeof value === 'string' && value.trim()) return value;
+    if (typeof value === 'number') return String(value);
+  }
+  return undefined;
+};
+
+const pickArray = (record: Record<string, unknown>, keys: string[]): unknown[] | undefined => {
+  for (const key of keys) {
+    if (Array.isArray(record[key])) return record[key] as unknown[];
+  }
+  return undefined;
+};
+
+const usedAlias = (record: Record<string, unknown>, keys: string[]): string | undefined =>
+  keys.slice(1).find(key => key in record && !(keys[0] in record));
+
+const SOURCE_ID_PATTERN = /^\[?D?(\d+)(?:[\s,]*(?:pp?|pages?)\.?\s*(\d+)(?:\s*[-–]\s*(\d+))?)?\]?$/i;
+const MAX_CITED_PAGE_SPAN = 20;
+
+interface SourceIds {
+  citations: number[];
+  citedPages: Record<number, number[]>;
+}
+
+// Document markers may come back as numbers, "D2", "[2]", "D1 p.14", "D1 pp. 3-4" or a
+// single comma-separated string.
+const pickSourceIds = (record: Record<string, unknown>): SourceIds => {
+  const result: SourceIds = { citations: [], citedPages: {} };
+  const key = SOURCE_ID_KEYS.find(candidate => record[candidate] !== undefined);
+  if (!key) return result;
+  const raw = record[key];
+  const values = Array.isArray(raw) ? raw : [raw];
+  values.forEach(value => {
+    if (typeof value === 'number' && Number.isInteger(value)) {
+      result.citations.push(value);
+      return;
+    }
+    if (typeof value !== 'string') return;
+    value.split(/[,;](?!\s*(?:pp?|pages?)\b)/i).forEach(part => {
+      const match = part.trim().match(SOURCE_ID_PATTERN);
+      if (!match) return;
+      const documentNumber = parseInt(match[1], 10);
+      result.citations.push(documentNumber);
+      if (!match[2]) return;
+      const first = parseInt(match[2], 10);
+      const last = match[3] ? Math.min(parseInt(match[3], 10), first + MAX_CITED_PAGE_SPAN) : first;
+      const pages = result.citedPages[documentNumber] ?? (result.citedPages[documentNumber] = []);
+      for (let page = first; page <= last; page++) pages.push(page);
+    });
+  });
+  return result;
+};
+
+const validateQaPair = (value: unknown, path: string, issues: string[]): QuestionAnswerPair | null => {
+  if (!isRecord(value)) {
+    issues.push(`${path} is not an object and was dropped.`);
+    return null;
+  }
+  const question = pickString(value, QUESTION_KEYS);
+  const answer = pickString(value, ANSWER_KEYS);
+  if (!question || !answer) {
+    issues.push(`${path} is missing a ${!question ? 'question' : 'answer'} and was dropped.`);
+    return null;
+  }
+  const questionAlias = usedAlias(value, QUESTION_KEYS);
+  const answerAlias = usedAlias(value, ANSWER_KEYS);
+  if (questionAlias) issues.push(`${path} used "${questionAlias}" instead of "question".`);
+  if (answerAlias) issues.push(`${path} used "${answerAlias}" instead of "answer".`);
+  const { citations, citedPages } = pickSourceIds(value);
+  if (citations.length === 0) return { question, answer };
+  return Object.keys(citedPages).length > 0 ? { question, answer, citations, citedPages } : { question, answer, citations };
+};
+
+const validateSection = (value: unknown, index: number, issues: string[]): TeachingSectionContent | null => {
+  const path = `Section ${index + 1}`;
+  if (!isRecord(value)) {
+    issues.push(`${path} is not an object and was dropped.`);
+    return null;
+  }
+  const title = pickString(value, SECTION_TITLE_KEYS);
+  const rawPairs = pickArray(value, QA_PAIRS_KEYS);
+  if (!rawPairs) {
+    issues.push(`${path} has no "qa_pairs" array and was dropped.`);
+    return null;
+  }
+  const titleAlias = usedAlias(value, SECTION_TITLE_KEYS);
+  const pairsAlias = usedAlias(value, QA_PAIRS_KEYS);
+  if (titleAlias) issues.push(`${path} used "${titleAlias}" instead of "section_title".`);
+  if (pairsAlias) issues.push(`${path} used "${pairsAlias}" instead of "qa_pairs".`);
+
+  const qaPairs = rawPairs
+    .map((pair, qaIndex) => validateQaPair(pair, `${path}, Q&A ${qaIndex + 1}`, issues))
+    .filter((pair): pair is QuestionAnswerPair => pair !== null);
+  if (qaPairs.length === 0) {
+    issues.push(`${path} has no usable question-and-answer pairs and was dropped.`);
+    return null;
+  }
+  if (!title) {
+    issues.push(`${path} is missing "section_title"; a placeholder title was used.`);
+  }
+  return { section_title: title ?? `Section ${index + 1}`, qa_pairs: qaPairs };
+};
+
+// Locates the list of sections in whatever top-level value the model produced.
+const findSectionList = (value: unknown, issues: string[]): unknown[] | null => {
+  if (Array.isArray(value)) return value;
+  if (!isRecord(value)) return null;
+  const wrapped = pickArray(value, SECTION_LIST_KEYS);
+  if (wrapped) {
+    issues.push('The sections were wrapped in an object instead of being a top-level array.');
+    return wrapped;
+  }
+  if (pickArray(value, QA_PAIRS_KEYS)) {
+    issues.push('A single section object was returned instead of an array.');
+    return [value];
+  }
+  return null;
+};
+
+export const validateTeachingSections = (value: unknown): ValidationResult => {
+  const issues: string[] = [];
+  const list = findSectionList(value, issues);
+  if (!list) {
+    issues.push('The response is not an array of teaching sections.');
+    return { sections: [], issues };
+  }
+  const sections = list
+    .map((section, index) => validateSection(section, index, issues))
+    .filter((section): section is TeachingSectionContent => section !== null);
+  if (list.length > 0 && sections.length === 0) {
+    issues.push('None of the sections matched the expected shape.');
+  }
+  return { sections, issues };
+};
+
+const STEM_KEYS = ['stem', 'question', 'prompt'];
+const OPTION_KEYS = ['options', 'choices', 'answers'];
+const CORRECT_INDEX_KEYS = ['correct_index', 'correctIndex', 'answer_index', 'correct_answer', 'correct_option', 'correct', 'answer'];
+const EXPLANATION_KEYS = ['explanation', 'rationale', 'reason'];
+const QUIZ_LIST_KEYS = ['questions', 'quiz', 'mcqs', 'items'];
+
+// Accepts a zero-based index, or an option letter ("B") or the option text itself.
+const resolveCorrectIndex = (value: unknown, options: string[]): number | undefined => {
+  if (typeof value === 'number' && Number.isInteger(value)) return value;
+  if (typeof value !== 'string') return undefined;
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) return parseInt(trimmed, 10);
+  if (/^[A-Ha-h]$/.test(trimmed)) return trimmed.toUpperCase().charCodeAt(0) - 65;
+  const textIndex = options.findIndex(option => option.trim().toLowerCase() === trimmed.toLowerCase());
+  return textIndex === -1 ? undefined : textIndex;
+};
+
+const validateQuizQuestion = (value: unknown, index: number, issues: string[]): QuizQuestion | null => {
+  const path = `Question ${index + 1}`;
+  if (!isRecord(value)) {
+    issues.push(`${path} is not an object and was dropped.`);
+    return null;
+  }
+  const stem = pickString(value, STEM_KEYS);
+  const options = (pickArray(value, OPTION_KEYS) ?? [])
+    .filter((option): option is string => typeof option === 'string' && option.trim() !== '');
+  if (!stem || options.length < 2) {
+    issues.push(`${path} is missing ${!stem ? 'a stem' : 'its options'} and was dropped.`);
+    return null;
+  }
+  if (new Set(options.map(option => option.trim().toLowerCase())).size !== options.length) {
+    issues.push(`${path} has duplicate options and was dropped.`);
+    return null;
+  }
+  const rawCorrect = CORRECT_INDEX_KEYS.map(key => value[key]).find(candidate => candidate !== undefined);
+  const correctIndex = resolveCorrectIndex(rawCorrect, options);
+  if (correctIndex === undefined || correctIndex < 0 || correctIndex >= options.length) {
+    issues.push(`${path} does not identify a valid correct option and was dropped.`);
+    return null;
+  }
+  const explanation = pickString(value, EXPLANATION_KEYS);
+  if (!explanation) {
+    issues.push(`${path} has no explanation.`);
+  }
+  return { stem, options, correct_index: correctIndex, explanation: explanation ?? '' };
+};
+
+export interface QuizValidationResult {
+  questions: QuizQuestion[];
+  issues: string[];
+}
+
+export const validateQuizQuestions = (value: unknown): QuizValidationResult => {
+  const issues: string[] = [];
+  const list = Array.isArray(value) ? value : isRecord(value) ? pickArray(value, QUIZ_LIST_KEYS) : undefined;
+  if (!list) {
+    issues.push('The response is not an array of quiz questions.');
+    return { questions: [], issues };
+  }
+  const questions = list
+    .map((question, index) => validateQuizQuestion(question, index, issues))
+    .filter((question): question is QuizQuestion => question !== null);
+  return { questions, issues };
+};
@@ -0,0 +1,217 @@
+import { parseDicom, DataSet } from 'dicom-parser';
+import { ImageAttachment } from '../types';
+
+// Turns uploaded key images and DICOM files into PNG/JPEG attachments for the model.
+// DICOM pixel data is windowed in the browser and re-encoded as a PNG, so none of the file's
+// tags leave the device; only a short whitelist of technical tags is kept as a description.
+
+export class MedicalImageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MedicalImageError';
+  }
+}
+
+export const IMAGE_FILE_ACCEPT = 'image/png,image/jpeg,.dcm,.dicom,application/dicom';
+
+// Uncompressed transfer syntaxes: implicit and explicit VR little endian.
+const SUPPORTED_TRANSFER_SYNTAXES = ['1.2.840.10008.1.2', '1.2.840.10008.1.2.1'];
+
+// The only tags carried over; everything identifying the patient, study or institution is dropped.
+const KEPT_TAGS: { tag: string; label: string }[] = [
+  { tag: 'x00080060', label: 'Modality' },
+  { tag: 'x00180015', label: 'Body part' },
+  { tag: 'x0008103e', label: 'Series' },
+  { tag: 'x00185101', label: 'View' },
+  { tag: 'x00180050', label: 'Slice thickness (mm)' },
+  { tag: 'x00180010', label: 'Contrast' },
+];
+
+export interface WindowSetting {
+  center: number;
+  width: number;
+}
+
+export const CT_WINDOW_PRESETS: { label: string; window: WindowSetting }[] = [
+  { label: 'Brain', window: { center: 40, width: 80 } },
+  { label: 'Subdural', window: { center: 75, width: 215 } },
+  { label: 'Stroke', window: { center: 35, width: 40 } },
+  { label: 'Soft tissue', window: { center: 40, width: 400 } },
+  { label: 'Lung', window: { center: -600, width: 1500 } },
+  { label: 'Bone', window: { center: 400, width: 1800 } },
+];
+
+export interface DicomImage {
+  width: number;
+  height: number;
+  // Modality values (after rescale slope/intercept) for grayscale images; RGB bytes otherwise.
+  pixels: Float32Array;
+  isColor: boolean;
+  // MONOCHROME1 images display low values as white.
+  isInverted: boolean;
+  defaultWindow: WindowSetting;
+  description: string;
+  // The file says text is burned into the pixels, which may include patient details.
+  hasBurnedInAnnotation: boolean;
+}
+
+const isDicomFile = (file: File): boolean =>
+  /\.(dcm|dicom)$/i.test(file.name) || file.type === 'application/dicom';
+
+const firstNumber = (dataSet: DataSet, tag: string): number | undefined => dataSet.floatString(tag, 0);
+
+export const parseDicomImage = async (file: File): Promise<DicomImage> => {
+  let dataSet: DataSet;
+  try {
+    dataSet = parseDicom(new Uint8Array(await file.arrayBuffer()));
+  } catch (error) {
+    console.warn(`[Medical Images] Could not parse ${file.name}:`, error);
+    throw new MedicalImageError(`${file.name} is not a readable DICOM file.`);
+  }
+
+  const transferSyntax = dataSet.string('x00020010')?.replace(/\0/g, '').trim();
+  if (transferSyntax && !SUPPORTED_TRANSFER_SYNTAXES.includes(transferSyntax)) {
+    throw new MedicalImageError(`${file.name} uses compressed pixel data, which can't be read in the browser. Export it uncompressed or as a PNG.`);
+  }
+  const pixelElement = dataSet.elements.x7fe00010;
+  const width = dataSet.uint16('x00280011') ?? 0;
+  const height = dataSet.uint16('x00280010') ?? 0;
+  if (!pixelElement || width === 0 || height === 0) {
+    throw new MedicalImageError(`${file.name} contains no image.`);
+  }
+
+  const samplesPerPixel = dataSet.uint16('x00280002') ?? 1;
+  const bitsAllocated = dataSet.uint16('x00280100') ?? 16;
+  const isSigned = dataSet.uint16('x00280103') === 1;
+  const photometric = dataSet.string('x00280004')?.trim() ?? 'MONOCHROME2';
+  const count = width * height * samplesPerPixel;
+  const buffer = dataSet.byteArray.buffer;
+  const offset = dataSet.byteArray.byteOffset + pixelElement.dataOffset;
+
+  // Only the first frame of multi-frame files is used.
+  let raw: ArrayLike<number>;
+  if (bitsAllocated === 8) {
+    raw = new Uint8Array(buffer, offset, count);
+  } else if (bitsAllocated === 16) {
+    // Pixel data is not guaranteed to be 2-byte aligned in the file, so copy it first.
+    const aligned = buffer.slice(offset, offset + count * 2);
+    raw = isSigned ? new Int16Array(aligned) : new Uint16Array(aligned);
+  } else {
+    throw new MedicalImageError(`${file.name} uses ${bitsAllocated}-bit pixels, which are not supported.`);
+  }
+
+  const isColor = samplesPerPixel === 3;
+  if (isColor && (bitsAllocated !== 8 || dataSet.uint16('x00280006') === 1)) {
+    throw new MedicalImageError(`${file.name} uses a colour format that is not supported.`);
+  }
+  const slope = isColor ? 1 : firstNumber(dataSet, 'x00281053') ?? 1;
+  const intercept = isColor ? 0 : firstNumber(dataSet, 'x00281052') ?? 0;
+  const pixels = new Float32Array(count);
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < count; i++) {
+    const value = raw[i] * slope + intercept;
+    pixels[i] = value;
+    if (value < min) min = value;
+    if (value > max) max = value;
+  }
+
+  const center = firstNumber(dataSet, 'x00281050');
+  const windowWidth = firstNumber(dataSet, 'x00281051');
+  const defaultWindow = center !== undefined && windowWidth
+    ? { center, width: windowWidth }
+    : { center: (min + max) / 2, width: Math.max(1, max - min) };
+
+  const description = KEPT_TAGS
+    .map(({ tag, label }) => {
+      const value = dataSet.string(tag)?.trim();
+      return value ? `${label}: ${value}` : '';
+    })
+    .filter(Boolean)
+    .join(', ');
+
+  return {
+    width,
+    height,
+    pixels,
+    isColor,
+    isInverted: photometric === 'MONOCHROME1',
+    defaultWindow,
+    description,
+    hasBurnedInAnnotation: dataSet.string('x00280301')?.trim().toUpperCase() === 'YES',
+  };
+};
+
+// Draws the image with the given window (linear VOI LUT) onto the canvas.
+export const renderDicomImage = (image: DicomImage, windowSetting: WindowSetting, canvas: HTMLCanvasElement): void => {
+  canvas.width = image.width;
+  canvas.height = image.height;
+  const context = canvas.getContext('2d');
+  if (!context) return;
+  const output = context.createImageData(image.width, image.height);
+  const low = windowSetting.center - windowSetting.width / 2;
+  const scale = 255 / Math.max(1, windowSetting.width);
+  for (let i = 0; i < image.width * image.height; i++) {
+    if (image.isColor) {
+      output.data[i * 4] = image.pixels[i * 3];
+      output.data[i * 4 + 1] = image.pixels[i * 3 + 1];
+      output.data[i * 4 + 2] = image.pixels[i * 3 + 2];
+    } else {
+      const level = Math.min(255, Math.max(0, (image.pixels[i] - low) * scale));
+      const shade = image.isInverted ? 255 - level : level;
+      output.data[i * 4] = shade;
+      output.data[i * 4 + 1] = shade;
+      output.data[i * 4 + 2] = shade;
+    }
+    output.data[i * 4 + 3] = 255;
+  }
+  context.putImageData(output, 0, 0);
+};
+
+const dataUrlToBase64 = (dataUrl: string): string => dataUrl.split(',')[1] ?? '';
+
+// A windowed DICOM image as a PNG attachment. Only the pixels and the whitelisted description
+// are included; DICOM file names often contain the patient's name, so a neutral name is used.
+export const dicomToAttachment = (id: string, image: DicomImage, windowSetting: WindowSetting): ImageAttachment => {
+  const canvas = document.createElement('canvas');
+  renderDicomImage(image, windowSetting, canvas);
+  return {
+    id,
+    name: 'DICOM image',
+    mimeType: 'image/png',
+    base64: dataUrlToBase64(canvas.toDataURL('image/png')),
+    ...(image.description ? { description: image.description } : {}),
+    window: windowSetting,
+  };
+};
+
+const readAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+export interface LoadedImage {
+  attachment: ImageAttachment;
+  // Kept for DICOM files so the window can be changed after upload.
+  dicom?: DicomImage;
+}
+
+export const loadImageFile = async (file: File): Promise<LoadedImage> => {
+  const id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  if (isDicomFile(file)) {
+    const dicom = await parseDicomImage(file);
+    return { attachment: dicomToAttachment(id, dicom, dicom.defaultWindow), dicom };
+  }
+  if (file.type !== 'image/png' && file.type !== 'image/jpeg') {
+    throw new MedicalImageError(`${file.name} is not a PNG, JPEG or DICOM file.`);
+  }
+  return {
+    attachment: { id, name: file.name, mimeType: file.type, base64: dataUrlToBase64(await readAsDataUrl(file)) },
+  };
+};
+
+export const attachmentDataUrl = (attachment: Pick<ImageAttachment, 'mimeType' | 'base64'>): string =>
+  `data:${attachment.mimeType};base64,${attachment.base64}`;
@@ -0,0 +1,378 @@
+import { Content, Part } from "@google/genai";
+import { TeachingSectionContent, GroundingSource, QuizQuestion, QuestionAnswerPair, RevisionAction } from '../types';
+import {
+  ModelProvider, ChatResponse, StreamedChatResponse, TeachingContext, TeachingResult,
+  StreamedTeachingResult, TeachingStreamProgress, FollowUpContext, LessonRevisionRequest, LessonIntegrationRequest,
+  RequestCancelledError,
+} from './providerTypes';
+import { estimateTokens } from './contextBudget';
+import { NO_CONTEXT_ANSWER } from './prompts';
+import { addsPairs } from './lessonRevision';
+import { CONFLICT_MARKER } from './sourceIntegration';
+
+// Deterministic offline provider. It returns the same fixture lesson and canned chat
+// replies for every request, so the UI can be developed and demoed without a network
+// connection or API key.
+
+const MOCK_DELAY_MS = 350;
+const MOCK_STREAM_DELAY_MS = 80;
+const MOCK_STREAM_WORDS = 3;
+
+const MOCK_SOURCES: GroundingSource[] = [
+  { uri: 'https://example.org/mock/stroke-imaging-review', title: 'Mock source: Stroke imaging review' },
+  { uri: 'https://example.org/mock/aspects-scoring', title: 'Mock source: ASPECTS scoring guide' },
+];
+
+const MOCK_LESSON: TeachingSectionContent[] = [
+  {
+    section_title: 'Early CT Signs of Acute Ischaemic Stroke',
+    qa_pairs: [
+      {
+        question: 'Which non-contrast CT signs indicate early ischaemia?',
+        answer: 'The key early signs are:\n\n- **Loss of grey-white matter differentiation**, including the *insular ribbon sign*\n- **Obscuration of the lentiform nucleus**\n- **Hyperdense vessel sign**, most often in the proximal MCA\n- Subtle **sulcal effacement** from cytotoxic oedema',
+        citations: [1],
+      },
+      {
+        question: 'How is ASPECTS calculated?',
+        answer: 'ASPECTS divides the MCA territory into **10 regions** on two axial levels. One point is subtracted for each region showing early ischaemic change, so a normal scan scores 10.\n\n| Level | Regions |\n| --- | --- |\n| Ganglionic | C, L, IC, I, M1, M2, M3 |\n| Supraganglionic | M4, M5, M6 |',
+        citations: [2],
+      },
+    ],
+  },
+  {
+    section_title: 'MRI in the Hyperacute Setting',
+    qa_pairs: [
+      {
+        question: 'Why is DWI the most sensitive sequence for acute infarction?',
+        answer: 'Cytotoxic oedema restricts the Brownian motion of water within minutes of ischaemia, producing **high signal on DWI** with a corresponding **low ADC** value.',
+        citations: [1],
+      },
+      {
+        question: 'What is the significance of a DWI-FLAIR mismatch?',
+        answer: 'A lesion that is bright on DWI but not yet visible on FLAIR suggests onset **within about 4.5 hours**, which can support thrombolysis in wake-up strokes.',
+        citations: [1],
+      },
+    ],
+  },
+  {
+    section_title: 'Perfusion Imaging and Treatment Selection',
+    qa_pairs: [
+      {
+        question: 'How are core and penumbra defined on CT perfusion?',
+        answer: 'The **core** is usually defined as relative CBF < 30%, and the **penumbra** as Tmax > 6 s outside the core. The mismatch between them represents potentially salvageable tissue.',
+        citations: [1, 2],
+      },
+    ],
+  },
+];
+
+// Follows the exam answer template in prompts.ts.
+const MOCK_EXAM_ANSWER: TeachingSectionContent[] = [
+  {
+    section_title: 'Definition',
+    qa_pairs: [{
+      question: 'Definition',
+      answer: 'Acute ischaemic stroke is the sudden loss of brain function caused by **arterial occlusion**, most often thromboembolic, with a core of irreversibly infarcted tissue surrounded by a potentially salvageable **penumbra**.',
+      citations: [1],
+    }],
+  },
+  {
+    section_title: 'Epidemiology',
+    qa_pairs: [{
+      question: 'Epidemiology',
+      answer: '- About 85% of strokes are ischaemic\n- Incidence rises steeply after 55 years\n- Risk factors: hypertension, atrial fibrillation, diabetes, smoking, carotid atherosclerosis',
+    }],
+  },
+  {
+    section_title: 'Imaging features',
+    qa_pairs: [
+      {
+        question: 'CT',
+        answer: '- Hyperdense MCA sign\n- Loss of the insular ribbon and lentiform nucleus\n- Sulcal effacement\n- ASPECTS to quantify early change',
+        citations: [1, 2],
+      },
+      {
+        question: 'MRI',
+        answer: '- Restricted diffusion (high DWI, low ADC) within minutes\n- DWI-FLAIR mismatch suggests onset within 4.5 hours',
+        citations: [1],
+      },
+    ],
+  },
+  {
+    section_title: 'Differential diagnosis',
+    qa_pairs: [
+      { question: 'Hypoglycaemia', answer: 'Reversible diffusion restriction, often bilateral, with low blood glucose.' },
+      { question: 'Todd paresis', answer: 'Post-ictal deficit without a vascular territory; cortical diffusion change may be present.' },
+      { question: 'Low-grade glioma', answer: 'Mass effect disproportionate to the deficit and no restricted diffusion.' },
+    ],
+  },
+  {
+    section_title: 'Management',
+    qa_pairs: [{
+      question: 'Management',
+      answer: 'Thrombolysis within 4.5 hours and **mechanical thrombectomy** for large vessel occlusion. Report the presence of haemorrhage, ASPECTS, the occlusion site and collateral status.',
+      citations: [2],
+    }],
+  },
+  {
+    section_title: 'Key references',
+    qa_pairs: [{
+      question: 'Key references',
+      answer: '- Mock reference: Stroke imaging review\n- Mock reference: ASPECTS scoring guide',
+      citations: [1, 2],
+    }],
+  },
+];
+
+const wait = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new RequestCancelledError());
+      return;
+    }
+    const timeoutId = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timeoutId);
+      reject(new RequestCancelledError());
+    }, { once: true });
+  });
+
+const buildMockLesson = (context: TeachingContext): TeachingSectionContent[] => {
+  if (context.examQuestion) {
+    return JSON.parse(JSON.stringify(MOCK_EXAM_ANSWER));
+  }
+  const lesson: TeachingSectionContent[] = JSON.parse(JSON.stringify(MOCK_LESSON));
+  if (context.focusTopic && context.focusTopic.trim()) {
+    lesson[0].qa_pairs.unshift({
+      question: `How does this lesson relate to "${context.focusTopic.trim()}"?`,
+      answer: 'This is a **mock lesson** generated offline. The focus topic is echoed here so you can check that it is passed through to the provider.',
+    });
+  }
+  return lesson;
+};
+
+const MOCK_DIFFERENTIAL_TABLE = '| Differential | Key imaging features | Distinguishing clue |\n| --- | --- | --- |\n| Acute infarct | Restricted diffusion in a vascular territory | Sudden onset, matches the occluded vessel |\n| Hypoglycaemia | Restricted diffusion in cortex, basal ganglia or splenium | Low blood glucose, bilateral |\n| Todd paresis | Often normal or transient cortical DWI change | Recent seizure, not territorial |';
+
+const reviseMockPair = (qa: QuestionAnswerPair, action: RevisionAction): QuestionAnswerPair => {
+  switch (action) {
+    case 'expand':
+      return { ...qa, answer: `${qa.answer}\n\n**More detail (mock):** this paragraph was added offline to check that expanding replaces only this answer.` };
+    case 'simplify':
+      return { ...qa, answer: `*In short (mock):* ${qa.answer.split('\n')[0]}` };
+    case 'differential-table':
+      return { ...qa, answer: `${qa.answer}\n\n${MOCK_DIFFERENTIAL_TABLE}` };
+    default:
+      return { ...qa, answer: `*Regenerated offline.* ${qa.answer}` };
+  }
+};
+
+// A canned revision in the one-section shape the real providers return.
+const buildMockRevision = (revision: LessonRevisionRequest): TeachingSectionContent[] => {
+  const section = revision.lesson[revision.sectionIndex];
+  let qa_pairs: QuestionAnswerPair[];
+  if (addsPairs(revision.action, revision.qaIndex)) {
+    qa_pairs = revision.action === 'differential-table'
+      ? [{ question: 'What is the differential diagnosis?', answer: MOCK_DIFFERENTIAL_TABLE }]
+      : [{ question: `What else is worth knowing about ${section.section_title.toLowerCase()}? (mock)`, answer: 'This question was added offline to check that new questions are appended to the section.', citations: [1] }];
+  } else if (revision.qaIndex !== undefined) {
+    qa_pairs = [reviseMockPair(section.qa_pairs[revision.qaIndex], revision.action)];
+  } else {
+    qa_pairs = section.qa_pairs.map(qa => reviseMockPair(qa, revision.action));
+  }
+  return [{ section_title: section.section_title, qa_pairs }];
+};
+
+// A canned update: one existing answer gains a paragraph and a flagged conflict, and one new
+// section is added.
+const buildMockIntegration = (integration: LessonIntegrationRequest): TeachingSectionContent[] => {
+  const [first] = integration.lesson;
+  const updates: TeachingSectionContent[] = [{
+    section_title: 'Added from the new sources (mock)',
+    qa_pairs: [{ question: 'What do the added sources contribute?', answer: 'This section was added offline to check that new sections are appended to the lesson.', citations: [1] }],
+  }];
+  if (first?.qa_pairs[0]) {
+    const qa = first.qa_pairs[0];
+    updates.unshift({
+      section_title: first.section_title,
+      qa_pairs: [{
+        question: qa.question,
+        answer: `${qa.answer}\n\n**From the new sources (mock):** this paragraph was added offline.\n\n> ${CONFLICT_MARKER} the new source gives a different threshold than the lesson; check local guidance.`,
+        citations: [2],
+      }],
+    });
+  }
+  return updates;
+};
+
+const hasContent = (context: TeachingContext): boolean =>
+  !!(context.urls?.length || context.pdfs?.length || context.pastedTexts?.length || context.images?.length || context.searchQuery || context.examQuestion || context.revision);
+
+async function getTeachingSections(context: TeachingContext, signal?: AbortSignal): Promise<TeachingResult> {
+  if (!hasContent(context)) {
+    throw new Error("No content provided to generate teaching sections.");
+  }
+  await wait(MOCK_DELAY_MS, signal);
+  const sections = context.revision ? buildMockRevision(context.revision)
+    : context.integration ? buildMockIntegration(context.integration)
+    : buildMockLesson(context);
+  return { sections, sources: MOCK_SOURCES };
+}
+
+async function streamTeachingSections(
+  context: TeachingContext,
+  onProgress: (progress: TeachingStreamProgress) => void,
+  signal?: AbortSignal
+): Promise<StreamedTeachingResult> {
+  if (!hasContent(context)) {
+    throw new Error("No content provided to generate teaching sections.");
+  }
+  const lesson = buildMockLesson(context);
+  const completed: TeachingSectionContent[] = [];
+  let partialSection: TeachingSectionContent | null = null;
+
+  try {
+    for (const section of lesson) {
+      partialSection = { section_title: section.section_title, qa_pairs: [] };
+      for (const qa of section.qa_pairs) {
+        await wait(MOCK_DELAY_MS, signal);
+        partialSection.qa_pairs.push(qa);
+        onProgress({ sections: [...completed], partialSection: { ...partialSection, qa_pairs: [...partialSection.qa_pairs] } });
+      }
+      completed.push(section);
+      partialSection = null;
+      onProgress({ sections: [...completed], partialSection: null });
+    }
+    return { sections: completed, sources: MOCK_SOURCES, cancelled: false };
+  } catch (error) {
+    if (signal?.aborted) {
+      const kept = [...completed];
+      if (partialSection && partialSection.qa_pairs.length > 0) {
+        kept.push(partialSection);
+      }
+      return { sections: kept, sources: MOCK_SOURCES, cancelled: true };
+    }
+    throw error;
+  }
+}
+
+async function getFollowUpResponse(
+  userMessage: string,
+  context: FollowUpContext,
+  useWebSearch: boolean,
+  history: Content[],
+  _modelName: string,
+  signal?: AbortSignal
+): Promise<ChatResponse> {
+  await wait(MOCK_DELAY_MS, signal);
+  if (/no answer|unrelated/i.test(userMessage)) {
+    return { text: NO_CONTEXT_ANSWER, sources: [], relatedLinks: [] };
+  }
+  const turn = Math.ceil(history.length / 2);
+  if (useWebSearch) {
+    // The last sentence is deliberately left without grounding so the warning badge can be seen.
+    const supported = [
+      { sentence: 'Early ischaemic change is best assessed with a structured score.', sourceIndices: [0] },
+      { sentence: 'Each affected region lowers the score by one point.', sourceIndices: [1] },
+    ];
+    const text = `**Mock web answer (turn ${turn})** to "${userMessage}".\n\n${supported.map(({ sentence }) => sentence).join(' ')} Scores of seven or less are associated with worse outcomes.\n\nSee also https://example.org/mock/further-reading for more detail.`;
+    return {
+      text,
+      sources: MOCK_SOURCES,
+      relatedLinks: [{ uri: 'https://example.org/mock/further-reading', title: 'https://example.org/mock/further-reading' }],
+      citations: supported.map(({ sentence, sourceIndices }) => {
+        const startIndex = text.indexOf(sentence);
+        return { startIndex, endIndex: startIndex + sentence.length, sourceIndices };
+      }),
+    };
+  }
+  if (context.passages) {
+    if (context.passages.length === 0) {
+      return { text: NO_CONTEXT_ANSWER, sources: [], relatedLinks: [] };
+    }
+    const quoted = context.passages.slice(0, 2).map((passage, index) => `${passage.text.split(/(?<=[.!?])\s/)[0]} [${index + 1}]`);
+    return {
+      text: `**Mock document answer (turn ${turn})** to "${userMessage}".\n\n${quoted.join('\n\n')}`,
+      sources: [],
+      relatedLinks: [],
+    };
+  }
+  const imageCount = history[history.length - 1]?.parts?.filter(part => part.inlineData).length ?? 0;
+  const imageNote = imageCount > 0 ? ` It also refers to the ${imageCount} attached image${imageCount === 1 ? '' : 's'}.` : '';
+  return {
+    text: `**Mock answer (turn ${turn})** to "${userMessage}".\n\n${context.lessonContent !== undefined ? 'This reply is based on the whole lesson.' : `This reply is based on the question *"${context.originalQuestion}"* from the current lesson.`}${imageNote}`,
+    sources: [],
+    relatedLinks: [],
+  };
+}
+
+// Replays the canned reply a few words at a time.
+async function streamFollowUpResponse(
+  userMessage: string,
+  context: FollowUpContext,
+  useWebSearch: boolean,
+  history: Content[],
+  modelName: string,
+  onText: (text: string) => void,
+  signal?: AbortSignal
+): Promise<StreamedChatResponse> {
+  const response = await getFollowUpResponse(userMessage, context, useWebSearch, history, modelName, signal);
+  const words = response.text.split(/(?<=\s)/);
+  let text = '';
+  try {
+    for (let start = 0; start < words.length; start += MOCK_STREAM_WORDS) {
+      await wait(MOCK_STREAM_DELAY_MS, signal);
+      text += words.slice(start, start + MOCK_STREAM_WORDS).join('');
+      onText(text);
+    }
+    return { ...response, cancelled: false };
+  } catch (error) {
+    if (signal?.aborted) {
+      return { text, sources: [], relatedLinks: [], cancelled: true };
+    }
+    throw error;
+  }
+}
+
+const MOCK_DISTRACTORS = [
+  'It is only visible after 24 hours.',
+  'It requires intravenous contrast to detect.',
+  'It is a normal variant without clinical significance.',
+];
+
+// The plain-text first sentence of an answer, used as the "correct" option.
+const firstSentence = (markdown: string): string =>
+  markdown.replace(/[*_`#|>-]/g, '').replace(/\s+/g, ' ').trim().split(/(?<=\.)\s/)[0];
+
+async function generateSectionQuiz(
+  section: TeachingSectionContent,
+  _modelName: string,
+  signal?: AbortSignal
+): Promise<QuizQuestion[]> {
+  await wait(MOCK_DELAY_MS, signal);
+  return section.qa_pairs.map((qa, index) => {
+    const correct = firstSentence(qa.answer);
+    const options = [...MOCK_DISTRACTORS];
+    const correctIndex = index % 4;
+    options.splice(correctIndex, 0, correct);
+    return {
+      stem: qa.question,
+      options,
+      correct_index: correctIndex,
+      explanation: `**Mock explanation.** The section states: ${correct}`,
+    };
+  });
+}
+
+export const mockProvider: ModelProvider = {
+  id: 'mock',
+  label: 'Offline mock (no network)',
+  models: [{ value: 'mock-lesson', label: 'Mock fixture lesson' }],
+  capabilities: { urlContext: true, pdfInput: true, imageInput: true, webSearch: true },
+  getConfigurationError: () => null,
+  getTeachingSections,
+  streamTeachingSections,
+  getFollowUpResponse,
+  streamFollowUpResponse,
+  countTokens: async (parts: Part[]) => parts.reduce((sum, part) => sum + estimateTokens(part.text ?? ''), 0),
+  generateSectionQuiz,
+};
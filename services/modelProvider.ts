@@ -0,0 +1,28 @@
+import { ModelProvider, ProviderId } from './providerTypes';
+import { geminiProvider } from './geminiService';
+import { openAiCompatibleProvider } from './openAiCompatibleService';
+import { mockProvider } from './mockService';
+
+export * from './providerTypes';
+
+const SELECTED_PROVIDER_KEY = 'radiology-lessons:provider';
+
+export const MODEL_PROVIDERS: ModelProvider[] = [geminiProvider, openAiCompatibleProvider, mockProvider];
+
+export const DEFAULT_PROVIDER_ID: ProviderId = 'gemini';
+
+export const getModelProvider = (id: ProviderId = DEFAULT_PROVIDER_ID): ModelProvider =>
+  MODEL_PROVIDERS.find(provider => provider.id === id) ?? geminiProvider;
+
+export const getStoredProviderId = (): ProviderId => {
+  try {
+    const stored = localStorage.getItem(SELECTED_PROVIDER_KEY);
+    return MODEL_PROVIDERS.some(provider => provider.id === stored) ? (stored as ProviderId) : DEFAULT_PROVIDER_ID;
+  } catch {
+    return DEFAULT_PROVIDER_ID;
+  }
+};
+
+export const storeProviderId = (id: ProviderId): void => {
+  localStorage.setItem(SELECTED_PROVIDER_KEY, id);
+};
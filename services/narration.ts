@@ -0,0 +1,181 @@
+import { TeachingSectionContent } from '../types';
+
+// Read-aloud narration with the browser's speechSynthesis. A lesson is read as a script of
+// short utterances: each section title, each question and each sentence of its answer, so
+// the sentence being read can be highlighted and reading can skip ahead by question.
+
+const SETTINGS_KEY = 'radiology-lessons:narration-settings';
+
+export interface Pronunciation {
+  term: string;
+  spoken: string;
+}
+
+export interface NarrationSettings {
+  rate: number;
+  // The voice's voiceURI; empty for the browser default.
+  voiceURI: string;
+  pronunciations: Pronunciation[];
+}
+
+export const DEFAULT_PRONUNCIATIONS: Pronunciation[] = [
+  { term: 'T2 FLAIR', spoken: 'T2 flair' },
+  { term: 'FLAIR', spoken: 'flair' },
+  { term: 'STIR', spoken: 'stir' },
+  { term: 'T1W', spoken: 'T1 weighted' },
+  { term: 'T2W', spoken: 'T2 weighted' },
+  { term: 'ADC', spoken: 'A D C' },
+  { term: 'DWI', spoken: 'D W I' },
+  { term: 'SWI', spoken: 'S W I' },
+  { term: 'GRE', spoken: 'G R E' },
+  { term: 'HU', spoken: 'Hounsfield units' },
+  { term: 'CT', spoken: 'C T' },
+  { term: 'MRI', spoken: 'M R I' },
+  { term: 'SUV', spoken: 'S U V' },
+  { term: 'mGy', spoken: 'milligray' },
+];
+
+export const DEFAULT_NARRATION_SETTINGS: NarrationSettings = {
+  rate: 1,
+  voiceURI: '',
+  pronunciations: DEFAULT_PRONUNCIATIONS,
+};
+
+export const isNarrationSupported = typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+export const getNarrationSettings = (): NarrationSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    return stored ? { ...DEFAULT_NARRATION_SETTINGS, ...JSON.parse(stored) } : DEFAULT_NARRATION_SETTINGS;
+  } catch {
+    return DEFAULT_NARRATION_SETTINGS;
+  }
+};
+
+export const saveNarrationSettings = (settings: NarrationSettings): void => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// The dictionary as editable text, one "term = spoken form" per line.
+export const formatPronunciations = (pronunciations: Pronunciation[]): string =>
+  pronunciations.map(({ term, spoken }) => `${term} = ${spoken}`).join('\n');
+
+export const parsePronunciations = (text: string): Pronunciation[] =>
+  text.split('\n').flatMap(line => {
+    const separator = line.indexOf('=');
+    if (separator === -1) return [];
+    const term = line.slice(0, separator).trim();
+    const spoken = line.slice(separator + 1).trim();
+    return term && spoken ? [{ term, spoken }] : [];
+  });
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Terms are matched case-sensitively as whole words, longest first, so "T2 FLAIR" wins over "FLAIR".
+export const applyPronunciations = (text: string, pronunciations: Pronunciation[]): string =>
+  [...pronunciations]
+    .sort((a, b) => b.term.length - a.term.length)
+    .reduce((result, { term, spoken }) =>
+      result.replace(new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(term)}(?![\\p{L}\\p{N}])`, 'gu'), spoken), text);
+
+// The text of an answer as it should be heard: no Markdown syntax, links, images, HTML or
+// [n] citation markers. Table rows are read as comma-separated cells.
+export const stripMarkdown = (markdown: string): string =>
+  markdown
+    .replace(/```[\s\S]*?```/g, '')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/ ?\[\d+\]/g, '')
+    .replace(/^[ \t]*\|?[ \t:|-]*-{3,}[ \t:|-]*$/gm, '')
+    .replace(/^[ \t]*\|(.*?)\|?[ \t]*$/gm, (_, cells: string) => `${cells.split('|').map(cell => cell.trim()).filter(Boolean).join(', ')}.`)
+    .replace(/^[ \t]{0,3}(#{1,6}|>|[-*+]|\d+[.)])[ \t]+/gm, '')
+    .replace(/(\*\*|__|~~|`)/g, '')
+    .replace(/(^|[^\p{L}\p{N}])[*_]([^*_\n]+)[*_](?![\p{L}\p{N}])/gu, '$1$2');
+
+// Sentences end at ., ! or ? before a capital letter or digit (so "e.g. the" is not split),
+// and at line breaks, which end list items and headings.
+export const answerSentences = (answer: string): string[] =>
+  stripMarkdown(answer)
+    .split('\n')
+    .flatMap(line => line.split(/(?<=[.!?])\s+(?=[\p{Lu}\p{N}"'(])/u))
+    .map(sentence => sentence.replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+
+export interface NarrationItem {
+  kind: 'title' | 'question' | 'sentence';
+  sectionIndex: number;
+  qaIndex?: number;
+  // The sentence's position in answerSentences(answer).
+  sentenceIndex?: number;
+  text: string;
+}
+
+export const buildNarrationScript = (sections: TeachingSectionContent[], fromSection = 0): NarrationItem[] =>
+  sections.slice(fromSection).flatMap((section, offset) => {
+    const sectionIndex = fromSection + offset;
+    return [
+      { kind: 'title' as const, sectionIndex, text: `Section ${sectionIndex + 1}. ${section.section_title}` },
+      ...section.qa_pairs.flatMap((qa, qaIndex) => [
+        ...(qa.question.trim() ? [{ kind: 'question' as const, sectionIndex, qaIndex, text: qa.question.trim() }] : []),
+        ...answerSentences(qa.answer).map((text, sentenceIndex) => ({ kind: 'sentence' as const, sectionIndex, qaIndex, sentenceIndex, text })),
+      ]),
+    ];
+  });
+
+// Where the question after the one being read starts, or -1 at the last question. A section
+// title counts as the start of that section's first question.
+export const nextQuestionIndex = (script: NarrationItem[], index: number): number => {
+  const current = script[index];
+  return script.findIndex((item, candidate) =>
+    candidate > index && item.kind !== 'sentence' &&
+    !(item.kind === 'question' && current?.kind === 'title' && item.sectionIndex === current.sectionIndex && item.qaIndex === 0));
+};
+
+// Only one narration speaks at a time; starting another ends the previous one.
+let activeRun = 0;
+
+// Speaks `texts` in order from `start`, one utterance each. `onItem` is called as each one
+// starts and `onDone` when the last ends, an error stops reading, or another narration takes
+// over. Returns a function that stops reading without calling `onDone`.
+export const narrate = (
+  texts: string[],
+  start: number,
+  settings: NarrationSettings,
+  onItem: (index: number) => void,
+  onDone: () => void
+): (() => void) => {
+  const run = ++activeRun;
+  let finished = false;
+  const finish = () => {
+    if (finished) return;
+    finished = true;
+    onDone();
+  };
+  const voice = window.speechSynthesis.getVoices().find(candidate => candidate.voiceURI === settings.voiceURI);
+
+  const speakFrom = (index: number) => {
+    if (run !== activeRun || index >= texts.length) {
+      finish();
+      return;
+    }
+    onItem(index);
+    const utterance = new SpeechSynthesisUtterance(applyPronunciations(texts[index], settings.pronunciations));
+    utterance.rate = settings.rate;
+    if (voice) utterance.voice = voice;
+    utterance.onend = () => speakFrom(index + 1);
+    utterance.onerror = finish;
+    window.speechSynthesis.speak(utterance);
+  };
+
+  window.speechSynthesis.cancel();
+  window.speechSynthesis.resume();
+  speakFrom(start);
+  return () => {
+    finished = true;
+    if (run === activeRun) {
+      activeRun++;
+      window.speechSynthesis.cancel();
+    }
+  };
+};
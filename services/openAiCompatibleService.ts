@@ -0,0 +1,324 @@
+import { Content, Part } from "@google/genai";
+import { TeachingSectionContent, QuizQuestion } from '../types';
+import {
+  ModelProvider, ChatResponse, StreamedChatResponse, TeachingContext, TeachingResult,
+  StreamedTeachingResult, TeachingStreamProgress, FollowUpContext,
+  ModelRequestError, NetworkError, RequestCancelledError,
+} from './providerTypes';
+import { estimateTokens } from './contextBudget';
+import { runModelRequest, lessonRequestOptions, chatRequestOptions } from './requestRunner';
+import { parseTeachingResponseWithRepair, parseQuizResponse, extractStreamedSections, extractRelatedLinks } from './responseParsing';
+import { buildTeachingInstruction, buildExamAnswerInstruction, buildRevisionInstruction, buildRevisionPrompt, buildIntegrationInstruction, buildIntegrationPrompt, buildFollowUpInstruction, buildQuizInstruction, buildQuizPrompt, buildDocumentCitationInstruction, formatPastedContent, TEACHING_JSON_OUTPUT_INSTRUCTION, TEACHING_JSON_SHAPE_DESCRIPTION, QUIZ_JSON_SHAPE_DESCRIPTION, CONTEXT_ONLY_INSTRUCTION } from './prompts';
+import { DEFAULT_PROMPT_PROFILE } from './promptProfiles';
+import { buildDocumentSources, documentLabel, resolveDocumentCitations } from './citations';
+
+// Talks to any server exposing the OpenAI `/chat/completions` API, e.g. Ollama,
+// llama.cpp's server, vLLM or LM Studio. These servers have no URL fetching, PDF
+// input or web search, so only pasted text can be used as lesson content.
+
+const SETTINGS_KEY = 'radiology-lessons:openai-compatible';
+
+export interface OpenAiCompatibleSettings {
+  baseUrl: string;
+  apiKey: string;
+}
+
+const DEFAULT_SETTINGS: OpenAiCompatibleSettings = {
+  baseUrl: 'http://localhost:11434/v1',
+  apiKey: '',
+};
+
+export const getOpenAiCompatibleSettings = (): OpenAiCompatibleSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    return stored ? { ...DEFAULT_SETTINGS, ...JSON.parse(stored) } : DEFAULT_SETTINGS;
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveOpenAiCompatibleSettings = (settings: OpenAiCompatibleSettings): void => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+interface OpenAiMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+const toOpenAiMessages = (systemInstruction: string, history: Content[]): OpenAiMessage[] => [
+  { role: 'system', content: systemInstruction },
+  ...history.map((turn): OpenAiMessage => ({
+    role: turn.role === 'model' ? 'assistant' : 'user',
+    content: (turn.parts || []).map(p => p.text || '').join(''),
+  })),
+];
+
+const postChatCompletion = async (body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> => {
+  const { baseUrl, apiKey } = getOpenAiCompatibleSettings();
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (apiKey) {
+    headers['Authorization'] = `Bearer ${apiKey}`;
+  }
+  const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify(body),
+    signal,
+  });
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    // The status is attached so the request runner can classify and retry the failure.
+    throw Object.assign(
+      new Error(`The OpenAI-compatible server responded with ${response.status}${detail ? `: ${detail.substring(0, 200)}` : ''}`),
+      { status: response.status },
+    );
+  }
+  return response;
+};
+
+// Yields the text deltas of a server-sent-events chat completion stream.
+async function* readCompletionStream(response: Response): AsyncGenerator<string> {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith('data:')) continue;
+      const data = trimmed.substring(5).trim();
+      if (data === '[DONE]') return;
+      try {
+        const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+        if (delta) yield delta;
+      } catch {
+        // Ignore keep-alive comments and partial frames.
+      }
+    }
+  }
+}
+
+const buildTeachingMessages = (context: TeachingContext): OpenAiMessage[] => {
+  if ((context.urls && context.urls.length > 0) || (context.pdfs && context.pdfs.length > 0) || (context.images && context.images.length > 0) || context.searchQuery) {
+    throw new Error("The OpenAI-compatible provider can only use pasted text. It cannot fetch URLs, read PDFs or images, or search the web.");
+  }
+  const pastedTexts = context.pastedTexts ?? [];
+  // An exam question may be answered from the model's own knowledge, and a revision from the lesson itself.
+  if (pastedTexts.length === 0 && !context.examQuestion && !context.revision) {
+    throw new Error("No content provided to generate teaching sections.");
+  }
+
+  const profile = context.promptProfile ?? DEFAULT_PROMPT_PROFILE;
+  const instruction = context.revision
+    ? buildRevisionInstruction(context.revision, profile)
+    : context.integration ? buildIntegrationInstruction(profile)
+    : context.examQuestion ? buildExamAnswerInstruction(context.examQuestion, profile) : buildTeachingInstruction(context.focusTopic, profile);
+  const systemInstruction = `${instruction}
+${TEACHING_JSON_OUTPUT_INSTRUCTION} ${TEACHING_JSON_SHAPE_DESCRIPTION}${pastedTexts.length > 0 ? buildDocumentCitationInstruction(pastedTexts.length) : ''}`;
+  const task = context.revision
+    ? buildRevisionPrompt(context.revision)
+    : context.integration ? buildIntegrationPrompt(context.integration)
+    : context.examQuestion ? `Write the model answer to this exam question: "${context.examQuestion}".` : '';
+  const content = pastedTexts.length === 0
+    ? task
+    : `Your analysis should be based on the following ${pastedTexts.length} pasted text snippet(s). Please synthesize information from all of them.\n\n` +
+      pastedTexts.map((text, index) => formatPastedContent(text, documentLabel(index + 1))).join('\n\n') +
+      (task ? `\n\n${task}` : '');
+
+  return [
+    { role: 'system', content: systemInstruction },
+    { role: 'user', content },
+  ];
+};
+
+// Sends a non-streaming completion through the request runner and returns the reply text.
+const completeText = async (body: Record<string, unknown>, options: ReturnType<typeof lessonRequestOptions>): Promise<string> =>
+  runModelRequest(async requestSignal => {
+    const response = await postChatCompletion(body, requestSignal);
+    const data = await response.json();
+    return (data.choices?.[0]?.message?.content ?? '') as string;
+  }, options);
+
+const requestJsonRepair = (model: string, signal?: AbortSignal) => (prompt: string): Promise<string> =>
+  completeText({ model, messages: [{ role: 'user', content: prompt }], temperature: 0 }, lessonRequestOptions(signal));
+
+const toTeachingError = (error: unknown): Error => {
+  console.error("Error generating teaching sections:", error);
+  if (error instanceof NetworkError) {
+    const { baseUrl } = getOpenAiCompatibleSettings();
+    return new NetworkError(`Could not reach the OpenAI-compatible server at ${baseUrl}. Check that it is running and allows requests from this page (CORS).`);
+  }
+  return error instanceof Error ? error : new Error("Failed to generate teaching sections.");
+};
+
+// The profile's sampling settings; there is no top-k in the chat completions API.
+const teachingSampling = (context: TeachingContext) => {
+  const profile = context.promptProfile ?? DEFAULT_PROMPT_PROFILE;
+  return { temperature: profile.temperature, top_p: profile.topP };
+};
+
+// The pasted snippets are the lesson's only sources, so answers cite them by document number.
+const toTeachingResult = (sections: TeachingSectionContent[], context: TeachingContext): TeachingResult => {
+  const sources = buildDocumentSources(context);
+  return { sections: resolveDocumentCitations(sections, sources.length), sources };
+};
+
+async function getTeachingSections(context: TeachingContext, signal?: AbortSignal): Promise<TeachingResult> {
+  const messages = buildTeachingMessages(context);
+  try {
+    const text = await completeText({ model: context.model, messages, ...teachingSampling(context) }, lessonRequestOptions(signal));
+    const sections = await parseTeachingResponseWithRepair(text, requestJsonRepair(context.model, signal));
+    return toTeachingResult(sections, context);
+  } catch (error) {
+    throw toTeachingError(error);
+  }
+}
+
+async function streamTeachingSections(
+  context: TeachingContext,
+  onProgress: (progress: TeachingStreamProgress) => void,
+  signal?: AbortSignal
+): Promise<StreamedTeachingResult> {
+  const messages = buildTeachingMessages(context);
+  let responseText = '';
+  let progress: TeachingStreamProgress = { sections: [], partialSection: null };
+  let lastProgressKey = '';
+
+  try {
+    await runModelRequest(async requestSignal => {
+      const response = await postChatCompletion({ model: context.model, messages, ...teachingSampling(context), stream: true }, requestSignal);
+      for await (const delta of readCompletionStream(response)) {
+        responseText += delta;
+        progress = extractStreamedSections(responseText);
+        const progressKey = `${progress.sections.length}:${progress.partialSection?.section_title ?? ''}:${progress.partialSection?.qa_pairs.length ?? -1}`;
+        if (progressKey !== lastProgressKey) {
+          lastProgressKey = progressKey;
+          onProgress(progress);
+        }
+      }
+    }, { ...lessonRequestOptions(signal), canRetry: () => responseText.length === 0 });
+    const sections = await parseTeachingResponseWithRepair(responseText, requestJsonRepair(context.model, signal));
+    return { ...toTeachingResult(sections, context), cancelled: false };
+  } catch (error) {
+    if (error instanceof RequestCancelledError) {
+      const kept = [...progress.sections];
+      if (progress.partialSection && progress.partialSection.qa_pairs.length > 0) {
+        kept.push(progress.partialSection);
+      }
+      return { ...toTeachingResult(kept, context), cancelled: true };
+    }
+    throw toTeachingError(error);
+  }
+}
+
+async function getFollowUpResponse(
+  userMessage: string,
+  context: FollowUpContext,
+  useWebSearch: boolean,
+  history: Content[],
+  modelName: string,
+  signal?: AbortSignal
+): Promise<ChatResponse> {
+  if (useWebSearch) {
+    throw new Error("The OpenAI-compatible provider cannot search the web.");
+  }
+  const systemInstruction = buildFollowUpInstruction(context) + CONTEXT_ONLY_INSTRUCTION;
+  try {
+    const text = await completeText({
+      model: modelName,
+      messages: toOpenAiMessages(systemInstruction, history),
+      temperature: (context.promptProfile ?? DEFAULT_PROMPT_PROFILE).followUpTemperature,
+    }, chatRequestOptions(signal));
+    return { text, sources: [], relatedLinks: extractRelatedLinks(text, []) };
+  } catch (error) {
+    console.error("Error getting chat response from OpenAI-compatible server:", error);
+    if (error instanceof ModelRequestError) {
+      throw toTeachingError(error);
+    }
+    throw new Error("Failed to get chat response. The AI model might be unavailable.");
+  }
+}
+
+async function streamFollowUpResponse(
+  userMessage: string,
+  context: FollowUpContext,
+  useWebSearch: boolean,
+  history: Content[],
+  modelName: string,
+  onText: (text: string) => void,
+  signal?: AbortSignal
+): Promise<StreamedChatResponse> {
+  if (useWebSearch) {
+    throw new Error("The OpenAI-compatible provider cannot search the web.");
+  }
+  const systemInstruction = buildFollowUpInstruction(context) + CONTEXT_ONLY_INSTRUCTION;
+  let text = '';
+  try {
+    await runModelRequest(async requestSignal => {
+      const response = await postChatCompletion({
+        model: modelName,
+        messages: toOpenAiMessages(systemInstruction, history),
+        temperature: (context.promptProfile ?? DEFAULT_PROMPT_PROFILE).followUpTemperature,
+        stream: true,
+      }, requestSignal);
+      for await (const delta of readCompletionStream(response)) {
+        text += delta;
+        onText(text);
+      }
+    }, { ...chatRequestOptions(signal), canRetry: () => text.length === 0 });
+    return { text, sources: [], relatedLinks: extractRelatedLinks(text, []), cancelled: false };
+  } catch (error) {
+    if (error instanceof RequestCancelledError) {
+      return { text, sources: [], relatedLinks: extractRelatedLinks(text, []), cancelled: true };
+    }
+    console.error("Error streaming chat response from OpenAI-compatible server:", error);
+    if (error instanceof ModelRequestError) {
+      throw toTeachingError(error);
+    }
+    throw new Error("Failed to get chat response. The AI model might be unavailable.");
+  }
+}
+
+async function generateSectionQuiz(
+  section: TeachingSectionContent,
+  modelName: string,
+  signal?: AbortSignal
+): Promise<QuizQuestion[]> {
+  const systemInstruction = `${buildQuizInstruction()}
+${QUIZ_JSON_SHAPE_DESCRIPTION} Do not add any text before or after the JSON.`;
+  try {
+    const text = await completeText({
+      model: modelName,
+      messages: [
+        { role: 'system', content: systemInstruction },
+        { role: 'user', content: buildQuizPrompt(section) },
+      ],
+      temperature: 0.4,
+    }, lessonRequestOptions(signal));
+    return parseQuizResponse(text);
+  } catch (error) {
+    throw toTeachingError(error);
+  }
+}
+
+export const openAiCompatibleProvider: ModelProvider = {
+  id: 'openai-compatible',
+  label: 'OpenAI-compatible (local server)',
+  // Model names depend on what the server has loaded, so they are typed in by the user.
+  models: [],
+  capabilities: { urlContext: false, pdfInput: false, imageInput: false, webSearch: false },
+  getConfigurationError: () =>
+    getOpenAiCompatibleSettings().baseUrl.trim() ? null : "Enter the base URL of your OpenAI-compatible server.",
+  getTeachingSections,
+  streamTeachingSections,
+  getFollowUpResponse,
+  streamFollowUpResponse,
+  countTokens: async (parts: Part[]) => parts.reduce((sum, part) => sum + estimateTokens(part.text ?? ''), 0),
+  generateSectionQuiz,
+};
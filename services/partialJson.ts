@@ -0,0 +1,184 @@
+// A forgiving JSON parser for text that is still being streamed from the model.
+// It parses as far as the input allows and reports which arrays/objects were
+// cut off, so callers can use the parts that are already complete.
+
+export interface PartialParseResult {
+  value: unknown;
+  // Objects and arrays whose closing bracket has not arrived yet.
+  incomplete: WeakSet<object>;
+  // True when the top-level value was fully closed.
+  complete: boolean;
+  // Position just after the parsed value (or the end of the input if it was cut off).
+  end: number;
+}
+
+// Thrown when the input ends mid-value; carries whatever could be salvaged.
+// Unterminated strings and numbers are dropped rather than returned half-written.
+class Truncated extends Error {
+  constructor(public partial: unknown) {
+    super('Unexpected end of JSON input');
+  }
+}
+
+const WHITESPACE = new Set([' ', '\n', '\r', '\t']);
+
+export function parsePartialJson(text: string, start = 0): PartialParseResult {
+  const incomplete = new WeakSet<object>();
+  let pos = start;
+
+  const skipWhitespace = () => {
+    while (pos < text.length && WHITESPACE.has(text[pos])) pos++;
+  };
+
+  const parseString = (): string => {
+    pos++; // opening quote
+    let result = '';
+    while (pos < text.length) {
+      const ch = text[pos];
+      if (ch === '"') {
+        pos++;
+        return result;
+      }
+      if (ch === '\\') {
+        if (pos + 1 >= text.length) break;
+        const esc = text[pos + 1];
+        switch (esc) {
+          case 'n': result += '\n'; break;
+          case 't': result += '\t'; break;
+          case 'r': result += '\r'; break;
+          case 'b': result += '\b'; break;
+          case 'f': result += '\f'; break;
+          case 'u':
+            if (pos + 5 >= text.length) throw new Truncated(undefined);
+            result += String.fromCharCode(parseInt(text.substring(pos + 2, pos + 6), 16));
+            pos += 4;
+            break;
+          default: result += esc;
+        }
+        pos += 2;
+        continue;
+      }
+      result += ch;
+      pos++;
+    }
+    throw new Truncated(undefined);
+  };
+
+  const parseLiteral = (): unknown => {
+    const match = /^(-?\d+(\.\d+)?([eE][+-]?\d+)?|true|false|null)/.exec(text.substring(pos, pos + 64));
+    if (!match) {
+      // A keyword cut off mid-way ("tr", "nul") is a truncation, anything else is malformed.
+      const rest = text.substring(pos);
+      if (rest.length < 5 && ['true', 'false', 'null'].some(k => k.startsWith(rest))) throw new Truncated(undefined);
+      throw new SyntaxError(`Unexpected character '${text[pos]}' at position ${pos}`);
+    }
+    // A number at the very end of the buffer may still be growing.
+    if (pos + match[0].length >= text.length && /^-?\d/.test(match[0])) throw new Truncated(undefined);
+    pos += match[0].length;
+    return JSON.parse(match[0]);
+  };
+
+  const parseArray = (): unknown[] => {
+    pos++; // [
+    const arr: unknown[] = [];
+    while (true) {
+      skipWhitespace();
+      if (pos >= text.length) break;
+      if (text[pos] === ']') {
+        pos++;
+        return arr;
+      }
+      if (text[pos] === ',') {
+        pos++;
+        continue;
+      }
+      try {
+        arr.push(parseValue());
+      } catch (e) {
+        if (!(e instanceof Truncated)) throw e;
+        if (e.partial !== undefined) arr.push(e.partial);
+        break;
+      }
+    }
+    incomplete.add(arr);
+    throw new Truncated(arr);
+  };
+
+  const parseObject = (): Record<string, unknown> => {
+    pos++; // {
+    const obj: Record<string, unknown> = {};
+    while (true) {
+      skipWhitespace();
+      if (pos >= text.length) break;
+      if (text[pos] === '}') {
+        pos++;
+        return obj;
+      }
+      if (text[pos] === ',') {
+        pos++;
+        continue;
+      }
+      if (text[pos] !== '"') throw new SyntaxError(`Expected a property name at position ${pos}`);
+      let key: string;
+      try {
+        key = parseString();
+      } catch (e) {
+        if (e instanceof Truncated) break;
+        throw e;
+      }
+      skipWhitespace();
+      if (pos >= text.length) break;
+      if (text[pos] !== ':') throw new SyntaxError(`Expected ':' at position ${pos}`);
+      pos++;
+      try {
+        obj[key] = parseValue();
+      } catch (e) {
+        if (!(e instanceof Truncated)) throw e;
+        if (e.partial !== undefined) obj[key] = e.partial;
+        break;
+      }
+    }
+    incomplete.add(obj);
+    throw new Truncated(obj);
+  };
+
+  const parseValue = (): unknown => {
+    skipWhitespace();
+    if (pos >= text.length) throw new Truncated(undefined);
+    const ch = text[pos];
+    if (ch === '{') return parseObject();
+    if (ch === '[') return parseArray();
+    if (ch === '"') return parseString();
+    return parseLiteral();
+  };
+
+  try {
+    const value = parseValue();
+    return { value, incomplete, complete: true, end: pos };
+  } catch (e) {
+    if (e instanceof Truncated) {
+      return { value: e.partial, incomplete, complete: false, end: text.length };
+    }
+    throw e;
+  }
+}
+
+// Finds where the JSON payload starts in a model response that may be wrapped in
+// a Markdown code fence or preceded by prose. Returns -1 if no payload has started yet.
+export function findJsonStart(text: string): number {
+  const firstBracket = (from: number): number => {
+    const arrayStart = text.indexOf('[', from);
+    const objectStart = text.indexOf('{', from);
+    if (arrayStart === -1) return objectStart;
+    if (objectStart === -1) return arrayStart;
+    return Math.min(arrayStart, objectStart);
+  };
+  // A fence only wraps the payload if it opens before any bracket; a fence after that is a
+  // code block inside one of the answers.
+  const start = firstBracket(0);
+  const fence = /```(?:json)?\s*/i.exec(text);
+  if (fence && (start === -1 || fence.index < start)) {
+    return firstBracket(fence.index + fence[0].length);
+  }
+  return start;
+}
@@ -0,0 +1,296 @@
+import { jsPDF } from 'jspdf';
+import html2canvas from 'html2canvas';
+import { marked } from 'marked';
+import { TeachingSectionContent, GroundingSource, ChatMessage } from '../types';
+import { isDocumentSource, withCitationNumbers, formatCitationLabel } from './citations';
+import { pairKey } from './lessonEditor';
+import { escapeHtml } from './html';
+
+// Renders a lesson to a paginated A4 PDF. Content is laid out as HTML in an off-screen
+// container and captured block by block with html2canvas, so Markdown, tables and
+// non-Latin text look exactly as in the app. Blocks are kept whole where they fit on a
+// page and only sliced when a single block is taller than a page.
+
+export interface PdfExportLesson {
+  title: string;
+  teachingSteps: TeachingSectionContent[];
+  sources: GroundingSource[];
+  chatHistories: Record<string, ChatMessage[]>;
+}
+
+export interface PdfExportOptions {
+  includeChats: boolean;
+}
+
+const PAGE_WIDTH_MM = 210;
+const PAGE_HEIGHT_MM = 297;
+const MARGIN_MM = 18;
+const FOOTER_MM = 10;
+const CONTENT_WIDTH_MM = PAGE_WIDTH_MM - 2 * MARGIN_MM;
+const CONTENT_BOTTOM_MM = PAGE_HEIGHT_MM - MARGIN_MM - FOOTER_MM;
+const BLOCK_GAP_MM = 3;
+// Width of the off-screen layout in CSS pixels; everything is scaled to CONTENT_WIDTH_MM.
+const LAYOUT_WIDTH_PX = 680;
+const MM_PER_PX = CONTENT_WIDTH_MM / LAYOUT_WIDTH_PX;
+// Rendering at twice the CSS resolution keeps text sharp when printed.
+const RENDER_SCALE = 2;
+const TOC_ROWS_PER_PAGE = 26;
+const SOURCES_PER_BLOCK = 8;
+
+const PDF_STYLES = `
+.lesson-pdf { width: ${LAYOUT_WIDTH_PX}px; background: #fff; color: #1e293b; font-family: -apple-system, "Segoe UI", Roboto, Arial, sans-serif; font-size: 14px; line-height: 1.55; }
+.lesson-pdf .block { padding: 2px 0; background: #fff; }
+.lesson-pdf h1 { font-size: 30px; line-height: 1.2; margin: 0 0 12px; color: #0c4a6e; }
+.lesson-pdf h2 { font-size: 22px; margin: 0 0 4px; color: #0369a1; border-bottom: 2px solid #bae6fd; padding-bottom: 6px; }
+.lesson-pdf h3 { font-size: 17px; margin: 8px 0 6px; color: #0f766e; }
+.lesson-pdf h4, .lesson-pdf h5, .lesson-pdf h6 { font-size: 15px; margin: 6px 0 4px; }
+.lesson-pdf p { margin: 0 0 8px; }
+.lesson-pdf ul, .lesson-pdf ol { margin: 0 0 8px; padding-left: 24px; }
+.lesson-pdf li { margin: 2px 0; }
+.lesson-pdf table { border-collapse: collapse; width: 100%; margin: 4px 0 10px; font-size: 13px; }
+.lesson-pdf th, .lesson-pdf td { border: 1px solid #cbd5e1; padding: 4px 8px; text-align: left; vertical-align: top; }
+.lesson-pdf th { background: #f1f5f9; }
+.lesson-pdf code { background: #f1f5f9; padding: 0 3px; border-radius: 3px; font-size: 12px; }
+.lesson-pdf blockquote { margin: 0 0 8px; padding-left: 12px; border-left: 3px solid #cbd5e1; color: #475569; }
+.lesson-pdf a { color: #0369a1; text-decoration: none; word-break: break-all; }
+.lesson-pdf .title-page { height: 900px; display: flex; flex-direction: column; justify-content: center; }
+.lesson-pdf .subtitle { font-size: 16px; color: #475569; }
+.lesson-pdf .meta { margin-top: 32px; font-size: 13px; color: #64748b; }
+.lesson-pdf .toc-row { display: flex; justify-content: space-between; gap: 16px; height: 32px; align-items: center; border-bottom: 1px dotted #cbd5e1; }
+.lesson-pdf .chat-heading { font-size: 13px; font-weight: 600; color: #64748b; text-transform: uppercase; letter-spacing: 0.05em; margin-top: 4px; }
+.lesson-pdf .chat-message { margin-left: 16px; padding: 6px 10px; border-left: 3px solid #e2e8f0; font-size: 13px; }
+.lesson-pdf .chat-message.user { border-left-color: #7dd3fc; }
+.lesson-pdf .chat-role { font-weight: 600; color: #475569; margin-bottom: 2px; }
+.lesson-pdf .chat-sources { font-size: 11px; color: #64748b; margin-top: 4px; }
+.lesson-pdf .sources-list li { margin-bottom: 6px; }
+.lesson-pdf .citations { font-size: 12px; color: #0369a1; margin-top: -4px; }
+`;
+
+const markdownToHtml = (markdown: string): string =>
+  marked.parse(markdown || '', { breaks: true, gfm: true }) as string;
+
+interface PdfBlock {
+  element: HTMLElement;
+  startsPage?: boolean;
+  // Marks the first block of a section so its page number can be listed in the contents.
+  sectionIndex?: number;
+}
+
+const createBlock = (container: HTMLElement, html: string, className = 'block'): HTMLElement => {
+  const element = document.createElement('div');
+  element.className = className;
+  element.innerHTML = html;
+  container.appendChild(element);
+  return element;
+};
+
+// Splits an answer into its top-level Markdown elements so page breaks fall between
+// paragraphs, lists and tables rather than through them.
+const answerFragments = (markdown: string): string[] => {
+  const template = document.createElement('template');
+  template.innerHTML = markdownToHtml(markdown);
+  return Array.from(template.content.children).map(child => child.outerHTML);
+};
+
+const formatChatMessage = (message: ChatMessage): string => {
+  const text = withCitationNumbers(message.parts.map(part => part.text || '').join(''), message.citations);
+  const sources = message.sources ?? [];
+  const sourceList = sources.length > 0
+    ? `<div class="chat-sources">${sources.map((source, index) =>
+        isDocumentSource(source)
+          ? `[${index + 1}] ${escapeHtml(source.title)}`
+          : `[${index + 1}] ${escapeHtml(source.title || source.uri)} (<a href="${escapeHtml(source.uri)}">${escapeHtml(source.uri)}</a>)`
+      ).join('<br>')}</div>`
+    : '';
+  return `<div class="chat-message ${message.role}"><div class="chat-role">${message.role === 'user' ? 'Question' : 'Answer'}</div>${markdownToHtml(text)}${sourceList}</div>`;
+};
+
+const buildContentBlocks = (container: HTMLElement, lesson: PdfExportLesson, options: PdfExportOptions): PdfBlock[] => {
+  const blocks: PdfBlock[] = [];
+
+  lesson.teachingSteps.forEach((section, sectionIndex) => {
+    blocks.push({
+      element: createBlock(container, `<h2>${sectionIndex + 1}. ${escapeHtml(section.section_title)}</h2>`),
+      startsPage: true,
+      sectionIndex,
+    });
+    section.qa_pairs.forEach((qa, qaIndex) => {
+      const fragments = answerFragments(qa.answer);
+      if (qa.citations && qa.citations.length > 0) {
+        // Citation numbers match the numbered sources appendix.
+        fragments.push(`<p class="citations">${qa.citations.map(number => `<sup>${formatCitationLabel(number, qa.citedPages?.[number])}</sup>`).join(' ')}</p>`);
+      }
+      const [first = '', ...rest] = fragments;
+      // The question travels with the first part of its answer so it never ends a page alone.
+      blocks.push({ element: createBlock(container, `<h3>${escapeHtml(qa.question)}</h3>${first}`) });
+      rest.forEach(fragment => blocks.push({ element: createBlock(container, fragment) }));
+
+      const chat = lesson.chatHistories[pairKey(qa, sectionIndex, qaIndex)] ?? [];
+      if (options.includeChats && chat.length > 0) {
+        const [firstMessage, ...otherMessages] = chat;
+        blocks.push({ element: createBlock(container, `<div class="chat-heading">Follow-up discussion</div>${formatChatMessage(firstMessage)}`) });
+        otherMessages.forEach(message => blocks.push({ element: createBlock(container, formatChatMessage(message)) }));
+      }
+    });
+  });
+
+  if (lesson.sources.length > 0) {
+    for (let start = 0; start < lesson.sources.length; start += SOURCES_PER_BLOCK) {
+      const items = lesson.sources.slice(start, start + SOURCES_PER_BLOCK).map(source =>
+        isDocumentSource(source)
+          ? `<li>${escapeHtml(source.title)}</li>`
+          : `<li>${escapeHtml(source.title || source.uri)}<br><a href="${escapeHtml(source.uri)}">${escapeHtml(source.uri)}</a></li>`
+      ).join('');
+      const heading = start === 0 ? '<h2>Sources</h2>' : '';
+      blocks.push({
+        element: createBlock(container, `${heading}<ol class="sources-list" start="${start + 1}">${items}</ol>`),
+        startsPage: start === 0,
+      });
+    }
+  }
+  return blocks;
+};
+
+const capture = (element: HTMLElement): Promise<HTMLCanvasElement> =>
+  html2canvas(element, { scale: RENDER_SCALE, backgroundColor: '#ffffff', logging: false, useCORS: true });
+
+const canvasHeightMm = (canvas: HTMLCanvasElement): number => (canvas.height / RENDER_SCALE) * MM_PER_PX;
+
+// Places a captured block at `y` on the current page, adding pages (and slicing the
+// canvas) as needed. Returns the y position below the block.
+const placeCanvas = (pdf: jsPDF, canvas: HTMLCanvasElement, y: number): number => {
+  const heightMm = canvasHeightMm(canvas);
+  if (y + heightMm > CONTENT_BOTTOM_MM && y > MARGIN_MM) {
+    pdf.addPage();
+    y = MARGIN_MM;
+  }
+  if (y + heightMm <= CONTENT_BOTTOM_MM) {
+    pdf.addImage(canvas, 'PNG', MARGIN_MM, y, CONTENT_WIDTH_MM, heightMm);
+    return y + heightMm + BLOCK_GAP_MM;
+  }
+
+  // Taller than a whole page: draw it in page-sized slices.
+  const pxPerMm = canvas.height / heightMm;
+  let offsetPx = 0;
+  while (offsetPx < canvas.height) {
+    const sliceHeightPx = Math.min(canvas.height - offsetPx, Math.floor((CONTENT_BOTTOM_MM - y) * pxPerMm));
+    const slice = document.createElement('canvas');
+    slice.width = canvas.width;
+    slice.height = sliceHeightPx;
+    slice.getContext('2d')!.drawImage(canvas, 0, offsetPx, canvas.width, sliceHeightPx, 0, 0, canvas.width, sliceHeightPx);
+    pdf.addImage(slice, 'PNG', MARGIN_MM, y, CONTENT_WIDTH_MM, sliceHeightPx / pxPerMm);
+    offsetPx += sliceHeightPx;
+    y += sliceHeightPx / pxPerMm;
+    if (offsetPx < canvas.height) {
+      pdf.addPage();
+      y = MARGIN_MM;
+    }
+  }
+  return y + BLOCK_GAP_MM;
+};
+
+const renderTableOfContents = async (
+  pdf: jsPDF,
+  container: HTMLElement,
+  lesson: PdfExportLesson,
+  sectionPages: number[],
+  sourcesPage: number | null,
+  firstTocPage: number
+) => {
+  const entries = lesson.teachingSteps.map((section, index) => ({ label: `${index + 1}. ${section.section_title}`, page: sectionPages[index] }));
+  if (sourcesPage !== null) {
+    entries.push({ label: 'Sources', page: sourcesPage });
+  }
+
+  for (let start = 0, tocPage = firstTocPage; start < entries.length; start += TOC_ROWS_PER_PAGE, tocPage++) {
+    const chunk = entries.slice(start, start + TOC_ROWS_PER_PAGE);
+    const element = createBlock(container,
+      `${start === 0 ? '<h2>Contents</h2>' : ''}` +
+      chunk.map(entry => `<div class="toc-row"><span>${escapeHtml(entry.label)}</span><span>${entry.page}</span></div>`).join('')
+    );
+    const rows = Array.from(element.querySelectorAll<HTMLElement>('.toc-row'));
+    const blockTop = element.getBoundingClientRect().top;
+    const rowOffsets = rows.map(row => {
+      const rect = row.getBoundingClientRect();
+      return { top: (rect.top - blockTop) * MM_PER_PX, height: rect.height * MM_PER_PX };
+    });
+
+    const canvas = await capture(element);
+    pdf.setPage(tocPage);
+    pdf.addImage(canvas, 'PNG', MARGIN_MM, MARGIN_MM, CONTENT_WIDTH_MM, canvasHeightMm(canvas));
+    chunk.forEach((entry, index) => {
+      pdf.link(MARGIN_MM, MARGIN_MM + rowOffsets[index].top, CONTENT_WIDTH_MM, rowOffsets[index].height, { pageNumber: entry.page });
+    });
+  }
+};
+
+const addPageNumbers = (pdf: jsPDF) => {
+  const pageCount = pdf.getNumberOfPages();
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(9);
+  pdf.setTextColor(100, 116, 139);
+  // The title page is left unnumbered.
+  for (let page = 2; page <= pageCount; page++) {
+    pdf.setPage(page);
+    pdf.text(`Page ${page} of ${pageCount}`, PAGE_WIDTH_MM / 2, PAGE_HEIGHT_MM - MARGIN_MM / 2, { align: 'center' });
+  }
+};
+
+export async function buildLessonPdf(lesson: PdfExportLesson, options: PdfExportOptions): Promise<Blob> {
+  const container = document.createElement('div');
+  container.className = 'lesson-pdf';
+  // Kept in the layout (not display: none) so html2canvas can measure it, but off screen.
+  container.style.cssText = 'position: fixed; left: -10000px; top: 0; z-index: -1;';
+  const style = document.createElement('style');
+  style.textContent = PDF_STYLES;
+  container.appendChild(style);
+  document.body.appendChild(container);
+
+  try {
+    const pdf = new jsPDF({ unit: 'mm', format: 'a4', orientation: 'portrait' });
+    pdf.setProperties({ title: lesson.title, subject: 'Radiology teaching lesson' });
+
+    const questionCount = lesson.teachingSteps.reduce((sum, section) => sum + section.qa_pairs.length, 0);
+    const meta = [
+      `${lesson.teachingSteps.length} sections · ${questionCount} questions`,
+      `Exported ${new Date().toLocaleDateString(undefined, { dateStyle: 'long' })}`,
+      options.includeChats ? 'Includes follow-up discussions' : '',
+    ].filter(Boolean).join('<br>');
+    const titlePage = createBlock(container,
+      `<h1>${escapeHtml(lesson.title)}</h1><div class="subtitle">Radiology teaching lesson</div><div class="meta">${meta}</div>`,
+      'block title-page'
+    );
+    const titleCanvas = await capture(titlePage);
+    pdf.addImage(titleCanvas, 'PNG', MARGIN_MM, MARGIN_MM, CONTENT_WIDTH_MM, canvasHeightMm(titleCanvas));
+
+    // Reserve pages for the contents now; they are filled in once page numbers are known.
+    const tocEntryCount = lesson.teachingSteps.length + (lesson.sources.length > 0 ? 1 : 0);
+    const tocPageCount = Math.max(1, Math.ceil(tocEntryCount / TOC_ROWS_PER_PAGE));
+    for (let i = 0; i < tocPageCount; i++) {
+      pdf.addPage();
+    }
+
+    const sectionPages: number[] = [];
+    let sourcesPage: number | null = null;
+    let y = MARGIN_MM;
+    for (const block of buildContentBlocks(container, lesson, options)) {
+      if (block.startsPage) {
+        pdf.addPage();
+        y = MARGIN_MM;
+        if (block.sectionIndex === undefined) {
+          sourcesPage = pdf.getNumberOfPages();
+        }
+      }
+      if (block.sectionIndex !== undefined) {
+        sectionPages[block.sectionIndex] = pdf.getNumberOfPages();
+      }
+      y = placeCanvas(pdf, await capture(block.element), y);
+    }
+
+    await renderTableOfContents(pdf, container, lesson, sectionPages, sourcesPage, 2);
+    addPageNumbers(pdf);
+    return pdf.output('blob');
+  } finally {
+    document.body.removeChild(container);
+  }
+}
@@ -0,0 +1,137 @@
+import { getDocument, GlobalWorkerOptions, PDFDocumentProxy } from 'pdfjs-dist';
+import { PdfPageText, PdfDocumentText } from '../types';
+
+// Local PDF parsing with pdf.js: page counts for the upload form, per-page text for the
+// prompt (so answers can cite pages), and page rendering for the built-in viewer.
+
+// pdf.js parses in a web worker loaded from the CDN. It must match the pdfjs-dist version
+// pinned in package.json and the import map.
+const PDF_WORKER_SRC = 'https://cdn.jsdelivr.net/npm/pdfjs-dist@4.10.38/build/pdf.worker.min.mjs';
+
+export class PageRangeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PageRangeError';
+  }
+}
+
+const documentCache = new WeakMap<File, Promise<PDFDocumentProxy>>();
+const textCache = new WeakMap<File, Promise<PdfPageText[]>>();
+
+const openPdf = (file: File): Promise<PDFDocumentProxy> => {
+  let loading = documentCache.get(file);
+  if (!loading) {
+    GlobalWorkerOptions.workerSrc = PDF_WORKER_SRC;
+    loading = file.arrayBuffer().then(buffer => getDocument({ data: new Uint8Array(buffer) }).promise);
+    documentCache.set(file, loading);
+    loading.catch(() => documentCache.delete(file));
+  }
+  return loading;
+};
+
+export const getPdfPageCount = async (file: File): Promise<number> => (await openPdf(file)).numPages;
+
+const extractAllPages = (file: File): Promise<PdfPageText[]> => {
+  let extracting = textCache.get(file);
+  if (!extracting) {
+    extracting = (async () => {
+      const pdf = await openPdf(file);
+      const pages: PdfPageText[] = [];
+      for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+        const content = await (await pdf.getPage(pageNumber)).getTextContent();
+        const text = content.items
+          .map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : ''))
+          .join('')
+          .replace(/[ \t]+\n/g, '\n')
+          .replace(/\n{3,}/g, '\n\n')
+          .trim();
+        pages.push({ pageNumber, text });
+      }
+      return pages;
+    })();
+    textCache.set(file, extracting);
+    extracting.catch(() => textCache.delete(file));
+  }
+  return extracting;
+};
+
+// Accepts "1-5, 9, 12-" style ranges; an empty range means every page.
+export const parsePageRange = (range: string, pageCount: number): number[] => {
+  const trimmed = range.trim();
+  if (!trimmed) {
+    return Array.from({ length: pageCount }, (_, index) => index + 1);
+  }
+  const pages = new Set<number>();
+  for (const part of trimmed.split(',').map(p => p.trim()).filter(Boolean)) {
+    const match = part.match(/^(\d+)?\s*(-)?\s*(\d+)?$/);
+    if (!match || (!match[1] && !match[3])) {
+      throw new PageRangeError(`"${part}" is not a page number or range.`);
+    }
+    const start = match[1] ? parseInt(match[1], 10) : 1;
+    const end = match[2] ? (match[3] ? parseInt(match[3], 10) : pageCount) : start;
+    if (start > end) {
+      throw new PageRangeError(`"${part}" ends before it starts.`);
+    }
+    if (start < 1 || end > pageCount) {
+      throw new PageRangeError(`Pages "${part}" are outside 1-${pageCount}.`);
+    }
+    for (let page = start; page <= end; page++) pages.add(page);
+  }
+  return [...pages].sort((a, b) => a - b);
+};
+
+// Compacts page numbers back into "1-5, 9" form.
+export const formatPageRange = (pages: number[]): string => {
+  const parts: string[] = [];
+  let start = pages[0];
+  for (let i = 1; i <= pages.length; i++) {
+    if (pages[i] !== pages[i - 1] + 1) {
+      parts.push(start === pages[i - 1] ? `${start}` : `${start}-${pages[i - 1]}`);
+      start = pages[i];
+    }
+  }
+  return parts.join(', ');
+};
+
+// Extracts the selected pages of a PDF. A previous extraction saved with the lesson is reused
+// when it covers the same pages, so regenerating a saved lesson doesn't parse the file again.
+// Returns null if pdf.js cannot read the file.
+export async function loadPdfDocument(file: File, pageRange = '', previous?: PdfDocumentText): Promise<PdfDocumentText | null> {
+  try {
+    const pageCount = await getPdfPageCount(file);
+    const selected = parsePageRange(pageRange, pageCount);
+    if (previous && previous.name === file.name && previous.pageCount === pageCount &&
+        formatPageRange(previous.pages.map(page => page.pageNumber)) === formatPageRange(selected)) {
+      return previous;
+    }
+    const wanted = new Set(selected);
+    const pages = (await extractAllPages(file)).filter(page => wanted.has(page.pageNumber));
+    return { name: file.name, pageCount, pages };
+  } catch (error) {
+    if (error instanceof PageRangeError) throw error;
+    console.warn(`[PDF Text] Could not read ${file.name}:`, error);
+    return null;
+  }
+}
+
+// Scanned PDFs have no text layer; those are still sent to the model as files.
+export const hasExtractedText = (document: PdfDocumentText | null | undefined): document is PdfDocumentText =>
+  !!document && document.pages.some(page => page.text.trim().length > 0);
+
+export async function renderPdfPage(file: File, pageNumber: number, canvas: HTMLCanvasElement, width: number): Promise<void> {
+  const page = await (await openPdf(file)).getPage(pageNumber);
+  const baseViewport = page.getViewport({ scale: 1 });
+  const viewport = page.getViewport({ scale: width / baseViewport.width });
+  const outputScale = window.devicePixelRatio || 1;
+  canvas.width = Math.floor(viewport.width * outputScale);
+  canvas.height = Math.floor(viewport.height * outputScale);
+  canvas.style.width = `${Math.floor(viewport.width)}px`;
+  canvas.style.height = `${Math.floor(viewport.height)}px`;
+  const context = canvas.getContext('2d');
+  if (!context) return;
+  await page.render({
+    canvasContext: context,
+    viewport,
+    transform: outputScale !== 1 ? [outputScale, 0, 0, outputScale, 0, 0] : undefined,
+  }).promise;
+}
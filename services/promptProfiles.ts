@@ -0,0 +1,200 @@
+import { PromptProfile, AnswerDepth } from '../types';
+
+// Named prompt profiles, editable in the lesson form and kept in localStorage. The built-in
+// profiles are used until the list is first saved; after that it is the user's to change.
+
+const PROFILES_KEY = 'radiology-lessons:prompt-profiles';
+const SELECTED_PROFILE_KEY = 'radiology-lessons:prompt-profile';
+const EXPORT_FORMAT = 'radiology-lessons-prompt-profiles';
+
+export class PromptProfileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromptProfileError';
+  }
+}
+
+export const ANSWER_DEPTHS: { value: AnswerDepth; label: string }[] = [
+  { value: 'brief', label: 'Brief' },
+  { value: 'standard', label: 'Standard' },
+  { value: 'detailed', label: 'Detailed' },
+];
+
+export const MAX_SECTIONS = 12;
+
+// The first profile reproduces the prompt and sampling the app used before profiles existed.
+export const BUILT_IN_PROMPT_PROFILES: PromptProfile[] = [
+  {
+    id: 'consultant-refresher',
+    name: 'Consultant refresher',
+    audience: 'experienced Radiologists',
+    minSections: 5,
+    maxSections: 7,
+    answerDepth: 'detailed',
+    tone: 'professional, technical',
+    temperature: 0.6,
+    topP: 0.9,
+    topK: 40,
+    followUpTemperature: 0.7,
+  },
+  {
+    id: 'registrar',
+    name: 'Registrar',
+    audience: 'radiology registrars (residents) who need search patterns, pitfalls and differentials made explicit',
+    minSections: 5,
+    maxSections: 8,
+    answerDepth: 'detailed',
+    tone: 'systematic, technical',
+    temperature: 0.5,
+    topP: 0.9,
+    topK: 40,
+    followUpTemperature: 0.6,
+  },
+  {
+    id: 'medical-student',
+    name: 'Medical student',
+    audience: 'medical students on a radiology placement, who know basic anatomy and pathology but little imaging',
+    minSections: 4,
+    maxSections: 6,
+    answerDepth: 'standard',
+    tone: 'clear, encouraging, jargon-light',
+    temperature: 0.5,
+    topP: 0.9,
+    topK: 40,
+    followUpTemperature: 0.7,
+  },
+  {
+    id: 'frcr-viva',
+    name: 'FRCR viva',
+    audience: 'FRCR 2B candidates rehearsing for the oral examination, who should lead with the most likely diagnosis and the discriminating features',
+    minSections: 4,
+    maxSections: 6,
+    answerDepth: 'brief',
+    tone: 'crisp, examiner-like',
+    temperature: 0.4,
+    topP: 0.85,
+    topK: 32,
+    followUpTemperature: 0.5,
+  },
+];
+
+export const DEFAULT_PROMPT_PROFILE = BUILT_IN_PROMPT_PROFILES[0];
+
+const isBuiltInId = (id: string) => BUILT_IN_PROMPT_PROFILES.some(profile => profile.id === id);
+
+const readNumber = (record: Record<string, unknown>, key: string, min: number, max: number, integer = false): number => {
+  const value = record[key];
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max || (integer && !Number.isInteger(value))) {
+    throw new PromptProfileError(`"${key}" must be ${integer ? 'a whole number' : 'a number'} from ${min} to ${max}.`);
+  }
+  return value;
+};
+
+const readText = (record: Record<string, unknown>, key: string): string => {
+  const value = record[key];
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new PromptProfileError(`"${key}" must be a non-empty string.`);
+  }
+  return value.trim();
+};
+
+// Checks an untrusted value (an import or an edit) and returns it as a profile.
+export const validatePromptProfile = (value: unknown): PromptProfile => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new PromptProfileError('A profile must be an object.');
+  }
+  const record = value as Record<string, unknown>;
+  const name = readText(record, 'name');
+  try {
+    const minSections = readNumber(record, 'minSections', 1, MAX_SECTIONS, true);
+    const maxSections = readNumber(record, 'maxSections', 1, MAX_SECTIONS, true);
+    if (minSections > maxSections) {
+      throw new PromptProfileError('"minSections" cannot be more than "maxSections".');
+    }
+    const answerDepth = record.answerDepth as AnswerDepth;
+    if (!ANSWER_DEPTHS.some(depth => depth.value === answerDepth)) {
+      throw new PromptProfileError(`"answerDepth" must be one of ${ANSWER_DEPTHS.map(depth => `"${depth.value}"`).join(', ')}.`);
+    }
+    return {
+      id: typeof record.id === 'string' && record.id.trim() ? record.id.trim() : createPromptProfileId(name),
+      name,
+      audience: readText(record, 'audience'),
+      minSections,
+      maxSections,
+      answerDepth,
+      tone: readText(record, 'tone'),
+      temperature: readNumber(record, 'temperature', 0, 2),
+      topP: readNumber(record, 'topP', 0.01, 1),
+      topK: readNumber(record, 'topK', 1, 100, true),
+      followUpTemperature: readNumber(record, 'followUpTemperature', 0, 2),
+    };
+  } catch (error) {
+    if (error instanceof PromptProfileError) {
+      throw new PromptProfileError(`Profile "${name}": ${error.message}`);
+    }
+    throw error;
+  }
+};
+
+export const createPromptProfileId = (name: string): string =>
+  `${name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'profile'}-${Date.now().toString(36)}`;
+
+export const getPromptProfiles = (): PromptProfile[] => {
+  try {
+    const stored = localStorage.getItem(PROFILES_KEY);
+    if (!stored) return BUILT_IN_PROMPT_PROFILES;
+    const profiles = (JSON.parse(stored) as unknown[]).flatMap(value => {
+      try {
+        return [validatePromptProfile(value)];
+      } catch (error) {
+        console.warn("[Prompt Profiles] Skipping an invalid stored profile:", error);
+        return [];
+      }
+    });
+    return profiles.length > 0 ? profiles : BUILT_IN_PROMPT_PROFILES;
+  } catch {
+    return BUILT_IN_PROMPT_PROFILES;
+  }
+};
+
+export const savePromptProfiles = (profiles: PromptProfile[]): void => {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+};
+
+export const getStoredPromptProfileId = (): string =>
+  localStorage.getItem(SELECTED_PROFILE_KEY) ?? DEFAULT_PROMPT_PROFILE.id;
+
+export const storePromptProfileId = (id: string): void => {
+  localStorage.setItem(SELECTED_PROFILE_KEY, id);
+};
+
+// Puts the built-in profiles back as shipped, keeping the user's own profiles.
+export const restoreBuiltInProfiles = (profiles: PromptProfile[]): PromptProfile[] => [
+  ...BUILT_IN_PROMPT_PROFILES,
+  ...profiles.filter(profile => !isBuiltInId(profile.id)),
+];
+
+export const exportPromptProfiles = (profiles: PromptProfile[]): string =>
+  JSON.stringify({ format: EXPORT_FORMAT, version: 1, profiles }, null, 2);
+
+// Reads a shared profiles file: the export format, a bare array, or a single profile.
+export const parsePromptProfiles = (text: string): PromptProfile[] => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new PromptProfileError('The file is not valid JSON.');
+  }
+  const record = value && typeof value === 'object' ? value as Record<string, unknown> : null;
+  const list = Array.isArray(value) ? value : Array.isArray(record?.profiles) ? record!.profiles as unknown[] : [value];
+  if (list.length === 0) {
+    throw new PromptProfileError('The file contains no profiles.');
+  }
+  return list.map(validatePromptProfile);
+};
+
+// Imported profiles replace existing ones with the same id and are added after the rest.
+export const mergePromptProfiles = (existing: PromptProfile[], imported: PromptProfile[]): PromptProfile[] => {
+  const importedIds = new Set(imported.map(profile => profile.id));
+  return [...existing.filter(profile => !importedIds.has(profile.id)), ...imported];
+};
@@ -0,0 +1,217 @@
+import { TeachingSectionContent, PdfPageText, PromptProfile, AnswerDepth, RevisionAction } from '../types';
+import { FollowUpContext, LessonRevisionRequest, LessonIntegrationRequest } from './providerTypes';
+import { DEFAULT_PROMPT_PROFILE } from './promptProfiles';
+import { addsPairs } from './lessonRevision';
+import { CONFLICT_MARKER } from './sourceIntegration';
+
+// Prompt text shared by every model provider. Provider-specific additions (tool usage,
+// grounding instructions) are appended by the individual services.
+
+const TEACHING_ANSWER_DEPTH: Record<AnswerDepth, string> = {
+  brief: 'short and high-yield: a few sentences or a compact list, and can include Markdown for formatting',
+  standard: 'clear and complete without being exhaustive, and can include Markdown for formatting',
+  detailed: 'detailed, comprehensive, and can include Markdown for formatting',
+};
+
+const FOLLOW_UP_ANSWER_DEPTH: Record<AnswerDepth, string> = {
+  brief: 'Keep answers short and to the point.',
+  standard: 'Answer clearly, with enough detail to be useful.',
+  detailed: 'Answer thoroughly, with the detail an expert would expect.',
+};
+
+const sectionCountText = (profile: PromptProfile): string =>
+  profile.minSections === profile.maxSections ? `${profile.minSections}` : `${profile.minSections}-${profile.maxSections}`;
+
+const audienceLine = (profile: PromptProfile): string =>
+  `Important: Your output is for ${profile.audience}, so maintain a ${profile.tone} tone.`;
+
+export const buildTeachingInstruction = (focusTopic?: string, profile: PromptProfile = DEFAULT_PROMPT_PROFILE): string => {
+  let systemInstruction = `You are an expert radiology educator. Your task is to analyze the provided content and break it down into ${sectionCountText(profile)} sequential teaching sections.`;
+  if (focusTopic && focusTopic.trim()) {
+    systemInstruction += ` The user has a specific interest in "${focusTopic}". Focus your analysis and section creation on this topic, extracting all relevant details from the content.`;
+  }
+
+  systemInstruction += `
+For each section, provide a title and a series of question-and-answer pairs that capture the core concepts.
+The 'answer' for each question should be ${TEACHING_ANSWER_DEPTH[profile.answerDepth]}.
+${audienceLine(profile)}`;
+  return systemInstruction;
+};
+
+// The fixed template of a structured exam answer, in order. Each heading is one section.
+export const EXAM_ANSWER_SECTIONS: { title: string; guidance: string }[] = [
+  { title: 'Definition', guidance: 'one question-and-answer pair; the question is "Definition" and the answer defines the condition in two or three sentences, including its pathophysiology.' },
+  { title: 'Epidemiology', guidance: 'one pair; the question is "Epidemiology" and the answer covers incidence, age and sex distribution, and risk factors or associations.' },
+  { title: 'Imaging features', guidance: 'one pair per relevant modality; the question is the modality (e.g. "Radiograph", "CT", "MRI", "Ultrasound", "Nuclear medicine") and the answer lists the findings on it. Put the most useful modality first.' },
+  { title: 'Differential diagnosis', guidance: 'one pair per differential, most important first; the question is the diagnosis and the answer gives the features that distinguish it from the condition in question.' },
+  { title: 'Management', guidance: 'one pair; the question is "Management" and the answer covers treatment, follow-up and the role of the radiologist, including what to include in the report.' },
+  { title: 'Key references', guidance: 'one pair; the question is "Key references" and the answer is a bulleted list of guidelines, landmark papers or standard texts. Only list references you are certain exist.' },
+];
+
+export const buildExamAnswerInstruction = (examQuestion: string, profile: PromptProfile = DEFAULT_PROMPT_PROFILE): string => `You are a senior radiology examiner writing the model answer to an exam question, at the standard expected in the FRCR 2B and ABR oral examinations.
+The question is: "${examQuestion}"
+Answer it from the provided content where available and from established radiology knowledge otherwise.
+Structure the answer as exactly ${EXAM_ANSWER_SECTIONS.length} sections, in this order, using these exact section titles:
+${EXAM_ANSWER_SECTIONS.map((section, index) => `${index + 1}. "${section.title}": ${section.guidance}`).join('\n')}
+Answers are concise and high-yield, as a candidate would say them, and can include Markdown lists and tables.${profile.answerDepth === 'detailed' ? ' Give the depth of a distinction-level answer.' : ''}
+${audienceLine(profile)}`;
+
+const SECTION_REVISION_TASKS: Record<RevisionAction, string> = {
+  'regenerate': 'Rewrite this section from scratch: a fresh set of question-and-answer pairs covering the same topic, taken from the sources. Keep the section title unless a clearer one fits.',
+  'expand': 'Expand this section. Keep its questions, add detail to every answer (mechanisms, imaging specifics, pitfalls) and add pairs for important points it misses.',
+  'simplify': 'Simplify this section. Make the answers shorter and plainer, keep only the essential points, and merge pairs that overlap.',
+  'add-questions': 'Write 3 to 5 new question-and-answer pairs for this section on important points it does not cover yet. Do not repeat or rephrase its existing questions.',
+  'differential-table': 'Write one new question-and-answer pair for this section. The question asks for the differential diagnosis and the answer is a Markdown table with one row per differential and columns for the key imaging features, the distinguishing clue and the clinical context.',
+};
+
+const PAIR_REVISION_TASKS: Record<RevisionAction, string> = {
+  'regenerate': 'Rewrite the answer to the marked question from scratch, from the sources. Keep the question unless it is unclear.',
+  'expand': 'Expand the answer to the marked question with more detail: mechanisms, imaging specifics, pitfalls and examples. Keep the question.',
+  'simplify': 'Simplify the answer to the marked question: shorter, plainer, with only the essential points. Keep the question.',
+  'add-questions': 'Write 2 or 3 new question-and-answer pairs that follow on from the marked question. Do not repeat existing questions.',
+  'differential-table': 'Keep the answer to the marked question and add a Markdown differential diagnosis table at the end, with one row per differential and columns for the key imaging features and the distinguishing clue. Keep the question.',
+};
+
+export const buildRevisionInstruction = (revision: LessonRevisionRequest, profile: PromptProfile = DEFAULT_PROMPT_PROFILE): string => {
+  const section = revision.lesson[revision.sectionIndex];
+  const output = addsPairs(revision.action, revision.qaIndex)
+    ? `with the title "${section.section_title}" and ONLY the new question-and-answer pairs`
+    : revision.qaIndex !== undefined
+      ? `with the title "${section.section_title}" and exactly one question-and-answer pair: the revised one`
+      : 'holding the complete revised section: its title and all of its question-and-answer pairs';
+  return `You are an expert radiology educator improving one part of an existing lesson. The user message contains the lesson's outline, the part to change and the task.
+Base the new content on the provided sources, as the original lesson was, and keep it consistent with the rest of the lesson without repeating other sections.
+Return a JSON array with exactly one section object, ${output}.
+The 'answer' for each question should be ${TEACHING_ANSWER_DEPTH[profile.answerDepth]}.
+${audienceLine(profile)}`;
+};
+
+// The lesson outline, the full text of the section being revised, and the task.
+export const buildRevisionPrompt = (revision: LessonRevisionRequest): string => {
+  const section = revision.lesson[revision.sectionIndex];
+  const outline = revision.lesson
+    .map((step, index) => `${index + 1}. ${step.section_title}${index === revision.sectionIndex ? ' (the section to change)' : ''}`)
+    .join('\n');
+  const pairs = section.qa_pairs
+    .map((qa, index) => `${index === revision.qaIndex ? '>>> MARKED QUESTION <<<\n' : ''}Q: ${qa.question}\nA: ${qa.answer}`)
+    .join('\n\n');
+  const task = (revision.qaIndex !== undefined ? PAIR_REVISION_TASKS : SECTION_REVISION_TASKS)[revision.action];
+  return `Lesson outline:\n${outline}\n\nSection to change: "${section.section_title}"\n\n${pairs}\n\nTask: ${task}`;
+};
+
+export const buildIntegrationInstruction = (profile: PromptProfile = DEFAULT_PROMPT_PROFILE): string => `You are an expert radiology educator updating an existing lesson with new sources. The user message contains the new sources and then the current lesson.
+Work what the new sources add into the lesson, and return a JSON array holding ONLY the sections that change:
+- To add to an existing answer, include its section with the title copied exactly, and the pair with the question copied exactly and the complete updated answer: the existing answer with the new material worked in.
+- To add questions to an existing section, include the section with the title copied exactly and only the new pairs.
+- For a topic the lesson does not cover, add a new section with its own title.
+Leave out everything the new sources add nothing to, and do not rewrite existing answers for style.
+Where a new source contradicts the lesson, keep both views and add a line to the affected answer starting with "> ${CONFLICT_MARKER}" that says what the new source claims and how it differs.
+The 'answer' for each new or updated question should be ${TEACHING_ANSWER_DEPTH[profile.answerDepth]}.
+${audienceLine(profile)}`;
+
+export const buildIntegrationPrompt = (integration: LessonIntegrationRequest): string => {
+  const lesson = integration.lesson
+    .map(section => `## ${section.section_title}\n\n${section.qa_pairs.map(qa => `Q: ${qa.question}\nA: ${qa.answer}`).join('\n\n')}`)
+    .join('\n\n');
+  return `The current lesson:\n\n${lesson}\n\nTask: Update this lesson with what the new sources add, returning only the changed and new sections.`;
+};
+
+export const TEACHING_JSON_OUTPUT_INSTRUCTION = `The final output MUST be a valid JSON array of objects, strictly adhering to the provided schema. Do not add any text before or after the JSON.`;
+
+// For providers without structured-output support the schema has to be spelled out in the prompt.
+export const TEACHING_JSON_SHAPE_DESCRIPTION = `Each object in the array has the shape {"section_title": string, "qa_pairs": [{"question": string, "answer": string, "source_ids"?: string[]}]}.`;
+
+// Uploaded documents are labelled D1, D2, ... in the prompt so answers can cite them.
+export const buildDocumentCitationInstruction = (documentCount: number, hasPages = false): string =>
+  `\nThe uploaded documents are labelled D1 to D${documentCount}. For every question-and-answer pair, add a "source_ids" array with the labels of the documents that support the answer, for example "D2". Only cite a document if the answer is actually based on it.` +
+  (hasPages ? ` PDF text is divided into pages marked [Page n]; when citing a PDF, add the page the information is on, for example "D1 p.14", with one entry per page.` : '');
+
+export const formatPastedContent = (text: string, label: string): string =>
+  `--- START OF PASTED CONTENT (${label}) ---\n${text}\n--- END OF PASTED CONTENT (${label}) ---`;
+
+// Roughly 25k tokens per text part keeps very long documents within request part limits.
+const PDF_CHUNK_CHARS = 100_000;
+
+// Page-tagged PDF text, split into parts of at most PDF_CHUNK_CHARS at page boundaries.
+export const formatPdfPages = (pages: PdfPageText[], label: string, name: string): string[] => {
+  const chunks: PdfPageText[][] = [];
+  let current: PdfPageText[] = [];
+  let currentLength = 0;
+  for (const page of pages.filter(p => p.text.trim())) {
+    if (current.length > 0 && currentLength + page.text.length > PDF_CHUNK_CHARS) {
+      chunks.push(current);
+      current = [];
+      currentLength = 0;
+    }
+    current.push(page);
+    currentLength += page.text.length;
+  }
+  if (current.length > 0) chunks.push(current);
+
+  return chunks.map((chunk, index) => {
+    const heading = `${label}: ${name}${chunks.length > 1 ? `, part ${index + 1} of ${chunks.length}` : ''}`;
+    const body = chunk.map(page => `[Page ${page.pageNumber}]\n${page.text}`).join('\n\n');
+    return `--- START OF PDF CONTENT (${heading}) ---\n${body}\n--- END OF PDF CONTENT (${heading}) ---`;
+  });
+};
+
+export const buildFollowUpInstruction = (context: FollowUpContext): string => {
+  const profile = context.promptProfile ?? DEFAULT_PROMPT_PROFILE;
+  const isLessonChat = context.lessonContent !== undefined;
+  const scope = isLessonChat
+    ? `The user is asking about the lesson you are teaching as a whole. Their question may connect or compare material from several sections.
+
+  This is the entire lesson, followed by its sources:
+  "${context.lessonContent}"`
+    : `The user is asking a follow-up question about a specific topic from a lesson you are teaching.
+
+  This is the immediate context for their question:
+  - Original Question: "${context.originalQuestion}"
+  - Original Answer: "${context.originalAnswer}"
+
+  This is the entire teaching section:
+  "${context.fullSectionContent}"`;
+  return `You are a helpful radiology AI teaching assistant. ${scope}
+${context.excerpts && context.excerpts.length > 0 ? `
+  These excerpts from the rest of the lesson and its source documents may also be relevant. When you use a PDF page excerpt, mention its page, e.g. "(Guideline.pdf p. 14)":
+${context.excerpts.map(excerpt => `  [${excerpt.label}]\n${excerpt.text}`).join('\n\n')}
+` : ''}${context.passages ? `
+  The user wants this question answered from their own uploaded documents. The lesson above only shows what the question refers to; base your answer ONLY on these numbered passages retrieved from the documents:
+${context.passages.map((passage, index) => `  [${index + 1}] (${passage.label})\n${passage.text}`).join('\n\n')}
+
+  After each statement, cite the passage it comes from by its number in square brackets, e.g. [2].
+` : ''}${context.attachments && context.attachments.length > 0 ? `
+  The PDF documents the lesson was generated from are attached to the conversation.
+` : ''}
+  Your task is to provide a clear, concise, and helpful answer to their follow-up question. ${FOLLOW_UP_ANSWER_DEPTH[profile.answerDepth]}${isLessonChat ? ' Name the sections you draw on, e.g. "(Section 2)".' : ''}
+  The lesson is for ${profile.audience}. Maintain a patient, ${profile.tone} tone.`;
+};
+
+export const NO_CONTEXT_ANSWER = "The uploaded contents don't have an answer for that question. Please try the 'web for answer' option.";
+
+export const CONTEXT_ONLY_INSTRUCTION = `\nAnswer based ONLY on the provided context. If the answer to the user's question is not found within the provided context (the original question and answer, the teaching section, the excerpts, the retrieved passages and any attached documents), you MUST respond with the exact phrase: "${NO_CONTEXT_ANSWER}" Do not add any other text or explanation.`;
+
+export const buildJsonRepairPrompt = (rawResponse: string, issues: string[]): string => `Your previous response was supposed to be a JSON array of teaching sections but it could not be used.
+Problems found:
+${issues.map(issue => `- ${issue}`).join('\n')}
+
+${TEACHING_JSON_SHAPE_DESCRIPTION}
+Return ONLY the corrected JSON array. Keep all of the original content, do not add new material, and do not add any text before or after the JSON.
+
+Previous response:
+${rawResponse}`;
+
+export const QUIZ_QUESTION_COUNT = 5;
+
+export const QUIZ_JSON_SHAPE_DESCRIPTION = `Return a JSON array where each object has the shape {"stem": string, "options": string[], "correct_index": number, "explanation": string}. "correct_index" is the zero-based index of the correct option.`;
+
+export const buildQuizInstruction = (questionCount: number = QUIZ_QUESTION_COUNT): string => `You are a radiology board examiner writing single-best-answer multiple-choice questions.
+Write ${questionCount} questions that test the lesson section provided by the user.
+The section's question-and-answer pairs are the ONLY ground truth: every correct answer must be stated in or directly follow from them. Do not test facts that are not in the section.
+Each question has a clinical or imaging stem, exactly 4 options and one unambiguously correct option. Distractors must be plausible to a trainee but clearly wrong according to the section.
+Vary the position of the correct option. Avoid "all of the above" and "none of the above".
+The explanation says why the correct option is right and why the most tempting distractor is wrong, referring to the section's content.`;
+
+export const buildQuizPrompt = (section: TeachingSectionContent): string =>
+  `Lesson section: "${section.section_title}"\n\n` +
+  section.qa_pairs.map((qa, index) => `Q${index + 1}: ${qa.question}\nA${index + 1}: ${qa.answer}`).join('\n\n');
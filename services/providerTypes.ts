@@ -0,0 +1,212 @@
+import { Content, Part } from "@google/genai";
+import { TeachingSectionContent, GroundingSource, ProviderId, QuizQuestion, ChatCitation, PdfPageText, PromptProfile, RevisionAction } from '../types';
+
+export type { ProviderId };
+
+export class MissingPdfError extends Error {
+  constructor(message: string, public urls: string[]) {
+    super(message);
+    this.name = 'MissingPdfError';
+  }
+}
+
+// Thrown when the model's lesson output cannot be parsed or validated, even after repair.
+// `rawResponse` keeps the original text so the user can inspect what went wrong.
+export class LessonFormatError extends Error {
+  constructor(message: string, public issues: string[], public rawResponse: string) {
+    super(message);
+    this.name = 'LessonFormatError';
+  }
+}
+
+export type RequestErrorKind = 'quota' | 'auth' | 'network' | 'timeout' | 'safety' | 'server' | 'cancelled';
+
+// Base class for failures talking to a model. `kind` lets the UI show specific guidance,
+// and `retryable` marks transient failures the request runner may retry.
+export class ModelRequestError extends Error {
+  constructor(message: string, public kind: RequestErrorKind, public retryable = false, public status?: number) {
+    super(message);
+    this.name = 'ModelRequestError';
+  }
+}
+
+export class QuotaExceededError extends ModelRequestError {
+  constructor(message = "The model's rate limit or quota has been reached.", status?: number) {
+    super(message, 'quota', true, status);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+export class AuthenticationError extends ModelRequestError {
+  constructor(message = "The API key was rejected.", status?: number) {
+    super(message, 'auth', false, status);
+    this.name = 'AuthenticationError';
+  }
+}
+
+export class NetworkError extends ModelRequestError {
+  constructor(message = "Could not reach the model service.") {
+    super(message, 'network', true);
+    this.name = 'NetworkError';
+  }
+}
+
+export class RequestTimeoutError extends ModelRequestError {
+  constructor(message = "The model took too long to respond.") {
+    super(message, 'timeout', true);
+    this.name = 'RequestTimeoutError';
+  }
+}
+
+export class SafetyBlockedError extends ModelRequestError {
+  constructor(message = "The content could not be processed due to safety filters.") {
+    super(message, 'safety', false);
+    this.name = 'SafetyBlockedError';
+  }
+}
+
+export class ServiceUnavailableError extends ModelRequestError {
+  constructor(message = "The model service is temporarily unavailable.", status?: number) {
+    super(message, 'server', true, status);
+    this.name = 'ServiceUnavailableError';
+  }
+}
+
+export class RequestCancelledError extends ModelRequestError {
+  constructor(message = "The request was cancelled.") {
+    super(message, 'cancelled', false);
+    this.name = 'RequestCancelledError';
+  }
+}
+
+export interface ChatResponse {
+  text: string;
+  sources: GroundingSource[];
+  relatedLinks: GroundingSource[];
+  citations?: ChatCitation[];
+}
+
+export interface StreamedChatResponse extends ChatResponse {
+  // True when the user stopped the reply; `text` then holds what had arrived.
+  cancelled: boolean;
+}
+
+// Rewrites or extends one section, or one question/answer pair, of an existing lesson.
+export interface LessonRevisionRequest {
+  action: RevisionAction;
+  lesson: TeachingSectionContent[];
+  sectionIndex: number;
+  qaIndex?: number;
+}
+
+// Works new sources into an existing lesson. The result holds only the changed and added
+// sections and pairs, with existing titles and questions copied exactly.
+export interface LessonIntegrationRequest {
+  lesson: TeachingSectionContent[];
+}
+
+export interface TeachingContext {
+  urls?: string[];
+  // PDFs with a text layer are sent as page-tagged text; the rest as files.
+  pdfs?: { mimeType: string; name?: string; base64?: string; pages?: PdfPageText[] }[];
+  images?: { base64: string; mimeType: string; name?: string; description?: string }[];
+  pastedTexts?: string[];
+  searchQuery?: string;
+  focusTopic?: string;
+  // Set for a structured model answer to one exam question instead of a teaching lesson.
+  examQuestion?: string;
+  // Audience, section count, answer depth, tone and sampling; the default profile when unset.
+  promptProfile?: PromptProfile;
+  // Set to revise part of an existing lesson from the same sources. The result is a single
+  // section holding the revised or added content.
+  revision?: LessonRevisionRequest;
+  // Set to add the sources in this context to an existing lesson.
+  integration?: LessonIntegrationRequest;
+  model: string;
+}
+
+export interface TeachingResult {
+  sections: TeachingSectionContent[];
+  sources: GroundingSource[];
+}
+
+export interface StreamedTeachingResult extends TeachingResult {
+  // True when the user stopped generation; `sections` then holds only what had arrived.
+  cancelled: boolean;
+}
+
+export interface TeachingStreamProgress {
+  // Sections whose JSON object has been fully received.
+  sections: TeachingSectionContent[];
+  // The section currently being written, with only its completed Q&A pairs.
+  partialSection: TeachingSectionContent | null;
+}
+
+export interface FollowUpAttachment {
+  base64: string;
+  mimeType: string;
+  name: string;
+}
+
+export interface FollowUpContext {
+  originalQuestion: string;
+  originalAnswer: string;
+  fullSectionContent: string;
+  // Set for the lesson-wide chat: every section followed by the lesson's source list. The
+  // question, answer and section fields are then empty.
+  lessonContent?: string;
+  // Passages from other sections and the pasted texts, chosen to fit the token budget.
+  excerpts?: { label: string; text: string }[];
+  // Set when answering from the user's documents: passages retrieved from the local index,
+  // numbered from 1 in the prompt. The answer cites them as [n] and uses nothing else.
+  passages?: { label: string; text: string }[];
+  // Uploaded PDFs without a text layer, sent along with the question for providers that accept PDF input.
+  attachments?: FollowUpAttachment[];
+  promptProfile?: PromptProfile;
+}
+
+export interface ProviderCapabilities {
+  urlContext: boolean;
+  pdfInput: boolean;
+  imageInput: boolean;
+  webSearch: boolean;
+}
+
+// Everything the UI needs from a model backend. Provider-specific request shapes
+// (tool declarations, grounding metadata, SSE framing) stay inside each implementation.
+export interface ModelProvider {
+  id: ProviderId;
+  label: string;
+  models: { value: string; label: string }[];
+  capabilities: ProviderCapabilities;
+  // Returns a user-facing explanation when the provider cannot be used yet, otherwise null.
+  getConfigurationError(): string | null;
+  getTeachingSections(context: TeachingContext, signal?: AbortSignal): Promise<TeachingResult>;
+  streamTeachingSections(
+    context: TeachingContext,
+    onProgress: (progress: TeachingStreamProgress) => void,
+    signal?: AbortSignal
+  ): Promise<StreamedTeachingResult>;
+  getFollowUpResponse(
+    userMessage: string,
+    context: FollowUpContext,
+    useWebSearch: boolean,
+    history: Content[],
+    modelName: string,
+    signal?: AbortSignal
+  ): Promise<ChatResponse>;
+  // Like getFollowUpResponse, but `onText` receives the reply so far as it is generated.
+  streamFollowUpResponse(
+    userMessage: string,
+    context: FollowUpContext,
+    useWebSearch: boolean,
+    history: Content[],
+    modelName: string,
+    onText: (text: string) => void,
+    signal?: AbortSignal
+  ): Promise<StreamedChatResponse>;
+  // Counts the tokens `parts` would use as a prompt for the given model.
+  countTokens(parts: Part[], modelName: string, signal?: AbortSignal): Promise<number>;
+  // Writes multiple-choice questions that test only what the section's Q&A pairs state.
+  generateSectionQuiz(section: TeachingSectionContent, modelName: string, signal?: AbortSignal): Promise<QuizQuestion[]>;
+}
@@ -0,0 +1,229 @@
+import { BatchItem } from '../types';
+import { TeachingResult, QuotaExceededError, RequestCancelledError } from './providerTypes';
+import { sleep } from './requestRunner';
+
+// Imports question banks and runs them through the generator a few at a time. Each request
+// already retries short rate-limit bursts itself; when one still fails on quota, the whole
+// queue pauses and the question goes back to the front, so a bank doesn't burn through its
+// retries while the limit lasts.
+
+export class QuestionBankError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QuestionBankError';
+  }
+}
+
+const QUESTION_KEYS = ['question', 'Question', 'text', 'prompt', 'q', 'stem'];
+const QUESTION_LIST_KEYS = ['questions', 'items', 'data'];
+const MAX_QUESTIONS = 500;
+
+export const MAX_BATCH_CONCURRENCY = 5;
+const INITIAL_PAUSE_MS = 20_000;
+const MAX_PAUSE_MS = 5 * 60_000;
+// How often one question may be put back after a rate-limit failure before it counts as failed.
+const MAX_QUOTA_REQUEUES = 3;
+
+// Splits one CSV line, honouring double-quoted fields with embedded commas and quotes.
+const splitCsvLine = (line: string, delimiter: string): string[] => {
+  const fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields.map(value => value.trim());
+};
+
+// Splits CSV text into records; a quoted field may span several lines.
+const splitCsvRecords = (text: string): string[] => {
+  const records: string[] = [];
+  let current = '';
+  for (const line of text.split(/\r?\n/)) {
+    current = current ? `${current}\n${line}` : line;
+    if ((current.match(/"/g)?.length ?? 0) % 2 === 0) {
+      records.push(current);
+      current = '';
+    }
+  }
+  if (current) records.push(current);
+  return records.filter(record => record.trim());
+};
+
+// Uses the "question" column when there is a header row, otherwise the first column.
+const parseDelimited = (text: string, delimiter: string): string[] => {
+  const rows = splitCsvRecords(text).map(record => splitCsvLine(record, delimiter));
+  if (rows.length === 0) return [];
+  const headerIndex = rows[0].findIndex(cell => /^(question|questions|prompt|stem)$/i.test(cell));
+  return headerIndex === -1
+    ? rows.map(row => row[0])
+    : rows.slice(1).map(row => row[headerIndex] ?? '');
+};
+
+const parseJson = (text: string): string[] => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new QuestionBankError('The file is not valid JSON.');
+  }
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    const record = value as Record<string, unknown>;
+    value = QUESTION_LIST_KEYS.map(key => record[key]).find(Array.isArray);
+  }
+  if (!Array.isArray(value)) {
+    throw new QuestionBankError('The JSON must be an array of questions, or an object with a "questions" array.');
+  }
+  return value.map(entry => {
+    if (typeof entry === 'string') return entry;
+    if (entry && typeof entry === 'object') {
+      const record = entry as Record<string, unknown>;
+      const key = QUESTION_KEYS.find(candidate => typeof record[candidate] === 'string');
+      return key ? (record[key] as string) : '';
+    }
+    return '';
+  });
+};
+
+// One question per line; list numbering such as "1.", "Q2)" or "- " is removed.
+const parseLines = (text: string): string[] =>
+  text.split(/\r?\n/).map(line => line.replace(/^\s*(?:[-*•]|Q?\d+[.):])\s+/i, ''));
+
+// Reads pasted text or a .txt, .csv, .tsv or .json file into a de-duplicated list of questions.
+export const parseQuestionBank = (text: string, fileName = ''): string[] => {
+  const trimmed = text.trim();
+  const extension = fileName.toLowerCase().split('.').pop();
+  let questions: string[];
+  if (extension === 'json' || /^[[{]/.test(trimmed)) {
+    questions = parseJson(trimmed);
+  } else if (extension === 'csv') {
+    questions = parseDelimited(trimmed, ',');
+  } else if (extension === 'tsv') {
+    questions = parseDelimited(trimmed, '\t');
+  } else {
+    questions = parseLines(trimmed);
+  }
+  const unique = [...new Set(questions.map(question => question.replace(/\s+/g, ' ').trim()).filter(Boolean))];
+  if (unique.length === 0) {
+    throw new QuestionBankError('No questions were found.');
+  }
+  if (unique.length > MAX_QUESTIONS) {
+    throw new QuestionBankError(`The bank has ${unique.length} questions; at most ${MAX_QUESTIONS} can be run at once.`);
+  }
+  return unique;
+};
+
+export const createBatchItems = (questions: string[]): BatchItem[] =>
+  questions.map((question, index) => ({
+    id: `${Date.now()}-${index}`,
+    question,
+    status: 'queued',
+    attempts: 0,
+  }));
+
+export interface BatchQueueOptions {
+  concurrency: number;
+  signal: AbortSignal;
+  onItemUpdate: (id: string, update: Partial<BatchItem>) => void;
+  // Called with the time the queue resumes after a rate limit, and with null once it runs again.
+  onPause?: (resumeAt: number | null) => void;
+}
+
+// Runs `generate` for each item, at most `concurrency` at a time. Resolves when every item has
+// finished or the signal is aborted; items still waiting or interrupted are left 'queued'.
+export async function runBatchQueue(
+  items: BatchItem[],
+  generate: (question: string, signal: AbortSignal) => Promise<TeachingResult>,
+  options: BatchQueueOptions
+): Promise<void> {
+  const { concurrency, signal, onItemUpdate, onPause } = options;
+  const queue = [...items];
+  const attempts = new Map(items.map(item => [item.id, item.attempts]));
+  const requeues = new Map<string, number>();
+  let resumeAt = 0;
+  let pauseMs = INITIAL_PAUSE_MS;
+
+  const worker = async () => {
+    while (queue.length > 0 && !signal.aborted) {
+      const waitMs = resumeAt - Date.now();
+      if (waitMs > 0) {
+        try {
+          await sleep(waitMs, signal);
+        } catch {
+          return;
+        }
+        onPause?.(null);
+        continue;
+      }
+
+      const item = queue.shift()!;
+      const attempt = (attempts.get(item.id) ?? 0) + 1;
+      attempts.set(item.id, attempt);
+      onItemUpdate(item.id, { status: 'running', error: undefined, attempts: attempt });
+      try {
+        const { sections, sources } = await generate(item.question, signal);
+        if (sections.length === 0) {
+          throw new Error('The model returned no answer.');
+        }
+        onItemUpdate(item.id, { status: 'done', sections, sources });
+        pauseMs = INITIAL_PAUSE_MS;
+      } catch (error) {
+        if (signal.aborted || error instanceof RequestCancelledError) {
+          onItemUpdate(item.id, { status: 'queued' });
+          return;
+        }
+        const requeueCount = requeues.get(item.id) ?? 0;
+        if (error instanceof QuotaExceededError && requeueCount < MAX_QUOTA_REQUEUES) {
+          requeues.set(item.id, requeueCount + 1);
+          queue.unshift(item);
+          onItemUpdate(item.id, { status: 'queued' });
+          // Only the first worker to hit the limit extends the pause.
+          if (resumeAt <= Date.now()) {
+            resumeAt = Date.now() + pauseMs;
+            pauseMs = Math.min(MAX_PAUSE_MS, pauseMs * 2);
+            console.warn(`[Question Bank] Rate limited; pausing the queue for ${Math.round((resumeAt - Date.now()) / 1000)} s.`);
+            onPause?.(resumeAt);
+          }
+          continue;
+        }
+        console.error(`[Question Bank] "${item.question}" failed:`, error);
+        onItemUpdate(item.id, { status: 'failed', error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(concurrency, MAX_BATCH_CONCURRENCY, queue.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  onPause?.(null);
+}
+
+// The whole run as JSON: every question with its status, answer sections and sources.
+export const buildQuestionBankJson = (items: BatchItem[], model: string): string =>
+  JSON.stringify({
+    exportedAt: new Date().toISOString(),
+    model,
+    questions: items.map(({ question, status, sections, sources, error }) => ({
+      question,
+      status,
+      ...(sections ? { sections, sources: sources ?? [] } : {}),
+      ...(error ? { error } : {}),
+    })),
+  }, null, 2);
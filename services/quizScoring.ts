@@ -0,0 +1,27 @@
+import { SectionQuiz } from '../types';
+
+export interface QuizScore {
+  correct: number;
+  answered: number;
+  total: number;
+}
+
+export const scoreQuiz = (quiz: SectionQuiz): QuizScore => ({
+  correct: quiz.answers.filter((answer, index) => answer === quiz.questions[index]?.correct_index).length,
+  answered: quiz.answers.filter(answer => answer !== null).length,
+  total: quiz.questions.length,
+});
+
+// Totals across every section quiz of a lesson.
+export const scoreLessonQuizzes = (quizzes: SectionQuiz[]): QuizScore =>
+  quizzes.map(scoreQuiz).reduce(
+    (sum, score) => ({
+      correct: sum.correct + score.correct,
+      answered: sum.answered + score.answered,
+      total: sum.total + score.total,
+    }),
+    { correct: 0, answered: 0, total: 0 }
+  );
+
+export const formatPercent = (correct: number, answered: number): string =>
+  answered === 0 ? '–' : `${Math.round((correct / answered) * 100)}%`;
@@ -0,0 +1,190 @@
+import {
+  ModelRequestError, QuotaExceededError, AuthenticationError, NetworkError,
+  RequestTimeoutError, SafetyBlockedError, ServiceUnavailableError, RequestCancelledError,
+} from './providerTypes';
+import { isRecord } from './lessonValidation';
+
+// Shared request policy for every provider: cancellation through an AbortSignal,
+// a per-attempt timeout, and retries with jittered exponential backoff for
+// transient failures (rate limits, overloaded servers, dropped connections).
+
+const SETTINGS_KEY = 'radiology-lessons:request-settings';
+
+export interface RequestSettings {
+  // Per-attempt timeout for generating a lesson.
+  lessonTimeoutSeconds: number;
+  // Per-attempt timeout for a follow-up chat reply.
+  chatTimeoutSeconds: number;
+  maxRetries: number;
+  // Token budget for the lesson and document context sent with a follow-up question.
+  followUpContextTokens: number;
+}
+
+export const DEFAULT_REQUEST_SETTINGS: RequestSettings = {
+  lessonTimeoutSeconds: 600,
+  chatTimeoutSeconds: 120,
+  maxRetries: 3,
+  followUpContextTokens: 8000,
+};
+
+export const REQUEST_SETTING_RANGES: Record<keyof RequestSettings, { min: number; max: number }> = {
+  lessonTimeoutSeconds: { min: 10, max: 3600 },
+  chatTimeoutSeconds: { min: 10, max: 600 },
+  maxRetries: { min: 0, max: 10 },
+  followUpContextTokens: { min: 1000, max: 1_000_000 },
+};
+
+export const clampRequestSetting = (field: keyof RequestSettings, value: number): number =>
+  Math.min(REQUEST_SETTING_RANGES[field].max, Math.max(REQUEST_SETTING_RANGES[field].min, value));
+
+export const getRequestSettings = (): RequestSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    if (!stored) return DEFAULT_REQUEST_SETTINGS;
+    const settings: RequestSettings = { ...DEFAULT_REQUEST_SETTINGS, ...JSON.parse(stored) };
+    (Object.keys(REQUEST_SETTING_RANGES) as (keyof RequestSettings)[]).forEach(field => {
+      const value = Number(settings[field]);
+      settings[field] = Number.isFinite(value) ? clampRequestSetting(field, value) : DEFAULT_REQUEST_SETTINGS[field];
+    });
+    return settings;
+  } catch {
+    return DEFAULT_REQUEST_SETTINGS;
+  }
+};
+
+export const saveRequestSettings = (settings: RequestSettings): void => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30000;
+
+export interface RunRequestOptions {
+  signal?: AbortSignal;
+  timeoutMs: number;
+  maxRetries: number;
+  // Extra veto over retrying, e.g. once a stream has already delivered data.
+  canRetry?: (error: ModelRequestError) => boolean;
+  onRetry?: (attempt: number, delayMs: number, error: ModelRequestError) => void;
+}
+
+export const lessonRequestOptions = (signal?: AbortSignal): RunRequestOptions => {
+  const settings = getRequestSettings();
+  return { signal, timeoutMs: settings.lessonTimeoutSeconds * 1000, maxRetries: settings.maxRetries };
+};
+
+export const chatRequestOptions = (signal?: AbortSignal): RunRequestOptions => {
+  const settings = getRequestSettings();
+  return { signal, timeoutMs: settings.chatTimeoutSeconds * 1000, maxRetries: settings.maxRetries };
+};
+
+const TRANSIENT_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+const extractStatus = (error: unknown): number | undefined => {
+  if (!isRecord(error)) return undefined;
+  if (typeof error.status === 'number') return error.status;
+  const message = typeof error.message === 'string' ? error.message : '';
+  const codeMatch = /"code"\s*:\s*(\d{3})/.exec(message) ?? /\b(4\d\d|5\d\d)\b/.exec(message);
+  return codeMatch ? parseInt(codeMatch[1], 10) : undefined;
+};
+
+// Maps whatever a provider or fetch threw onto one of the typed request errors.
+export const classifyRequestError = (error: unknown): ModelRequestError => {
+  if (error instanceof ModelRequestError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  const status = extractStatus(error);
+
+  if (error instanceof DOMException && error.name === 'AbortError') {
+    return new RequestCancelledError();
+  }
+  if (/SAFETY|blocked/i.test(message) && !status) {
+    return new SafetyBlockedError();
+  }
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) {
+    return new QuotaExceededError(undefined, status);
+  }
+  if (status === 401 || status === 403 || /API key not valid|PERMISSION_DENIED|UNAUTHENTICATED/i.test(message)) {
+    return new AuthenticationError(undefined, status);
+  }
+  if (status === 408 || status === 504 || /DEADLINE_EXCEEDED/i.test(message)) {
+    return new RequestTimeoutError();
+  }
+  if ((status && TRANSIENT_STATUSES.has(status)) || /UNAVAILABLE|overloaded/i.test(message)) {
+    return new ServiceUnavailableError(undefined, status);
+  }
+  if (error instanceof TypeError || /Failed to fetch|NetworkError|network/i.test(message)) {
+    return new NetworkError();
+  }
+  return new ModelRequestError(message || "The request failed.", 'server', false, status);
+};
+
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new RequestCancelledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(new RequestCancelledError());
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+export const retryDelay = (attempt: number): number => {
+  const exponential = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** attempt);
+  // Equal jitter: keep half of the delay and randomise the rest so parallel callers spread out.
+  return exponential / 2 + Math.random() * (exponential / 2);
+};
+
+// Runs `operation`, handing it a signal that fires on user cancellation or timeout.
+// Transient failures are retried up to `maxRetries` times; everything that escapes
+// is a ModelRequestError.
+export async function runModelRequest<T>(
+  operation: (signal: AbortSignal) => Promise<T>,
+  options: RunRequestOptions
+): Promise<T> {
+  const { signal, timeoutMs, maxRetries, canRetry, onRetry } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) throw new RequestCancelledError();
+
+    const controller = new AbortController();
+    let timedOut = false;
+    const timeoutId = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    const forwardAbort = () => controller.abort();
+    signal?.addEventListener('abort', forwardAbort, { once: true });
+
+    try {
+      return await operation(controller.signal);
+    } catch (error) {
+      let requestError: ModelRequestError;
+      if (signal?.aborted) {
+        requestError = new RequestCancelledError();
+      } else if (timedOut) {
+        requestError = new RequestTimeoutError(`The model did not respond within ${Math.round(timeoutMs / 1000)} seconds.`);
+      } else {
+        requestError = classifyRequestError(error);
+      }
+
+      const mayRetry = requestError.retryable && attempt < maxRetries && (!canRetry || canRetry(requestError));
+      if (!mayRetry) throw requestError;
+
+      const delayMs = retryDelay(attempt);
+      console.warn(`[Request Runner] ${requestError.name}: ${requestError.message} Retrying in ${Math.round(delayMs)} ms (attempt ${attempt + 1} of ${maxRetries}).`);
+      onRetry?.(attempt + 1, delayMs, requestError);
+      await sleep(delayMs, signal);
+    } finally {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', forwardAbort);
+    }
+  }
+}
@@ -0,0 +1,206 @@
+import { TeachingSectionContent, QuestionAnswerPair, GroundingSource, QuizQuestion } from '../types';
+import { MissingPdfError, LessonFormatError, RequestCancelledError, TeachingStreamProgress } from './providerTypes';
+import { parsePartialJson, findJsonStart } from './partialJson';
+import { validateTeachingSections, validateQuizQuestions, isRecord } from './lessonValidation';
+import { buildJsonRepairPrompt } from './prompts';
+
+export const MAX_JSON_REPAIR_ATTEMPTS = 2;
+
+// Finds the closing bracket that matches the one at `start`, ignoring brackets inside strings.
+const findJsonEnd = (text: string, start: number): number => {
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (ch === '\\') i++;
+      else if (ch === '"') inString = false;
+    } else if (ch === '"') {
+      inString = true;
+    } else if (ch === '[' || ch === '{') {
+      depth++;
+    } else if (ch === ']' || ch === '}') {
+      depth--;
+      if (depth === 0) return i + 1;
+    }
+  }
+  return -1;
+};
+
+// Turns raw model output into a JSON value, tolerating the defects models commonly
+// produce: Markdown fences, prose before or after the payload, trailing commas and
+// output that was cut off mid-array. Repairs made along the way are added to `issues`.
+export const parseLenientJson = (responseText: string, issues: string[]): unknown => {
+  const start = findJsonStart(responseText);
+  if (start === -1) {
+    throw new SyntaxError("Could not find a JSON object or array in the response.");
+  }
+  const end = findJsonEnd(responseText, start);
+  if (responseText.substring(0, start).replace(/```(json)?/i, '').trim() ||
+      (end !== -1 && responseText.substring(end).replace(/```/, '').trim())) {
+    issues.push('Text outside the JSON payload was ignored.');
+  }
+  const candidate = end === -1 ? responseText.substring(start) : responseText.substring(start, end);
+
+  try {
+    return JSON.parse(candidate);
+  } catch {
+    // Fall through to the forgiving parser below.
+  }
+
+  // parsePartialJson skips stray separators, so trailing commas parse without rewriting the text.
+  const parsed = parsePartialJson(candidate);
+  issues.push(parsed.complete
+    ? 'Invalid JSON syntax such as trailing commas was ignored.'
+    : 'The JSON was truncated; incomplete entries were dropped.');
+  return parsed.value;
+};
+
+export const parseTeachingResponse = (responseText: string): TeachingSectionContent[] => {
+    const issues: string[] = [];
+    let parsedResponse: unknown;
+    try {
+      parsedResponse = parseLenientJson(responseText, issues);
+    } catch (error) {
+      throw new LessonFormatError(
+        "The AI returned a response that could not be read as JSON.",
+        [...issues, error instanceof Error ? error.message : String(error)],
+        responseText,
+      );
+    }
+
+    const missingPdfs = isRecord(parsedResponse) ? parsedResponse.missing_pdfs : undefined;
+    if (Array.isArray(missingPdfs) && missingPdfs.length > 0) {
+      throw new MissingPdfError("The AI has requested you upload PDFs for more context.", missingPdfs);
+    }
+
+    const validation = validateTeachingSections(parsedResponse);
+    issues.push(...validation.issues);
+    if (validation.sections.length === 0) {
+      throw new LessonFormatError("The AI returned teaching sections in an unexpected format.", issues, responseText);
+    }
+    if (issues.length > 0) {
+      console.warn(`[Response Parsing] Repaired the lesson JSON: ${issues.join(' ')}`);
+    }
+    return validation.sections;
+};
+
+// Parses a lesson response and, if it cannot be salvaged locally, asks the model to
+// correct its own output up to MAX_JSON_REPAIR_ATTEMPTS times. `requestRepair` sends
+// the repair prompt to the same provider and resolves with the new raw response.
+export const parseTeachingResponseWithRepair = async (
+  responseText: string,
+  requestRepair: (prompt: string) => Promise<string>
+): Promise<TeachingSectionContent[]> => {
+  let lastError: LessonFormatError;
+  try {
+    return parseTeachingResponse(responseText);
+  } catch (error) {
+    if (!(error instanceof LessonFormatError)) throw error;
+    lastError = error;
+  }
+
+  for (let attempt = 1; attempt <= MAX_JSON_REPAIR_ATTEMPTS; attempt++) {
+    console.warn(`[Response Parsing] Lesson JSON was invalid, asking the model to repair it (attempt ${attempt} of ${MAX_JSON_REPAIR_ATTEMPTS}).`);
+    let repairedText: string;
+    try {
+      repairedText = await requestRepair(buildJsonRepairPrompt(lastError.rawResponse, lastError.issues));
+    } catch (error) {
+      if (error instanceof RequestCancelledError) throw error;
+      console.error("[Response Parsing] The repair request failed:", error);
+      break;
+    }
+    try {
+      return parseTeachingResponse(repairedText);
+    } catch (error) {
+      if (!(error instanceof LessonFormatError)) throw error;
+      lastError = error;
+    }
+  }
+
+  throw new LessonFormatError(
+    "The AI's output could not be turned into a valid lesson, even after asking it to fix the format.",
+    lastError.issues,
+    responseText,
+  );
+};
+
+export const parseQuizResponse = (responseText: string): QuizQuestion[] => {
+    const issues: string[] = [];
+    let parsedResponse: unknown;
+    try {
+      parsedResponse = parseLenientJson(responseText, issues);
+    } catch (error) {
+      throw new LessonFormatError(
+        "The AI returned a quiz that could not be read as JSON.",
+        [...issues, error instanceof Error ? error.message : String(error)],
+        responseText,
+      );
+    }
+
+    const validation = validateQuizQuestions(parsedResponse);
+    issues.push(...validation.issues);
+    if (validation.questions.length === 0) {
+      throw new LessonFormatError("The AI returned quiz questions in an unexpected format.", issues, responseText);
+    }
+    if (issues.length > 0) {
+      console.warn(`[Response Parsing] Repaired the quiz JSON: ${issues.join(' ')}`);
+    }
+    return validation.questions;
+};
+
+// Pulls whatever sections have been fully written out of a partially streamed response.
+export const extractStreamedSections = (text: string): TeachingStreamProgress => {
+  const start = findJsonStart(text);
+  if (start === -1 || text[start] !== '[') {
+    return { sections: [], partialSection: null };
+  }
+  let parsed;
+  try {
+    parsed = parsePartialJson(text, start);
+  } catch {
+    return { sections: [], partialSection: null };
+  }
+  if (!Array.isArray(parsed.value)) {
+    return { sections: [], partialSection: null };
+  }
+
+  const isCompletePair = (qa: unknown): qa is QuestionAnswerPair =>
+    isRecord(qa) && typeof qa.question === 'string' && typeof qa.answer === 'string' && !parsed.incomplete.has(qa);
+
+  const sections: TeachingSectionContent[] = [];
+  let partialSection: TeachingSectionContent | null = null;
+  for (const item of parsed.value) {
+    if (!isRecord(item)) continue;
+    const qaPairs = Array.isArray(item.qa_pairs) ? item.qa_pairs.filter(isCompletePair) : [];
+    if (!parsed.incomplete.has(item)) {
+      if (typeof item.section_title === 'string') {
+        sections.push({ section_title: item.section_title, qa_pairs: qaPairs });
+      }
+    } else if (typeof item.section_title === 'string') {
+      partialSection = { section_title: item.section_title, qa_pairs: qaPairs };
+    }
+  }
+  return { sections, partialSection };
+};
+
+// Collects URLs the model typed into its reply that aren't already listed as grounding sources.
+export const extractRelatedLinks = (text: string, sources: GroundingSource[]): GroundingSource[] => {
+  const urlRegex = /\bhttps?:\/\/\S+/gi;
+  const extractedUrls = text.match(urlRegex) || [];
+  const cleanedUrls = extractedUrls.map(url => {
+    try {
+      const urlObj = new URL(url.replace(/[.,;!?)\]>]+$/, ''));
+      urlObj.hash = '';
+      return urlObj.href;
+    } catch (e) {
+      return null;
+    }
+  }).filter((url): url is string => url !== null);
+
+  const sourceUris = new Set(sources.map(s => s.uri));
+  const relatedLinks: GroundingSource[] = [...new Set(cleanedUrls)]
+      .filter(url => !sourceUris.has(url))
+      .map(url => ({ uri: url, title: url }));
+  return relatedLinks;
+};
@@ -0,0 +1,112 @@
+import { GroundingSource, LearningContext } from '../types';
+import { pdfSourceUri, pastedTextSourceUri } from './citations';
+
+// A local BM25 index over the lesson's uploaded PDFs and pasted texts, so follow-up questions
+// can be answered from the user's own documents without a web search. Passages are short
+// enough to cite precisely and keep their PDF page number.
+
+const PASSAGE_TARGET_CHARS = 800;
+const DEFAULT_RESULT_COUNT = 8;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const STOP_WORDS = new Set([
+  'a', 'about', 'after', 'all', 'also', 'an', 'and', 'are', 'as', 'at', 'be', 'been', 'but', 'by',
+  'can', 'do', 'does', 'for', 'from', 'has', 'have', 'how', 'i', 'if', 'in', 'into', 'is', 'it',
+  'its', 'may', 'more', 'most', 'no', 'not', 'of', 'on', 'or', 'other', 'should', 'so', 'than',
+  'that', 'the', 'their', 'there', 'these', 'they', 'this', 'to', 'was', 'we', 'what', 'when',
+  'where', 'which', 'while', 'who', 'why', 'will', 'with', 'would', 'you', 'your',
+]);
+
+export interface RetrievalPassage {
+  label: string;
+  text: string;
+  // Points at the uploaded document (and page) the passage came from.
+  source: GroundingSource;
+}
+
+export interface RetrievalIndex {
+  passages: RetrievalPassage[];
+  termCounts: Map<string, number>[];
+  lengths: number[];
+  documentFrequency: Map<string, number>;
+  averageLength: number;
+}
+
+// Lower-cased words and numbers; a trailing plural "s" is dropped so "cysts" matches "cyst".
+const tokenize = (text: string): string[] =>
+  (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])
+    .filter(term => !STOP_WORDS.has(term))
+    .map(term => (term.length > 4 && term.endsWith('s') && !term.endsWith('ss') ? term.slice(0, -1) : term));
+
+// Splits at sentence ends and blank lines and packs sentences into passages of roughly
+// PASSAGE_TARGET_CHARS, so a passage never cuts a sentence in half.
+const splitPassages = (text: string): string[] => {
+  const passages: string[] = [];
+  let current = '';
+  for (const sentence of text.split(/(?<=[.!?])\s+|\n\s*\n/).map(s => s.trim()).filter(Boolean)) {
+    if (current && current.length + sentence.length > PASSAGE_TARGET_CHARS) {
+      passages.push(current);
+      current = '';
+    }
+    current = current ? `${current} ${sentence}` : sentence;
+  }
+  if (current) passages.push(current);
+  return passages;
+};
+
+// PDFs without extracted text contribute no passages.
+export const buildRetrievalIndex = (context: Pick<LearningContext, 'pdfDocuments' | 'pastedTexts'>): RetrievalIndex => {
+  const passages: RetrievalPassage[] = [];
+  (context.pdfDocuments ?? []).forEach((document, pdfIndex) => {
+    document?.pages.forEach(page => {
+      const label = `${document.name} p. ${page.pageNumber}`;
+      splitPassages(page.text).forEach(text => passages.push({
+        label,
+        text,
+        source: { uri: pdfSourceUri(pdfIndex, page.pageNumber), title: label },
+      }));
+    });
+  });
+  (context.pastedTexts ?? []).forEach((pastedText, textIndex) => {
+    splitPassages(pastedText).forEach(text => passages.push({
+      label: `Pasted text ${textIndex + 1}`,
+      text,
+      source: { uri: pastedTextSourceUri(textIndex), title: `Pasted text ${textIndex + 1}` },
+    }));
+  });
+
+  const documentFrequency = new Map<string, number>();
+  const termCounts = passages.map(passage => {
+    const counts = new Map<string, number>();
+    tokenize(passage.text).forEach(term => counts.set(term, (counts.get(term) ?? 0) + 1));
+    counts.forEach((_, term) => documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1));
+    return counts;
+  });
+  const lengths = termCounts.map(counts => Array.from(counts.values()).reduce((sum, count) => sum + count, 0));
+  const averageLength = lengths.length > 0 ? lengths.reduce((sum, length) => sum + length, 0) / lengths.length : 0;
+  return { passages, termCounts, lengths, documentFrequency, averageLength };
+};
+
+// The highest-scoring passages for the query, best first. Passages sharing no term with the
+// query are never returned.
+export const searchPassages = (index: RetrievalIndex, query: string, limit = DEFAULT_RESULT_COUNT): RetrievalPassage[] => {
+  const terms = [...new Set(tokenize(query))];
+  const total = index.passages.length;
+  return index.passages
+    .map((passage, passageIndex) => {
+      const counts = index.termCounts[passageIndex];
+      const lengthNorm = BM25_K1 * (1 - BM25_B + BM25_B * (index.lengths[passageIndex] / (index.averageLength || 1)));
+      const score = terms.reduce((sum, term) => {
+        const frequency = counts.get(term);
+        if (!frequency) return sum;
+        const df = index.documentFrequency.get(term) ?? 0;
+        const idf = Math.log(1 + (total - df + 0.5) / (df + 0.5));
+        return sum + idf * (frequency * (BM25_K1 + 1)) / (frequency + lengthNorm);
+      }, 0);
+      return { passage, score };
+    })
+    .filter(result => result.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(result => result.passage);
+};
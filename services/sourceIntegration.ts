@@ -0,0 +1,193 @@
+import { TeachingSectionContent, QuestionAnswerPair, GroundingSource, LearningContext, PdfDocumentText } from '../types';
+import { mergeRevisionSources, offsetDocumentSources } from './citations';
+import { createItemId, withLessonIds } from './lessonEditor';
+
+// Adding new sources to an existing lesson. The model returns only what changes, in the
+// usual section shape: sections and questions it copies from the lesson by title are
+// matched back to them, everything else is new. Matched pairs keep their ids, so their
+// chats, flashcard history and quizzes stay attached.
+
+export class SourceIntegrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SourceIntegrationError';
+  }
+}
+
+// The model starts a line with this where a new source disagrees with the lesson.
+export const CONFLICT_MARKER = '**Conflict:**';
+
+export interface AddedSources {
+  urls: string[];
+  pdfFiles: File[];
+  pdfDocuments: (PdfDocumentText | null)[];
+  pastedTexts: string[];
+  searchQuery: string;
+}
+
+export const hasAddedSources = (added: Omit<AddedSources, 'pdfDocuments'>): boolean =>
+  added.urls.length > 0 || added.pdfFiles.length > 0 || added.pastedTexts.length > 0 || !!added.searchQuery.trim();
+
+// The lesson's inputs with the new sources appended, so revisions and follow-up questions
+// can use them. An earlier search query is kept.
+export const appendSources = (context: LearningContext, added: AddedSources): LearningContext => ({
+  ...context,
+  urls: [...context.urls, ...added.urls.filter(url => !context.urls.includes(url))],
+  pdfFiles: [...context.pdfFiles, ...added.pdfFiles],
+  pdfPageRanges: context.pdfPageRanges && [...context.pdfPageRanges, ...added.pdfFiles.map(() => '')],
+  pdfDocuments: [...(context.pdfDocuments ?? context.pdfFiles.map(() => null)), ...added.pdfDocuments],
+  pastedTexts: [...(context.pastedTexts ?? []), ...added.pastedTexts],
+  searchQuery: context.searchQuery || added.searchQuery,
+});
+
+export interface PairChange {
+  id: string;
+  question: string;
+  // Unset for a new pair.
+  before?: string;
+  after: string;
+}
+
+export interface SectionChange {
+  sectionId: string;
+  title: string;
+  isNew: boolean;
+  pairs: PairChange[];
+  // Answers in which a conflict with the new sources was flagged.
+  conflicts: number;
+}
+
+export interface LessonUpdate {
+  sections: TeachingSectionContent[];
+  sources: GroundingSource[];
+  changes: SectionChange[];
+}
+
+const normalize = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const countConflicts = (text: string) => text.split(CONFLICT_MARKER).length - 1;
+
+const unionCitations = (existing: QuestionAnswerPair, update: QuestionAnswerPair): Pick<QuestionAnswerPair, 'citations' | 'citedPages'> => {
+  const citations = [...new Set([...(existing.citations ?? []), ...(update.citations ?? [])])].sort((a, b) => a - b);
+  const citedPages = { ...existing.citedPages, ...update.citedPages };
+  return {
+    ...(citations.length > 0 ? { citations } : {}),
+    ...(Object.keys(citedPages).length > 0 ? { citedPages } : {}),
+  };
+};
+
+// `documentOffsets` is how many PDFs and pasted texts the lesson already has; the new
+// documents are numbered after them.
+export const integrateSources = (
+  lesson: TeachingSectionContent[],
+  lessonSources: GroundingSource[],
+  result: { sections: TeachingSectionContent[]; sources: GroundingSource[] },
+  documentOffsets: { pdfs: number; pastedTexts: number }
+): LessonUpdate => {
+  const merged = mergeRevisionSources(
+    lessonSources,
+    offsetDocumentSources(result.sources, documentOffsets.pdfs, documentOffsets.pastedTexts),
+    result.sections,
+  );
+  const original = withLessonIds(lesson);
+  const sections = original.map(section => ({ ...section, qa_pairs: [...section.qa_pairs] }));
+  const changes = new Map<string, SectionChange>();
+  const changeFor = (section: TeachingSectionContent, isNew: boolean): SectionChange => {
+    const id = section.id!;
+    if (!changes.has(id)) changes.set(id, { sectionId: id, title: section.section_title, isNew, pairs: [], conflicts: 0 });
+    return changes.get(id)!;
+  };
+
+  merged.sections.forEach(update => {
+    let section = sections.find(candidate => normalize(candidate.section_title) === normalize(update.section_title));
+    const isNew = !section;
+    if (!section) {
+      section = { id: createItemId(), section_title: update.section_title, qa_pairs: [] };
+      sections.push(section);
+    }
+    update.qa_pairs.forEach(qa => {
+      const change = changeFor(section!, isNew);
+      const index = section!.qa_pairs.findIndex(candidate => normalize(candidate.question) === normalize(qa.question));
+      if (index === -1) {
+        const added: QuestionAnswerPair = { ...qa, id: createItemId() };
+        section!.qa_pairs.push(added);
+        change.pairs.push({ id: added.id!, question: qa.question, after: qa.answer });
+        change.conflicts += countConflicts(qa.answer);
+        return;
+      }
+      const existing = section!.qa_pairs[index];
+      if (existing.answer.trim() === qa.answer.trim()) return;
+      const { citations: _citations, citedPages: _citedPages, ...rest } = existing;
+      section!.qa_pairs[index] = { ...rest, answer: qa.answer, ...unionCitations(existing, qa) };
+      change.pairs.push({ id: existing.id!, question: existing.question, before: existing.answer, after: qa.answer });
+      change.conflicts += Math.max(0, countConflicts(qa.answer) - countConflicts(existing.answer));
+    });
+  });
+
+  const sectionChanges = [...changes.values()].filter(change => change.pairs.length > 0);
+  if (sectionChanges.length === 0) {
+    throw new SourceIntegrationError('The new sources did not add anything to the lesson.');
+  }
+  // Unchanged sections stay the same objects, so their revision history is kept.
+  const changedIds = new Set(sectionChanges.map(change => change.sectionId));
+  return {
+    sections: sections.map((section, index) => (changedIds.has(section.id!) ? section : original[index])),
+    sources: merged.sources,
+    changes: sectionChanges,
+  };
+};
+
+export interface DiffPart {
+  text: string;
+  change: 'same' | 'added' | 'removed';
+}
+
+// Above this many word pairs an answer is shown as replaced rather than diffed.
+const MAX_DIFF_CELLS = 400_000;
+
+// A word-level diff (longest common subsequence) of two answers, whitespace included.
+export const diffWords = (before: string, after: string): DiffPart[] => {
+  const a = before.split(/(\s+)/).filter(Boolean);
+  const b = after.split(/(\s+)/).filter(Boolean);
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [{ text: before, change: 'removed' }, { text: after, change: 'added' }];
+  }
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+  const parts: DiffPart[] = [];
+  const push = (text: string, change: DiffPart['change']) => {
+    const last = parts[parts.length - 1];
+    if (last && last.change === change) last.text += text; else parts.push({ text, change });
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push(a[i], 'same');
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push(a[i++], 'removed');
+    } else {
+      push(b[j++], 'added');
+    }
+  }
+  while (i < a.length) push(a[i++], 'removed');
+  while (j < b.length) push(b[j++], 'added');
+  return parts;
+};
+
+export const describeChange = (change: SectionChange): string => {
+  const added = change.pairs.filter(pair => pair.before === undefined).length;
+  const enriched = change.pairs.length - added;
+  const parts = [
+    added > 0 ? `${added} new question${added === 1 ? '' : 's'}` : '',
+    enriched > 0 ? `${enriched} answer${enriched === 1 ? '' : 's'} updated` : '',
+    change.conflicts > 0 ? `${change.conflicts} conflict${change.conflicts === 1 ? '' : 's'} flagged` : '',
+  ].filter(Boolean);
+  return parts.join(', ');
+};
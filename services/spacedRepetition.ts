@@ -0,0 +1,169 @@
+import { SavedLesson, Flashcard, FlashcardState, ReviewGrade } from '../types';
+import { pairKey } from './lessonEditor';
+
+// SM-2 scheduling (the SuperMemo 2 algorithm used by Anki and most flashcard apps),
+// with the usual four answer buttons mapped onto SM-2 quality scores.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INITIAL_EASE = 2.5;
+const MINIMUM_EASE = 1.3;
+// A forgotten card comes back within the same session instead of tomorrow.
+const RELEARN_DELAY_MS = 10 * 60 * 1000;
+const HARD_INTERVAL_MULTIPLIER = 1.2;
+const EASY_BONUS = 1.3;
+
+export const NEW_CARDS_PER_DAY = 20;
+
+const GRADE_QUALITY: Record<ReviewGrade, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5,
+};
+
+export const REVIEW_GRADES: ReviewGrade[] = ['again', 'hard', 'good', 'easy'];
+
+export const buildFlashcardId = (lessonId: string, pairId: string): string =>
+  `${lessonId}:${pairId}`;
+
+export const startOfDay = (timestamp: number): number => {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+export const endOfDay = (timestamp: number): number => startOfDay(timestamp) + DAY_MS - 1;
+
+// Day intervals are counted from local midnight so a card scheduled for "tomorrow"
+// becomes due at the start of the day rather than exactly 24 hours later.
+const addDays = (timestamp: number, days: number): number => {
+  const date = new Date(startOfDay(timestamp));
+  date.setDate(date.getDate() + days);
+  return date.getTime();
+};
+
+export const scheduleReview = (
+  cardId: string,
+  lessonId: string,
+  previous: FlashcardState | undefined,
+  grade: ReviewGrade,
+  now: number = Date.now()
+): FlashcardState => {
+  const state: FlashcardState = previous ?? {
+    id: cardId,
+    lessonId,
+    easeFactor: INITIAL_EASE,
+    intervalDays: 0,
+    repetitions: 0,
+    lapses: 0,
+    dueAt: now,
+    introducedAt: now,
+    lastReviewedAt: 0,
+  };
+  const quality = GRADE_QUALITY[grade];
+  const easeFactor = Math.max(
+    MINIMUM_EASE,
+    state.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  if (grade === 'again') {
+    return {
+      ...state,
+      easeFactor,
+      intervalDays: 0,
+      repetitions: 0,
+      lapses: state.repetitions > 0 ? state.lapses + 1 : state.lapses,
+      dueAt: now + RELEARN_DELAY_MS,
+      lastReviewedAt: now,
+    };
+  }
+
+  const repetitions = state.repetitions + 1;
+  let intervalDays: number;
+  if (repetitions === 1) {
+    intervalDays = grade === 'easy' ? 4 : 1;
+  } else if (repetitions === 2) {
+    intervalDays = grade === 'hard' ? 3 : grade === 'easy' ? 8 : 6;
+  } else if (grade === 'hard') {
+    intervalDays = Math.max(state.intervalDays + 1, Math.round(state.intervalDays * HARD_INTERVAL_MULTIPLIER));
+  } else {
+    intervalDays = Math.round(state.intervalDays * easeFactor * (grade === 'easy' ? EASY_BONUS : 1));
+  }
+  intervalDays = Math.max(1, intervalDays);
+
+  return {
+    ...state,
+    easeFactor,
+    intervalDays,
+    repetitions,
+    dueAt: addDays(now, intervalDays),
+    lastReviewedAt: now,
+  };
+};
+
+// Short label for the interval a grade would produce, shown on the answer buttons.
+export const describeNextInterval = (card: Flashcard, grade: ReviewGrade, now: number = Date.now()): string => {
+  const next = scheduleReview(card.id, card.lessonId, card.state, grade, now);
+  if (next.intervalDays === 0) {
+    return `${Math.round(RELEARN_DELAY_MS / 60000)} min`;
+  }
+  if (next.intervalDays < 30) {
+    return `${next.intervalDays} d`;
+  }
+  if (next.intervalDays < 365) {
+    return `${Math.round(next.intervalDays / 30)} mo`;
+  }
+  return `${(next.intervalDays / 365).toFixed(1)} y`;
+};
+
+export const buildFlashcards = (lessons: SavedLesson[], states: FlashcardState[]): Flashcard[] => {
+  const stateById = new Map(states.map(state => [state.id, state]));
+  const cards: Flashcard[] = [];
+  for (const lesson of lessons) {
+    lesson.teachingSteps.forEach((section, sectionIndex) => {
+      section.qa_pairs.forEach((qa, qaIndex) => {
+        const id = buildFlashcardId(lesson.id, pairKey(qa, sectionIndex, qaIndex));
+        cards.push({
+          id,
+          lessonId: lesson.id,
+          lessonTitle: lesson.title,
+          sectionTitle: section.section_title,
+          question: qa.question,
+          answer: qa.answer,
+          state: stateById.get(id),
+        });
+      });
+    });
+  }
+  return cards;
+};
+
+export interface ReviewQueue {
+  // Previously reviewed cards due by the end of today, most overdue first.
+  due: Flashcard[];
+  // Never-reviewed cards still available under today's new-card limit.
+  fresh: Flashcard[];
+  totalNew: number;
+}
+
+export const buildReviewQueue = (
+  cards: Flashcard[],
+  states: FlashcardState[],
+  now: number = Date.now(),
+  newCardsPerDay: number = NEW_CARDS_PER_DAY
+): ReviewQueue => {
+  const todayEnd = endOfDay(now);
+  const todayStart = startOfDay(now);
+  const introducedToday = states.filter(state => state.introducedAt >= todayStart).length;
+
+  const due = cards
+    .filter(card => card.state && card.state.dueAt <= todayEnd)
+    .sort((a, b) => a.state!.dueAt - b.state!.dueAt);
+  const unseen = cards.filter(card => !card.state);
+
+  return {
+    due,
+    fresh: unseen.slice(0, Math.max(0, newCardsPerDay - introducedToday)),
+    totalNew: unseen.length,
+  };
+};
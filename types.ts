@@ -6,20 +6,228 @@ export interface GroundingSource {
   title: string;
 }
 
+// A span of a chat answer that the model's grounding data ties to one or more sources.
+export interface ChatCitation {
+  // Character offsets into the message text.
+  startIndex: number;
+  endIndex: number;
+  // 0-based positions in the message's `sources`.
+  sourceIndices: number[];
+}
+
+export interface ContextItemSummary {
+  label: string;
+  tokens: number;
+  included: boolean;
+}
+
+// What lesson and document context accompanied a follow-up question, shown under the answer.
+export interface FollowUpContextSummary {
+  budgetTokens: number;
+  usedTokens: number;
+  // True when the model's token counter was unavailable and counts are estimates.
+  isEstimate: boolean;
+  items: ContextItemSummary[];
+  // Relevant passages that did not fit the budget.
+  omittedExcerpts: number;
+}
+
+// Where a follow-up answer comes from: the lesson itself, the user's uploaded documents
+// (through the local retrieval index) or a web search.
+export type ChatAnswerMode = 'lesson' | 'documents' | 'web';
+
 export interface ChatMessage extends Content {
   id: string;
   role: 'user' | 'model';
   parts: Part[];
   sources?: GroundingSource[];
   relatedLinks?: GroundingSource[];
+  // Set for web-grounded answers. Document answers and older messages have model-typed [n]
+  // markers in the text instead.
+  citations?: ChatCitation[];
+  contextSummary?: FollowUpContextSummary;
 }
 
 export interface QuestionAnswerPair {
+  // Stable across edits and reordering; chats and flashcards are keyed by it.
+  id?: string;
   question: string;
   answer: string;
+  // 1-based positions in the lesson's source list that support this answer.
+  citations?: number[];
+  // Pages cited within uploaded PDFs, keyed by source number.
+  citedPages?: Record<number, number[]>;
+}
+
+export interface PdfPageText {
+  pageNumber: number;
+  text: string;
+}
+
+// Text extracted from the selected pages of an uploaded PDF.
+export interface PdfDocumentText {
+  name: string;
+  pageCount: number;
+  pages: PdfPageText[];
 }
 
 export interface TeachingSectionContent {
+  // Stable across edits and reordering; quizzes and revisions are keyed by it.
+  id?: string;
   section_title: string;
   qa_pairs: QuestionAnswerPair[];
 }
+
+// A single-best-answer multiple-choice question generated from a section's Q&A pairs.
+export interface QuizQuestion {
+  stem: string;
+  options: string[];
+  correct_index: number;
+  explanation: string;
+}
+
+export interface SectionQuiz {
+  questions: QuizQuestion[];
+  // The option chosen for each question, or null while unanswered.
+  answers: (number | null)[];
+  generatedAt: number;
+  completedAt?: number;
+}
+
+export type ProviderId = 'gemini' | 'openai-compatible' | 'mock';
+
+// A key image attached to a lesson request or a follow-up question. DICOM files are converted
+// to a windowed PNG before they get here.
+export interface ImageAttachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  base64: string;
+  // Non-identifying DICOM details such as modality and series, passed to the model.
+  description?: string;
+  // The window used to render a DICOM image.
+  window?: { center: number; width: number };
+}
+
+export type AnswerDepth = 'brief' | 'standard' | 'detailed';
+
+// A named set of prompt and sampling choices: who the lesson is for, how many sections it has,
+// how deep and in what tone the answers go, and how freely the model samples.
+export interface PromptProfile {
+  id: string;
+  name: string;
+  // Completes "Your output is for ...", e.g. "medical students on their radiology rotation".
+  audience: string;
+  minSections: number;
+  maxSections: number;
+  answerDepth: AnswerDepth;
+  tone: string;
+  temperature: number;
+  topP: number;
+  // Ignored by OpenAI-compatible servers, which have no top-k setting.
+  topK: number;
+  followUpTemperature: number;
+}
+
+// The inputs a lesson was generated from, kept so it can be regenerated or extended later.
+export interface LearningContext {
+  urls: string[];
+  pdfFiles: File[];
+  // The page range chosen for each file in `pdfFiles`; empty means all pages.
+  pdfPageRanges?: string[];
+  // Extracted text of each PDF, kept so the lesson can be regenerated without re-parsing.
+  pdfDocuments?: (PdfDocumentText | null)[];
+  pastedTexts?: string[];
+  images?: ImageAttachment[];
+  searchQuery: string;
+  focusTopic: string;
+  // Set when the lesson is a structured model answer to this exam question.
+  examQuestion?: string;
+  // A copy of the profile the lesson was generated with; follow-ups use it too.
+  promptProfile?: PromptProfile;
+  model: string;
+  // Lessons saved before providers were selectable have no provider and were generated by Gemini.
+  provider?: ProviderId;
+  // Render sections as they are streamed instead of waiting for the full response.
+  streamResponse?: boolean;
+}
+
+export type RevisionAction = 'regenerate' | 'expand' | 'simplify' | 'add-questions' | 'differential-table';
+
+// A section as it was before one revision, kept so the revision can be reverted.
+export interface SectionRevision {
+  action: RevisionAction;
+  // Set when the revision targeted one question/answer pair rather than the whole section.
+  qaIndex?: number;
+  revisedAt: number;
+  previousSection: TeachingSectionContent;
+  // Chats that lessons saved before pairs had ids put aside when a section was rewritten.
+  previousChats?: Record<string, ChatMessage[]>;
+  // Set when the whole section was rewritten and its quiz no longer matched.
+  previousQuiz?: SectionQuiz;
+}
+
+export interface SavedLesson {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  model: string;
+  inputContext: LearningContext;
+  teachingSteps: TeachingSectionContent[];
+  initialSources: GroundingSource[];
+  chatHistories: Record<string, ChatMessage[]>;
+  currentStepIndex: number;
+  // Quizzes keyed by section id.
+  quizzes?: Record<string, SectionQuiz>;
+  // Revisions keyed by section id, oldest first.
+  revisions?: Record<string, SectionRevision[]>;
+}
+
+export type LessonSummary = Pick<SavedLesson, 'id' | 'title' | 'createdAt' | 'updatedAt' | 'model'> & {
+  sectionCount: number;
+};
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+// SM-2 scheduling data for one question/answer pair of a saved lesson.
+export interface FlashcardState {
+  // `${lessonId}:${pairId}`, matching the chat history keys within a lesson.
+  id: string;
+  lessonId: string;
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number;
+  lapses: number;
+  dueAt: number;
+  // First review, used for the daily limit on new cards.
+  introducedAt: number;
+  lastReviewedAt: number;
+}
+
+export interface Flashcard {
+  id: string;
+  lessonId: string;
+  lessonTitle: string;
+  sectionTitle: string;
+  question: string;
+  answer: string;
+  // Undefined for cards that have never been reviewed.
+  state?: FlashcardState;
+}
+
+export type BatchItemStatus = 'queued' | 'running' | 'done' | 'failed';
+
+// One question of a question bank run through the generator.
+export interface BatchItem {
+  id: string;
+  question: string;
+  status: BatchItemStatus;
+  sections?: TeachingSectionContent[];
+  sources?: GroundingSource[];
+  error?: string;
+  // Requests started for this question, including retries after rate limiting.
+  attempts: number;
+  // The profile of the last run, saved with the answer.
+  promptProfile?: PromptProfile;
+}